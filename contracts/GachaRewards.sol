@@ -0,0 +1,45 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint8 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { ERC721Enumerable } from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+
+// Reward tokens for won GachaFiFHE pulls. A token's rarity stays encrypted; only its holder is
+// granted access to decrypt it.
+contract GachaRewards is ERC721Enumerable, SepoliaConfig {
+    error NotGame();
+    error InvalidParameter();
+
+    event RewardMinted(uint256 indexed tokenId, address indexed player, uint256 indexed pullId, bytes32 rarityHandle);
+
+    address public immutable game; // the only minter
+
+    uint256 public tokenCount; // token ids from 1
+    mapping(uint256 => euint8) public encryptedTokenRarity; // tokenId -> rarity tier of the won pull
+    mapping(uint256 => uint256) public tokenPull;           // tokenId -> pullId
+
+    constructor(address _game) ERC721("GachaFi Reward", "GACHA") {
+        if (_game == address(0)) revert InvalidParameter();
+        game = _game;
+    }
+
+    // The game grants this contract access to `_rarity` before minting
+    function mint(address _player, uint256 _pullId, euint8 _rarity) external returns (uint256 tokenId) {
+        if (msg.sender != game) revert NotGame();
+        tokenId = ++tokenCount;
+        encryptedTokenRarity[tokenId] = _rarity;
+        tokenPull[tokenId] = _pullId;
+        _mint(_player, tokenId);
+        emit RewardMinted(tokenId, _player, _pullId, FHE.toBytes32(_rarity));
+    }
+
+    // Every new holder is granted access to the rarity. Access cannot be revoked from earlier
+    // holders, who could have decrypted it while they held the token anyway.
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address from) {
+        from = super._update(to, tokenId, auth);
+        if (to != address(0)) {
+            FHE.allow(encryptedTokenRarity[tokenId], to);
+        }
+    }
+}
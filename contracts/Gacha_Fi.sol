@@ -1,7 +1,9 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint16, euint32, euint128, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { GachaRewards } from "./GachaRewards.sol";
+import { IPrizeStrategy } from "./IPrizeStrategy.sol";
 
 
 contract GachaFiFHE is SepoliaConfig {
@@ -9,46 +11,218 @@ contract GachaFiFHE is SepoliaConfig {
     using FHE for ebool;
 
     error NotOwner();
-    error NotProvider();
+    error NotPendingOwner();
+    error MissingRole(Role role);
     error Paused();
     error CooldownActive();
-    error BatchClosed();
+    error BatchNotOpen();
     error BatchNotClosed();
     error InvalidParameter();
     error ReplayDetected();
     error StateMismatch();
-    error InvalidProof();
     error NotInitialized();
-
-    event ProviderAdded(address indexed provider);
-    event ProviderRemoved(address indexed provider);
+    error NotPlayer();
+    error AlreadyRevealed();
+    error IncorrectPayment();
+    error UnknownBanner();
+    error RewardsNotSet();
+    error AlreadyClaimed();
+    error BatchNotFinalized();
+    error NothingToClaim();
+    error TransferFailed();
+    error StrategyNotSet();
+    error NothingToInvest();
+    error AlreadyFinalized();
+    error DecryptionPending();
+    error BatchRefunding();
+    error NotRefundable();
+    error ChangeNotReady();
+    error RevealWindowOpen();
+
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(Role indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(Role indexed role, address indexed account, address indexed sender);
     event PausedSet(bool paused);
     event CooldownSecondsSet(uint256 cooldownSeconds);
-    event BatchOpened(uint256 batchId);
-    event BatchClosed(uint256 batchId);
-    event GachaSubmitted(address indexed player, uint256 indexed batchId, uint32 drawCount);
+    event DecryptionDeadlineSet(uint256 decryptionDeadlineSeconds);
+    event EconomyConfigured(uint32 version, uint16[] tierPayoutBps, uint32 pityThreshold, uint8 pityTier);
+    event RewardsSet(address rewards);
+    event StrategySet(address strategy);
+    event FundsInvested(uint256 amount);
+    event FundsDivested(uint256 amount);
+    event BannerCreated(uint256 indexed bannerId, uint256 pullPrice, uint32 drawCap, uint16[] tierRollBounds);
+    event BannerPullPriceSet(uint256 indexed bannerId, uint256 pullPrice);
+    event BannerDrawCapSet(uint256 indexed bannerId, uint32 drawCap);
+    event BatchOpened(uint256 indexed bannerId, uint256 batchId);
+    event BatchClosed(uint256 indexed bannerId, uint256 batchId);
+    // rarityHandle lets clients rebuild pull history from logs without a read per pull
+    event GachaSubmitted(address indexed player, uint256 indexed batchId, uint256 indexed pullId, bytes32 rarityHandle);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint32 totalPrizePool);
+    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint128 totalPrizePool);
+    event DecryptionSuperseded(uint256 indexed requestId, uint256 indexed batchId);
+    event DecryptionDropped(uint256 indexed requestId, uint256 indexed batchId);
+    event RefundsEnabled(uint256 indexed batchId);
+    event PullRefunded(uint256 indexed pullId, address indexed player, uint256 amount);
+    event ChangeQueued(uint256 indexed changeId, Param param, uint256 bannerId, uint256 value, uint64 executableAt);
+    event ChangeExecuted(uint256 indexed changeId);
+    event ChangeCancelled(uint256 indexed changeId);
+    event TimelockDelaySet(uint256 timelockDelay);
+    event PullRevealRequested(uint256 indexed requestId, uint256 indexed pullId);
+    event PullRevealed(uint256 indexed pullId, address indexed player, uint256 indexed batchId, uint8 rarity);
+    event WinningsAccrued(uint256 indexed pullId, address indexed player, uint256 amount);
+    event WinningsClaimed(address indexed player, uint256 amount);
+    event RemainderRolledOver(uint256 indexed batchId, uint256 indexed bannerId, uint256 amount);
+    event YieldHarvested(uint256 indexed bannerId, uint256 amount);
+    event RewardClaimRequested(uint256 indexed requestId, uint256 indexed pullId);
+    // tokenId is 0 when the pull did not win
+    event RewardClaimSettled(uint256 indexed pullId, address indexed player, bool won, uint256 tokenId);
+
+    // Duties the owner can hand out, each to any number of accounts
+    enum Role {
+        Admin,     // creates banners, queues parameter changes, sets the reward contract and may refund a batch
+        Operator,  // runs batches: opens, closes and requests their decryption
+        Treasurer, // queues prize strategy changes, moves idle funds into the strategy and hands out its yield
+        Pauser     // pauses and unpauses the game
+    }
 
     struct DecryptionContext {
         uint256 batchId;
         bytes32 stateHash;
         bool processed;
+        bool superseded; // a later request for the same batch replaced this one
+    }
+
+    // Latest decryption request of a batch
+    struct BatchSettlement {
+        bool pending;        // requested and not answered yet
+        uint256 requestId;
+        uint64 requestedAt;
+        bool refunding;      // gave up on settling; players reclaim what they paid instead
+    }
+
+    // A banner runs its own sequence of batches, at its own price and odds
+    struct Banner {
+        bool exists;
+        bool batchOpen;
+        uint256 currentBatchId; // latest batch opened on this banner
+        uint256 pullPrice;      // wei per draw, applied to batches opened afterwards
+        uint32 drawCap;         // draws one player may make per batch, 0 for no cap; applied to batches opened afterwards
+        uint16[] tierRollBounds; // a 0-99 roll below tierRollBounds[i] lifts the pull past tier i; strictly decreasing
+    }
+
+    // Cleartext outcome of a batch, set when its decryption completes
+    struct BatchResult {
+        bool finalized;
+        uint256 prizePool;  // wei deposited, plus what the banner carried into the batch
+        uint32 drawCount;
+        uint256 accrued;    // wei credited to winners so far
+        uint64 settledAt;   // block time the decryption landed
+        uint256 requestId;  // decryption request that settled the batch
+        uint256 rolledOver; // wei moved on to the banner's next batch; accrued + rolledOver never exceeds prizePool
+    }
+
+    struct RewardClaim {
+        bool requested;
+        bool settled;
+        bool won;
+        uint256 tokenId;
     }
 
+    // Economic parameters and the prize strategy, which only change through the timelock
+    enum Param {
+        CooldownSeconds, // seconds between an account's submissions
+        PullPrice,       // wei per draw on bannerId, for batches opened afterwards
+        TimelockDelay,   // seconds a queued change waits before it may be executed
+        DrawCap,         // draws per player per batch on bannerId, for batches opened afterwards; 0 lifts the cap
+        Strategy         // address of the prize strategy, 0 to keep every wei in this contract; queued by treasurers
+    }
+
+    // A queued parameter change; anyone may execute it from executableAt on
+    struct PendingChange {
+        uint256 id;
+        Param param;
+        uint256 bannerId;
+        uint256 value;
+        uint64 executableAt;
+    }
+
+    struct PullReveal {
+        bool requested;
+        bool revealed;
+        uint8 rarity;
+    }
+
+    uint16 public constant ROLL_RANGE = 100;
+    // Every draw in a submission runs its own FHE roll, so submissions are bounded to stay within a block
+    uint32 public constant MAX_DRAWS_PER_SUBMISSION = 10;
+    // How long winners have to reveal after their batch settles before its unpaid remainder may roll over
+    uint256 public constant REVEAL_WINDOW = 30 days;
+    uint16 public constant BPS = 10_000;
+
+    // Grants and revokes roles; hands over in two steps so a mistyped address cannot take the contract
     address public owner;
-    mapping(address => bool) public isProvider;
+    address public pendingOwner;
+    mapping(Role => mapping(address => bool)) public hasRole;
     bool public paused;
     uint256 public cooldownSeconds;
+    // Notice players get of a queued economic parameter change before it can apply
+    uint256 public timelockDelay;
+    uint256 public changeCount; // change ids from 1
+    PendingChange[] internal pendingChanges;
+    // How long a decryption request may go unanswered before it can be superseded or the batch refunded
+    uint256 public decryptionDeadlineSeconds;
+
+    // Version of the economy config (frontend/web/src/economyConfig.json) the odds were deployed from
+    uint32 public economyVersion;
+    // Rarity tiers shared by every banner, from 0 up to tierCount - 1
+    uint8 public tierCount;
+    // Share of its batch prize pool each tier pays out, in basis points, split evenly among the batch's
+    // pulls at that tier; the shares add up to at most BPS
+    uint16[] internal tierPayoutBps;
+    // After pityThreshold pulls in a row below pityTier, a player's next pull lands at pityTier or better
+    uint32 public pityThreshold;
+    uint8 public pityTier;
+    // Commonest tier that pays out; pulls at rewardTier or better win, and can be claimed for a reward token
+    uint8 public rewardTier;
+    GachaRewards public rewards;
+    // Holds idle prize pool ether between deposits and claims; unset keeps it all in this contract
+    IPrizeStrategy public strategy;
+    // Wei players are owed or that waits to join a batch; anything held beyond it is strategy yield
+    uint256 public reservedFunds;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
 
-    uint256 public currentBatchId;
-    bool public batchOpen;
-
-    mapping(uint256 => euint32) public encryptedTotalPrizePool; // batchId -> euint32
+    uint256 public bannerCount;
+    mapping(uint256 => Banner) public banners; // bannerId -> banner, ids from 0
+    mapping(uint256 => uint256) public bannerCarry; // bannerId -> wei that joins the banner's next batch
+
+    uint256 public batchCount; // batch ids are global across banners, from 1
+    mapping(uint256 => uint256) public batchBanner;            // batchId -> bannerId
+    mapping(uint256 => uint256) public batchPullPrice;         // batchId -> wei per draw
+    mapping(uint256 => uint32) public batchDrawCap;            // batchId -> draws per player, 0 for no cap
+    mapping(uint256 => uint256) public batchCarry;             // batchId -> wei the banner carried into it
+    mapping(uint256 => euint128) public encryptedTotalPrizePool; // batchId -> wei deposited and carried in
+    mapping(uint256 => BatchResult) public batchResults;       // batchId -> decrypted outcome
+    mapping(uint256 => BatchSettlement) public batchSettlements; // batchId -> latest decryption request
     mapping(uint256 => euint32) public encryptedDrawCount;     // batchId -> euint32
     mapping(uint256 => mapping(address => euint32)) public encryptedPlayerDrawCounts; // batchId -> player -> euint32
+    mapping(address => euint32) public encryptedPityCounters; // player -> pulls since the last pityTier-or-better
+    mapping(uint256 => mapping(uint8 => euint32)) public encryptedTierWinners; // batchId -> paying tier -> pulls at it
+    mapping(uint256 => mapping(uint8 => uint32)) public batchTierWinners;      // batchId -> paying tier -> decrypted count
+
+    uint256 public pullCount;
+    mapping(uint256 => euint8) public encryptedPullRarity; // pullId -> rarity tier
+    mapping(uint256 => address) public pullPlayer;         // pullId -> player
+    mapping(uint256 => uint256) public pullBatch;          // pullId -> batchId
+    mapping(uint256 => uint256) public pullPayment;        // pullId -> wei paid
+    mapping(uint256 => bool) public pullRefunded;          // pullId -> payment returned
+    mapping(uint256 => PullReveal) public pullReveals;     // pullId -> public outcome
+    mapping(uint256 => uint256) public revealRequestPull;  // requestId -> pullId
+    mapping(address => uint256) public claimableWinnings;  // player -> wei ready to withdraw
+    mapping(address => uint256) public claimedWinnings;    // player -> wei withdrawn so far
+    mapping(uint256 => RewardClaim) public rewardClaims;   // pullId -> reward claim
+    mapping(uint256 => uint256) public rewardRequestPull;  // requestId -> pullId
 
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
@@ -57,8 +231,8 @@ contract GachaFiFHE is SepoliaConfig {
         _;
     }
 
-    modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
+    modifier onlyRole(Role _role) {
+        _checkRole(_role);
         _;
     }
 
@@ -67,104 +241,325 @@ contract GachaFiFHE is SepoliaConfig {
         _;
     }
 
-    constructor() {
+    modifier bannerExists(uint256 _bannerId) {
+        if (!banners[_bannerId].exists) revert UnknownBanner();
+        _;
+    }
+
+    constructor(uint32 _economyVersion, uint16[] memory _tierPayoutBps, uint32 _pityThreshold, uint8 _pityTier) {
+        uint256 tiers = _tierPayoutBps.length;
+        if (_economyVersion == 0 || tiers < 2 || tiers > type(uint8).max) revert InvalidParameter();
+        if (_pityThreshold == 0 || _pityTier == 0 || _pityTier >= tiers) revert InvalidParameter();
+
+        // Paying tiers must be the rarest ones, so that "at rewardTier or better" means "won"
+        uint256 firstPaying = tiers;
+        uint256 totalBps;
+        for (uint256 i = 0; i < tiers; i++) {
+            totalBps += _tierPayoutBps[i];
+            if (_tierPayoutBps[i] > 0 && firstPaying == tiers) firstPaying = i;
+            if (_tierPayoutBps[i] == 0 && firstPaying < tiers) revert InvalidParameter();
+        }
+        // Tiers share one pool, so together they can pay out at most all of it
+        if (totalBps > BPS) revert InvalidParameter();
+        // Pulls over a draw cap land in tier 0, so it must not pay
+        if (firstPaying == 0 || firstPaying == tiers) revert InvalidParameter();
+
+        economyVersion = _economyVersion;
+        tierCount = uint8(tiers);
+        tierPayoutBps = _tierPayoutBps;
+        rewardTier = uint8(firstPaying);
+        pityThreshold = _pityThreshold;
+        pityTier = _pityTier;
+        emit EconomyConfigured(_economyVersion, _tierPayoutBps, _pityThreshold, _pityTier);
+
         owner = msg.sender;
-        isProvider[owner] = true;
+        emit OwnershipTransferred(address(0), msg.sender);
+        // The deployer starts out holding every role
+        _grantRole(Role.Admin, msg.sender);
+        _grantRole(Role.Operator, msg.sender);
+        _grantRole(Role.Treasurer, msg.sender);
+        _grantRole(Role.Pauser, msg.sender);
         paused = false;
         cooldownSeconds = 10; // Default cooldown
-        currentBatchId = 0;
-        batchOpen = false;
-        emit ProviderAdded(owner);
+        decryptionDeadlineSeconds = 1 days;
+        timelockDelay = 1 days;
+        batchCount = 0;
+    }
+
+    function getTierPayoutBps() external view returns (uint16[] memory) {
+        return tierPayoutBps;
+    }
+
+    function getBatchResult(uint256 _batchId) external view returns (BatchResult memory) {
+        if (_batchId == 0 || _batchId > batchCount) revert InvalidParameter();
+        return batchResults[_batchId];
+    }
+
+    // Up to `_limit` consecutive batches from `_fromBatchId` up; batches still open or awaiting
+    // decryption come back unfinalized, and the page is cut short at the latest batch
+    function getBatchResults(uint256 _fromBatchId, uint256 _limit) external view returns (BatchResult[] memory results) {
+        if (_fromBatchId == 0 || _limit == 0) revert InvalidParameter();
+        uint256 count = _fromBatchId > batchCount ? 0 : batchCount - _fromBatchId + 1;
+        if (count > _limit) count = _limit;
+        results = new BatchResult[](count);
+        for (uint256 i = 0; i < count; i++) {
+            results[i] = batchResults[_fromBatchId + i];
+        }
     }
 
-    function addProvider(address _provider) external onlyOwner {
-        if (_provider == address(0)) revert InvalidParameter();
-        isProvider[_provider] = true;
-        emit ProviderAdded(_provider);
+    function getBannerRollBounds(uint256 _bannerId) external view bannerExists(_bannerId) returns (uint16[] memory) {
+        return banners[_bannerId].tierRollBounds;
     }
 
-    function removeProvider(address _provider) external onlyOwner {
-        if (_provider == address(0)) revert InvalidParameter();
-        delete isProvider[_provider];
-        emit ProviderRemoved(_provider);
+    // Proposes a new owner, who takes over once they accept; proposing address(0) cancels
+    function transferOwnership(address _newOwner) external onlyOwner {
+        pendingOwner = _newOwner;
+        emit OwnershipTransferStarted(owner, _newOwner);
     }
 
-    function setPaused(bool _paused) external onlyOwner {
+    // The roles the old owner held move to the new one, so a retired owner key keeps no duties
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        address previousOwner = owner;
+        emit OwnershipTransferred(previousOwner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+        for (uint8 i = 0; i <= uint8(Role.Pauser); i++) {
+            if (hasRole[Role(i)][previousOwner]) {
+                _revokeRole(Role(i), previousOwner);
+                _grantRole(Role(i), msg.sender);
+            }
+        }
+    }
+
+    function grantRole(Role _role, address _account) external onlyOwner {
+        if (_account == address(0)) revert InvalidParameter();
+        _grantRole(_role, _account);
+    }
+
+    function revokeRole(Role _role, address _account) external onlyOwner {
+        _revokeRole(_role, _account);
+    }
+
+    // Lets a holder give up a role, e.g. when its key may have leaked
+    function renounceRole(Role _role) external {
+        _revokeRole(_role, msg.sender);
+    }
+
+    function setPaused(bool _paused) external onlyRole(Role.Pauser) {
         paused = _paused;
         emit PausedSet(_paused);
     }
 
-    function setCooldownSeconds(uint256 _cooldownSeconds) external onlyOwner {
-        if (_cooldownSeconds == 0) revert InvalidParameter();
-        cooldownSeconds = _cooldownSeconds;
-        emit CooldownSecondsSet(_cooldownSeconds);
+    // Schedules a parameter change that anyone may apply with executeChange once timelockDelay has passed.
+    // `_bannerId` is only read for PullPrice and DrawCap.
+    function queueChange(Param _param, uint256 _bannerId, uint256 _value) external returns (uint256 changeId) {
+        _checkRole(_changeRole(_param));
+        if (_param == Param.Strategy) {
+            // The strategy takes custody of the prize pool, so players get the same notice as for prices
+            if (_value > type(uint160).max) revert InvalidParameter();
+            IPrizeStrategy newStrategy = IPrizeStrategy(address(uint160(_value)));
+            if (_value != 0 && newStrategy.game() != address(this)) revert InvalidParameter();
+        } else {
+            // Prices must be positive; every other value is seconds or draws and fits a uint32
+            bool perBanner = _param == Param.PullPrice || _param == Param.DrawCap;
+            if (perBanner ? _bannerId >= bannerCount : _value == 0) revert InvalidParameter();
+            if (_param == Param.PullPrice ? _value == 0 : _value > type(uint32).max) revert InvalidParameter();
+        }
+        changeId = ++changeCount;
+        uint64 executableAt = uint64(block.timestamp + timelockDelay);
+        pendingChanges.push(PendingChange(changeId, _param, _bannerId, _value, executableAt));
+        emit ChangeQueued(changeId, _param, _bannerId, _value, executableAt);
     }
 
-    function openBatch() external onlyProvider whenNotPaused {
-        if (batchOpen) revert BatchNotClosed();
-        currentBatchId++;
-        batchOpen = true;
-        // Initialize encrypted state for the new batch
-        encryptedTotalPrizePool[currentBatchId] = FHE.asEuint32(0);
-        encryptedDrawCount[currentBatchId] = FHE.asEuint32(0);
-        emit BatchOpened(currentBatchId);
+    function executeChange(uint256 _changeId) external {
+        PendingChange memory change = _takeChange(_changeId);
+        if (block.timestamp < change.executableAt) revert ChangeNotReady();
+        if (change.param == Param.CooldownSeconds) {
+            cooldownSeconds = change.value;
+            emit CooldownSecondsSet(change.value);
+        } else if (change.param == Param.PullPrice) {
+            banners[change.bannerId].pullPrice = change.value;
+            emit BannerPullPriceSet(change.bannerId, change.value);
+        } else if (change.param == Param.TimelockDelay) {
+            timelockDelay = change.value;
+            emit TimelockDelaySet(change.value);
+        } else if (change.param == Param.DrawCap) {
+            banners[change.bannerId].drawCap = uint32(change.value);
+            emit BannerDrawCapSet(change.bannerId, uint32(change.value));
+        } else {
+            _setStrategy(IPrizeStrategy(address(uint160(change.value))));
+        }
+        emit ChangeExecuted(_changeId);
     }
 
-    function closeBatch() external onlyProvider whenNotPaused {
-        if (!batchOpen) revert BatchClosed();
-        batchOpen = false;
-        emit BatchClosed(currentBatchId);
+    // Drops a queued change; takes the role that may queue it
+    function cancelChange(uint256 _changeId) external {
+        _checkRole(_changeRole(_takeChange(_changeId).param));
+        emit ChangeCancelled(_changeId);
     }
 
-    function submitGachaDraw(uint32 _drawCount) external whenNotPaused {
-        if (!batchOpen) revert BatchClosed();
-        if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
-            revert CooldownActive();
+    // Changes queued and neither executed nor cancelled yet, in no particular order
+    function getPendingChanges() external view returns (PendingChange[] memory) {
+        return pendingChanges;
+    }
+
+    function setDecryptionDeadline(uint256 _decryptionDeadlineSeconds) external onlyRole(Role.Admin) {
+        if (_decryptionDeadlineSeconds == 0) revert InvalidParameter();
+        decryptionDeadlineSeconds = _decryptionDeadlineSeconds;
+        emit DecryptionDeadlineSet(_decryptionDeadlineSeconds);
+    }
+
+    function setRewards(GachaRewards _rewards) external onlyRole(Role.Admin) {
+        if (address(_rewards) == address(0) || _rewards.game() != address(this)) revert InvalidParameter();
+        rewards = _rewards;
+        emit RewardsSet(address(_rewards));
+    }
+
+    // Moves all ether held here into the strategy; claims withdraw what they need back out
+    function investIdleFunds() external onlyRole(Role.Treasurer) whenNotPaused {
+        if (address(strategy) == address(0)) revert StrategyNotSet();
+        uint256 amount = address(this).balance;
+        if (amount == 0) revert NothingToInvest();
+        strategy.deposit{ value: amount }();
+        emit FundsInvested(amount);
+    }
+
+    // Only the strategy sends ether outside of draws
+    receive() external payable {
+        if (msg.sender != address(strategy)) revert InvalidParameter();
+    }
+
+    function createBanner(uint16[] calldata _tierRollBounds, uint256 _pullPrice, uint32 _drawCap)
+        external
+        onlyRole(Role.Admin)
+        returns (uint256 bannerId)
+    {
+        if (_tierRollBounds.length != tierCount - 1 || _pullPrice == 0) revert InvalidParameter();
+        uint16 previousBound = ROLL_RANGE + 1;
+        for (uint256 i = 0; i < _tierRollBounds.length; i++) {
+            if (_tierRollBounds[i] == 0 || _tierRollBounds[i] >= previousBound) revert InvalidParameter();
+            previousBound = _tierRollBounds[i];
         }
-        lastSubmissionTime[msg.sender] = block.timestamp;
 
-        euint32 memory currentBatchEncryptedDrawCount = encryptedDrawCount[currentBatchId];
-        euint32 memory playerEncryptedDrawCount = encryptedPlayerDrawCounts[currentBatchId][msg.sender];
+        bannerId = bannerCount++;
+        Banner storage banner = banners[bannerId];
+        banner.exists = true;
+        banner.pullPrice = _pullPrice;
+        banner.drawCap = _drawCap;
+        banner.tierRollBounds = _tierRollBounds;
+        emit BannerCreated(bannerId, _pullPrice, _drawCap, _tierRollBounds);
+    }
+
+    function openBatch(uint256 _bannerId) external onlyRole(Role.Operator) whenNotPaused bannerExists(_bannerId) {
+        Banner storage banner = banners[_bannerId];
+        if (banner.batchOpen) revert BatchNotClosed();
+        // Only a banner's latest batch can be decrypted, so the previous one must settle or refund first
+        uint256 previous = banner.currentBatchId;
+        if (previous != 0 && !batchResults[previous].finalized && !batchSettlements[previous].refunding) {
+            revert BatchNotFinalized();
+        }
+        uint256 batchId = ++batchCount;
+        banner.currentBatchId = batchId;
+        banner.batchOpen = true;
+        batchBanner[batchId] = _bannerId;
+        // The price is fixed for the batch's lifetime so every pull in it pays the same
+        batchPullPrice[batchId] = banner.pullPrice;
+        batchDrawCap[batchId] = banner.drawCap;
+        // The pool starts from what earlier batches left unpaid
+        uint256 carry = bannerCarry[_bannerId];
+        bannerCarry[_bannerId] = 0;
+        batchCarry[batchId] = carry;
+        // Initialize encrypted state for the new batch
+        encryptedTotalPrizePool[batchId] = FHE.allowThis(FHE.asEuint128(uint128(carry)));
+        encryptedDrawCount[batchId] = FHE.allowThis(FHE.asEuint32(0));
+        for (uint8 tier = rewardTier; tier < tierCount; tier++) {
+            encryptedTierWinners[batchId][tier] = FHE.allowThis(FHE.asEuint32(0));
+        }
+        emit BatchOpened(_bannerId, batchId);
+    }
+
+    function closeBatch(uint256 _bannerId) external onlyRole(Role.Operator) whenNotPaused bannerExists(_bannerId) {
+        Banner storage banner = banners[_bannerId];
+        if (!banner.batchOpen) revert BatchNotOpen();
+        banner.batchOpen = false;
+        emit BatchClosed(_bannerId, banner.currentBatchId);
+    }
 
-        if (!FHE.isInitialized(currentBatchEncryptedDrawCount)) {
-            currentBatchEncryptedDrawCount = FHE.asEuint32(0);
-            encryptedDrawCount[currentBatchId] = currentBatchEncryptedDrawCount;
+    // Rolls one pull per draw, each with its own encrypted rarity, payment, reveal and reward claim.
+    // Returns the first pull's id; the rest follow it in order. A submission past the player's draw
+    // cap still charges the full price, but its pulls land in tier 0 and can never win, so its
+    // payment is forfeited to the batch's winners; refunding it would reveal who went over the cap.
+    function submitGachaDraw(uint256 _bannerId, uint32 _drawCount)
+        external
+        payable
+        whenNotPaused
+        bannerExists(_bannerId)
+        returns (uint256 firstPullId)
+    {
+        Banner storage banner = banners[_bannerId];
+        if (!banner.batchOpen) revert BatchNotOpen();
+        uint256 currentBatchId = banner.currentBatchId;
+        uint32 drawCap = batchDrawCap[currentBatchId];
+        if (_drawCount == 0 || _drawCount > MAX_DRAWS_PER_SUBMISSION || (drawCap != 0 && _drawCount > drawCap)) {
+            revert InvalidParameter();
         }
-        if (!FHE.isInitialized(playerEncryptedDrawCount)) {
-            playerEncryptedDrawCount = FHE.asEuint32(0);
-            encryptedPlayerDrawCounts[currentBatchId][msg.sender] = playerEncryptedDrawCount;
+        uint256 pullPrice = batchPullPrice[currentBatchId];
+        if (msg.value != pullPrice * _drawCount) revert IncorrectPayment();
+        if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
+            revert CooldownActive();
         }
+        lastSubmissionTime[msg.sender] = block.timestamp;
 
-        euint32 memory newPlayerDrawCount = FHE.add(playerEncryptedDrawCount, FHE.asEuint32(_drawCount));
-        encryptedPlayerDrawCounts[currentBatchId][msg.sender] = newPlayerDrawCount;
+        ebool counted = _addDraws(currentBatchId, drawCap, _drawCount);
 
-        euint32 memory newBatchDrawCount = FHE.add(currentBatchEncryptedDrawCount, FHE.asEuint32(_drawCount));
-        encryptedDrawCount[currentBatchId] = newBatchDrawCount;
+        // Every payment joins the pool, a capped pull's included, so the deposit reveals nothing either.
+        // Ether supply is far below 2^128 wei, so the deposit always fits.
+        euint128 newTotalPrizePool = FHE.add(encryptedTotalPrizePool[currentBatchId], FHE.asEuint128(uint128(msg.value)));
+        FHE.allowThis(newTotalPrizePool);
+        encryptedTotalPrizePool[currentBatchId] = newTotalPrizePool;
+        reservedFunds += msg.value;
 
-        emit GachaSubmitted(msg.sender, currentBatchId, _drawCount);
+        firstPullId = pullCount + 1;
+        for (uint32 i = 0; i < _drawCount; i++) {
+            // The rarity is rolled and stays encrypted on-chain; only the player may re-encrypt it for viewing
+            _recordPull(currentBatchId, pullPrice, _applyPity(_rollRarityTier(banner.tierRollBounds), counted));
+        }
     }
 
-    function requestBatchDecryption() external onlyProvider whenNotPaused {
-        if (batchOpen) revert BatchNotClosed(); // Ensure batch is closed
+    // Decrypts the banner's latest batch once it has closed
+    function requestBatchDecryption(uint256 _bannerId) external onlyRole(Role.Operator) whenNotPaused bannerExists(_bannerId) {
+        Banner storage banner = banners[_bannerId];
+        if (banner.batchOpen) revert BatchNotClosed(); // Ensure batch is closed
+        uint256 currentBatchId = banner.currentBatchId;
         if (block.timestamp < lastDecryptionRequestTime[msg.sender] + cooldownSeconds) {
             revert CooldownActive();
         }
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
 
-        euint32 memory totalPrizePool = encryptedTotalPrizePool[currentBatchId];
-        euint32 memory totalDraws = encryptedDrawCount[currentBatchId];
-
-        _requireInitialized(totalPrizePool);
-        _requireInitialized(totalDraws);
-
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(totalPrizePool);
-        cts[1] = FHE.toBytes32(totalDraws);
+        if (batchResults[currentBatchId].finalized) revert AlreadyFinalized();
+        BatchSettlement storage settlement = batchSettlements[currentBatchId];
+        if (settlement.refunding) revert BatchRefunding();
+        // A request is only replaced once it has gone stale, and its late answer is dropped
+        if (settlement.pending) {
+            if (!_isStale(settlement)) revert DecryptionPending();
+            decryptionContexts[settlement.requestId].superseded = true;
+            emit DecryptionSuperseded(settlement.requestId, currentBatchId);
+        }
 
+        bytes32[] memory cts = _batchCiphertexts(currentBatchId);
         bytes32 stateHash = _hashCiphertexts(cts);
 
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
-        decryptionContexts[requestId] = DecryptionContext({ batchId: currentBatchId, stateHash: stateHash, processed: false });
+        decryptionContexts[requestId] = DecryptionContext({
+            batchId: currentBatchId,
+            stateHash: stateHash,
+            processed: false,
+            superseded: false
+        });
+        settlement.pending = true;
+        settlement.requestId = requestId;
+        settlement.requestedAt = uint64(block.timestamp);
 
         emit DecryptionRequested(requestId, currentBatchId);
     }
@@ -174,43 +569,381 @@ contract GachaFiFHE is SepoliaConfig {
 
         if (context.processed) revert ReplayDetected();
 
-        euint32 memory currentTotalPrizePool = encryptedTotalPrizePool[context.batchId];
-        euint32 memory currentTotalDraws = encryptedDrawCount[context.batchId];
-
-        _requireInitialized(currentTotalPrizePool);
-        _requireInitialized(currentTotalDraws);
-
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(currentTotalPrizePool);
-        cts[1] = FHE.toBytes32(currentTotalDraws);
+        // Answers that no longer count are dropped rather than reverted, so the oracle stops retrying them
+        if (context.superseded || batchSettlements[context.batchId].refunding) {
+            context.processed = true;
+            emit DecryptionDropped(requestId, context.batchId);
+            return;
+        }
 
-        bytes32 currentHash = _hashCiphertexts(cts);
+        bytes32 currentHash = _hashCiphertexts(_batchCiphertexts(context.batchId));
         if (currentHash != context.stateHash) {
             revert StateMismatch(); // Ensures contract state hasn't changed since request
         }
 
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert InvalidProof(); // Verifies FHE provider's computation
-        }
+        FHE.checkSignatures(requestId, cleartexts, proof); // Verifies FHE provider's computation
 
-        uint32 totalPrizePoolCleartext = abi.decode(cleartexts[0], (uint32));
-        uint32 totalDrawsCleartext = abi.decode(cleartexts[1], (uint32));
+        (uint128 totalPrizePoolCleartext, uint32 totalDrawsCleartext) = abi.decode(cleartexts, (uint128, uint32));
 
         context.processed = true;
+        batchSettlements[context.batchId].pending = false;
+        BatchResult storage result = batchResults[context.batchId];
+        result.finalized = true;
+        result.prizePool = totalPrizePoolCleartext;
+        result.drawCount = totalDrawsCleartext;
+        result.settledAt = uint64(block.timestamp);
+        result.requestId = requestId;
+        // Every cleartext takes one 32-byte word, the tier counts following the pool and the draws
+        for (uint8 tier = rewardTier; tier < tierCount; tier++) {
+            uint256 offset = 32 * (3 + tier - rewardTier);
+            uint256 winners;
+            assembly ("memory-safe") {
+                winners := mload(add(cleartexts, offset))
+            }
+            batchTierWinners[context.batchId][tier] = uint32(winners);
+        }
         emit DecryptionCompleted(requestId, context.batchId, totalPrizePoolCleartext);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    // Publishes a pull's rarity once its batch's prize pool is known, so wins can be ranked publicly
+    // and paid out
+    function revealPull(uint256 pullId) external whenNotPaused {
+        if (pullPlayer[pullId] != msg.sender) revert NotPlayer();
+        if (!batchResults[pullBatch[pullId]].finalized) revert BatchNotFinalized();
+        PullReveal storage reveal = pullReveals[pullId];
+        if (reveal.requested) revert AlreadyRevealed();
+        reveal.requested = true;
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(encryptedPullRarity[pullId]);
+        uint256 requestId = FHE.requestDecryption(cts, this.revealCallback.selector);
+        revealRequestPull[requestId] = pullId;
+
+        emit PullRevealRequested(requestId, pullId);
+    }
+
+    function revealCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 pullId = revealRequestPull[requestId];
+        if (pullId == 0) revert InvalidParameter();
+        PullReveal storage reveal = pullReveals[pullId];
+        if (reveal.revealed) revert ReplayDetected();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint8 rarity = abi.decode(cleartexts, (uint8));
+        reveal.revealed = true;
+        reveal.rarity = rarity;
+        emit PullRevealed(pullId, pullPlayer[pullId], pullBatch[pullId], rarity);
+        _accrueWinnings(pullId, rarity);
+    }
+
+    // Withdraws every winning credited to the caller. Left open while paused so funds are never stuck.
+    function claim() external {
+        uint256 amount = claimableWinnings[msg.sender];
+        if (amount == 0) revert NothingToClaim();
+        claimableWinnings[msg.sender] = 0;
+        claimedWinnings[msg.sender] += amount;
+        reservedFunds -= amount;
+
+        _sendEther(msg.sender, amount);
+        emit WinningsClaimed(msg.sender, amount);
+    }
+
+    // Moves what a settled batch did not pay out into its banner's next batch once winners have had
+    // REVEAL_WINDOW to reveal: the shares of tiers nobody hit, the shares of winners who never
+    // revealed, and rounding dust. Anyone may call it; later reveals of the batch earn nothing.
+    function rolloverRemainder(uint256 _batchId) external {
+        BatchResult storage result = batchResults[_batchId];
+        if (!result.finalized) revert BatchNotFinalized();
+        if (block.timestamp < result.settledAt + REVEAL_WINDOW) revert RevealWindowOpen();
+        uint256 amount = result.prizePool - result.accrued - result.rolledOver;
+        if (amount == 0) revert NothingToClaim();
+        result.rolledOver += amount;
+        uint256 bannerId = batchBanner[_batchId];
+        bannerCarry[bannerId] += amount;
+        emit RemainderRolledOver(_batchId, bannerId, amount);
+    }
+
+    // Hands the strategy's yield, everything held beyond reservedFunds, to the banner's next batch
+    function harvestYield(uint256 _bannerId) external onlyRole(Role.Treasurer) bannerExists(_bannerId) {
+        uint256 held = address(this).balance;
+        if (address(strategy) != address(0)) held += strategy.totalAssets();
+        if (held <= reservedFunds) revert NothingToClaim();
+        uint256 amount = held - reservedFunds;
+        reservedFunds = held;
+        bannerCarry[_bannerId] += amount;
+        emit YieldHarvested(_bannerId, amount);
+    }
+
+    // Lets players reclaim what they paid into a closed batch that will not settle. Admins may give
+    // up on any such batch; anyone may once its decryption request has gone stale.
+    function enableRefunds(uint256 _batchId) external {
+        if (_batchId == 0 || _batchId > batchCount) revert InvalidParameter();
+        _requireBatchClosed(_batchId);
+        if (batchResults[_batchId].finalized) revert AlreadyFinalized();
+        BatchSettlement storage settlement = batchSettlements[_batchId];
+        if (settlement.refunding) revert BatchRefunding();
+        if (!hasRole[Role.Admin][msg.sender] && !(settlement.pending && _isStale(settlement))) revert NotRefundable();
+        settlement.refunding = true;
+        // Refunds only return payments, so what the banner carried in moves on to its next batch
+        bannerCarry[batchBanner[_batchId]] += batchCarry[_batchId];
+        emit RefundsEnabled(_batchId);
+    }
+
+    // Returns a pull's payment from a refunding batch. A pull that won a reward token keeps the token
+    // instead, but a reward claim the oracle has not answered yet does not hold the refund up; left
+    // open while paused, like claim.
+    function refundPull(uint256 pullId) external {
+        if (pullPlayer[pullId] != msg.sender) revert NotPlayer();
+        if (!batchSettlements[pullBatch[pullId]].refunding) revert NotRefundable();
+        if (pullRefunded[pullId] || rewardClaims[pullId].won) revert AlreadyClaimed();
+        pullRefunded[pullId] = true;
+
+        uint256 amount = pullPayment[pullId];
+        reservedFunds -= amount;
+        _sendEther(msg.sender, amount);
+        emit PullRefunded(pullId, msg.sender, amount);
+    }
+
+    // Asks the oracle only whether a pull won, so its tier stays private; a win mints a reward token
+    // that carries the encrypted tier
+    function claimReward(uint256 pullId) external whenNotPaused {
+        if (pullPlayer[pullId] != msg.sender) revert NotPlayer();
+        if (address(rewards) == address(0)) revert RewardsNotSet();
+        _requireBatchClosed(pullBatch[pullId]);
+        if (batchSettlements[pullBatch[pullId]].refunding) revert BatchRefunding();
+        RewardClaim storage rewardClaim = rewardClaims[pullId];
+        if (rewardClaim.requested) revert AlreadyClaimed();
+        rewardClaim.requested = true;
+
+        ebool won = FHE.ge(encryptedPullRarity[pullId], rewardTier);
+        FHE.allowThis(won);
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(won);
+        uint256 requestId = FHE.requestDecryption(cts, this.rewardCallback.selector);
+        rewardRequestPull[requestId] = pullId;
+
+        emit RewardClaimRequested(requestId, pullId);
+    }
+
+    function rewardCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 pullId = rewardRequestPull[requestId];
+        if (pullId == 0) revert InvalidParameter();
+        RewardClaim storage rewardClaim = rewardClaims[pullId];
+        if (rewardClaim.settled) revert ReplayDetected();
+        rewardClaim.settled = true;
+        // The pull's payment went back while the claim was pending, so the answer is dropped unminted
+        if (pullRefunded[pullId]) return;
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool won = abi.decode(cleartexts, (bool));
+        rewardClaim.won = won;
+        address player = pullPlayer[pullId];
+        if (won) {
+            euint8 rarity = encryptedPullRarity[pullId];
+            FHE.allow(rarity, address(rewards));
+            rewardClaim.tokenId = rewards.mint(player, pullId, rarity);
+        }
+        emit RewardClaimSettled(pullId, player, won, rewardClaim.tokenId);
+    }
+
+    // Stores one rolled pull of the current submission and counts it towards its tier's winners
+    function _recordPull(uint256 batchId, uint256 payment, euint8 rarity) internal {
+        FHE.allowThis(rarity);
+        FHE.allow(rarity, msg.sender);
+        uint256 pullId = ++pullCount;
+        encryptedPullRarity[pullId] = rarity;
+        pullPlayer[pullId] = msg.sender;
+        pullBatch[pullId] = batchId;
+        pullPayment[pullId] = payment;
+        // Winners are counted per tier, so the batch decryption tells how many share each tier's payout
+        for (uint8 tier = rewardTier; tier < tierCount; tier++) {
+            euint32 winners = FHE.add(encryptedTierWinners[batchId][tier], FHE.asEuint32(FHE.eq(rarity, tier)));
+            FHE.allowThis(winners);
+            encryptedTierWinners[batchId][tier] = winners;
+        }
+        emit GachaSubmitted(msg.sender, batchId, pullId, FHE.toBytes32(rarity));
+    }
+
+    // Draws a tier without the underlying roll ever existing in cleartext
+    function _rollRarityTier(uint16[] storage tierRollBounds) internal returns (euint8 tier) {
+        // 16 random bits reduced to 0-99; each roll below 36 comes up 1 in 65536 more often
+        euint16 roll = FHE.rem(FHE.randEuint16(), ROLL_RANGE);
+        tier = FHE.asEuint8(0);
+        for (uint256 i = 0; i < tierRollBounds.length; i++) {
+            tier = FHE.add(tier, FHE.asEuint8(FHE.lt(roll, tierRollBounds[i])));
+        }
+    }
+
+    // Adds a submission's draws to the player's and the batch's encrypted counts. Under a cap, a
+    // submission that would take the player past it adds none; nobody, the player included, learns
+    // from the transaction which of the two happened.
+    function _addDraws(uint256 batchId, uint32 drawCap, uint32 requested) internal returns (ebool counted) {
+        euint32 batchDrawCount = encryptedDrawCount[batchId];
+        euint32 playerDrawCount = encryptedPlayerDrawCounts[batchId][msg.sender];
+        if (!FHE.isInitialized(batchDrawCount)) {
+            batchDrawCount = FHE.asEuint32(0);
+        }
+        if (!FHE.isInitialized(playerDrawCount)) {
+            playerDrawCount = FHE.asEuint32(0);
+        }
+
+        euint32 drawCount = FHE.asEuint32(requested);
+        counted = drawCap == 0
+            ? FHE.asEbool(true)
+            : FHE.le(drawCount, FHE.sub(FHE.asEuint32(drawCap), playerDrawCount));
+        drawCount = FHE.select(counted, drawCount, FHE.asEuint32(0));
+
+        euint32 newPlayerDrawCount = FHE.add(playerDrawCount, drawCount);
+        FHE.allowThis(newPlayerDrawCount);
+        FHE.allow(newPlayerDrawCount, msg.sender);
+        encryptedPlayerDrawCounts[batchId][msg.sender] = newPlayerDrawCount;
+
+        euint32 newBatchDrawCount = FHE.add(batchDrawCount, drawCount);
+        FHE.allowThis(newBatchDrawCount);
+        encryptedDrawCount[batchId] = newBatchDrawCount;
+    }
+
+    // Lifts the tier to pityTier once the player is due, then updates their counter, without
+    // revealing to anyone else how close they are. A pull whose submission did not count lands in
+    // tier 0 and leaves the counter as it was.
+    function _applyPity(euint8 rolled, ebool counted) internal returns (euint8 tier) {
+        euint32 counter = encryptedPityCounters[msg.sender];
+        if (!FHE.isInitialized(counter)) {
+            counter = FHE.asEuint32(0);
+        }
+
+        euint8 guaranteed = FHE.asEuint8(pityTier);
+        ebool due = FHE.ge(counter, pityThreshold);
+        tier = FHE.select(counted, FHE.select(due, FHE.max(rolled, guaranteed), rolled), FHE.asEuint8(0));
+
+        euint32 newCounter = FHE.select(
+            counted,
+            FHE.select(FHE.ge(tier, guaranteed), FHE.asEuint32(0), FHE.add(counter, 1)),
+            counter
+        );
+        FHE.allowThis(newCounter);
+        FHE.allow(newCounter, msg.sender);
+        encryptedPityCounters[msg.sender] = newCounter;
+    }
+
+    // Credits a revealed pull its tier's share of the batch pool, split evenly among the batch's pulls at
+    // that tier, so the credits never add up to more than the pool. Nothing is left to credit once the
+    // remainder has rolled over.
+    function _accrueWinnings(uint256 pullId, uint8 rarity) internal {
+        uint256 batchId = pullBatch[pullId];
+        uint32 winners = batchTierWinners[batchId][rarity];
+        if (winners == 0) return;
+        BatchResult storage result = batchResults[batchId];
+        uint256 amount = (result.prizePool * tierPayoutBps[rarity]) / BPS / winners;
+        uint256 remaining = result.prizePool - result.accrued - result.rolledOver;
+        if (amount > remaining) amount = remaining;
+        if (amount == 0) return;
+
+        address player = pullPlayer[pullId];
+        result.accrued += amount;
+        claimableWinnings[player] += amount;
+        emit WinningsAccrued(pullId, player, amount);
+    }
+
+    // Brings every invested wei back before switching, so funds never stay behind in a retired strategy
+    function _setStrategy(IPrizeStrategy _strategy) internal {
+        if (address(strategy) != address(0)) {
+            uint256 invested = strategy.totalAssets();
+            if (invested > 0) _divest(invested);
+        }
+        strategy = _strategy;
+        emit StrategySet(address(_strategy));
+    }
+
+    // Removes a pending change from the queue and returns it
+    function _takeChange(uint256 _changeId) internal returns (PendingChange memory change) {
+        uint256 count = pendingChanges.length;
+        for (uint256 i = 0; i < count; i++) {
+            if (pendingChanges[i].id == _changeId) {
+                change = pendingChanges[i];
+                pendingChanges[i] = pendingChanges[count - 1];
+                pendingChanges.pop();
+                return change;
+            }
+        }
+        revert InvalidParameter();
+    }
+
+    function _checkRole(Role _role) internal view {
+        if (!hasRole[_role][msg.sender]) revert MissingRole(_role);
+    }
+
+    // Treasurers look after the prize strategy; admins queue every other change
+    function _changeRole(Param _param) internal pure returns (Role) {
+        return _param == Param.Strategy ? Role.Treasurer : Role.Admin;
+    }
+
+    function _grantRole(Role _role, address _account) internal {
+        if (hasRole[_role][_account]) return;
+        hasRole[_role][_account] = true;
+        emit RoleGranted(_role, _account, msg.sender);
+    }
+
+    function _revokeRole(Role _role, address _account) internal {
+        if (!hasRole[_role][_account]) return;
+        delete hasRole[_role][_account];
+        emit RoleRevoked(_role, _account, msg.sender);
+    }
+
+    // Pays from the ether held here, topping up from the strategy when it falls short
+    function _sendEther(address to, uint256 amount) internal {
+        uint256 balance = address(this).balance;
+        if (balance < amount) {
+            if (address(strategy) == address(0)) revert TransferFailed();
+            _divest(amount - balance);
+        }
+        (bool sent, ) = payable(to).call{ value: amount }("");
+        if (!sent) revert TransferFailed();
+    }
+
+    function _divest(uint256 amount) internal {
+        strategy.withdraw(amount);
+        emit FundsDivested(amount);
+    }
+
+    // A pull's outcome may only be published once its batch stops taking pulls
+    function _requireBatchClosed(uint256 batchId) internal view {
+        Banner storage banner = banners[batchBanner[batchId]];
+        if (banner.batchOpen && banner.currentBatchId == batchId) revert BatchNotClosed();
+    }
+
+    function _isStale(BatchSettlement storage settlement) internal view returns (bool) {
+        return block.timestamp >= settlement.requestedAt + decryptionDeadlineSeconds;
+    }
+
+    // The batch's prize pool, draw count and winners at each paying tier, in the order they are decrypted
+    function _batchCiphertexts(uint256 batchId) internal view returns (bytes32[] memory cts) {
+        euint128 totalPrizePool = encryptedTotalPrizePool[batchId];
+        euint32 totalDraws = encryptedDrawCount[batchId];
+        _requireInitialized(totalPrizePool);
+        _requireInitialized(totalDraws);
+
+        cts = new bytes32[](2 + tierCount - rewardTier);
+        cts[0] = FHE.toBytes32(totalPrizePool);
+        cts[1] = FHE.toBytes32(totalDraws);
+        for (uint8 tier = rewardTier; tier < tierCount; tier++) {
+            cts[2 + tier - rewardTier] = FHE.toBytes32(encryptedTierWinners[batchId][tier]);
+        }
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
-    function _initIfNeeded(euint32 storage s, uint32 val) internal {
-        if (!FHE.isInitialized(s)) {
-            s = FHE.asEuint32(val);
+    function _requireInitialized(euint32 e) internal pure {
+        if (!FHE.isInitialized(e)) {
+            revert NotInitialized();
         }
     }
 
-    function _requireInitialized(euint32 memory e) internal pure {
+    function _requireInitialized(euint128 e) internal pure {
         if (!FHE.isInitialized(e)) {
             revert NotInitialized();
         }
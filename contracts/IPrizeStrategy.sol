@@ -0,0 +1,16 @@
+pragma solidity ^0.8.24;
+
+// Where GachaFiFHE parks prize pool ether it does not need on hand. A strategy serves a single game,
+// and only that game may move funds in or out.
+interface IPrizeStrategy {
+    function game() external view returns (address);
+
+    // Ether the game could withdraw right now, yield included
+    function totalAssets() external view returns (uint256);
+
+    // Invests msg.value
+    function deposit() external payable;
+
+    // Sends `amount` wei back to the game
+    function withdraw(uint256 amount) external;
+}
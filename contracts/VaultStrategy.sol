@@ -0,0 +1,59 @@
+pragma solidity ^0.8.24;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IERC4626 } from "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import { IPrizeStrategy } from "./IPrizeStrategy.sol";
+
+interface IWETH is IERC20 {
+    function deposit() external payable;
+    function withdraw(uint256 amount) external;
+}
+
+// Prize strategy over an ERC-4626 vault of wrapped ether. The strategy holds the vault shares, so
+// the game only ever deals in ether.
+contract VaultStrategy is IPrizeStrategy {
+    error NotGame();
+    error InvalidParameter();
+    error TransferFailed();
+
+    address public immutable game;
+    IERC4626 public immutable vault;
+    IWETH public immutable weth; // the vault's asset
+
+    modifier onlyGame() {
+        if (msg.sender != game) revert NotGame();
+        _;
+    }
+
+    constructor(address _game, IERC4626 _vault) {
+        if (_game == address(0) || address(_vault) == address(0)) revert InvalidParameter();
+        game = _game;
+        vault = _vault;
+        weth = IWETH(_vault.asset());
+    }
+
+    function totalAssets() external view returns (uint256) {
+        return vault.previewRedeem(vault.balanceOf(address(this)));
+    }
+
+    function deposit() external payable onlyGame {
+        if (msg.value == 0) revert InvalidParameter();
+        weth.deposit{ value: msg.value }();
+        SafeERC20.forceApprove(weth, address(vault), msg.value);
+        vault.deposit(msg.value, address(this));
+    }
+
+    function withdraw(uint256 amount) external onlyGame {
+        if (amount == 0) revert InvalidParameter();
+        vault.withdraw(amount, address(this), address(this));
+        weth.withdraw(amount);
+        (bool sent, ) = payable(game).call{ value: amount }("");
+        if (!sent) revert TransferFailed();
+    }
+
+    // Unwrapped ether passes through here on its way back to the game
+    receive() external payable {
+        if (msg.sender != address(weth)) revert InvalidParameter();
+    }
+}
@@ -0,0 +1,19 @@
+pragma solidity ^0.8.24;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ERC4626 } from "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+// ERC-4626 vault for local networks. Yield is simulated by donating assets, which raises the value
+// of every outstanding share.
+contract MockPrizeVault is ERC4626 {
+    event YieldAccrued(uint256 amount);
+
+    constructor(IERC20 _asset) ERC20("GachaFi Prize Vault", "gvWETH") ERC4626(_asset) {}
+
+    function accrueYield(uint256 amount) external {
+        SafeERC20.safeTransferFrom(IERC20(asset()), msg.sender, address(this), amount);
+        emit YieldAccrued(amount);
+    }
+}
@@ -0,0 +1,24 @@
+pragma solidity ^0.8.24;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// Wrapped ether for local networks, with WETH9's deposit and withdraw
+contract MockWETH is ERC20 {
+    error TransferFailed();
+
+    constructor() ERC20("Wrapped Ether", "WETH") {}
+
+    function deposit() public payable {
+        _mint(msg.sender, msg.value);
+    }
+
+    function withdraw(uint256 amount) external {
+        _burn(msg.sender, amount);
+        (bool sent, ) = payable(msg.sender).call{ value: amount }("");
+        if (!sent) revert TransferFailed();
+    }
+
+    receive() external payable {
+        deposit();
+    }
+}
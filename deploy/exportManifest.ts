@@ -0,0 +1,52 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type {
+  ChainDeployment,
+  DeploymentManifest,
+} from "../frontend/web/src/deployments";
+
+const MANIFEST_PATH = path.join(
+  __dirname,
+  "../frontend/web/src/deployments.json",
+);
+
+// Records this network's deployments in the frontend manifest under its chainId,
+// leaving the entries of other chains untouched.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // The in-process network is discarded after the run; keep its addresses out
+  // of the manifest so they cannot shadow a localhost node on the same chainId
+  if (hre.network.name === "hardhat") return;
+
+  const chainId = Number(await hre.getChainId());
+  const deployments = await hre.deployments.all();
+
+  const entry: ChainDeployment = {
+    chainId,
+    network: hre.network.name,
+    contracts: {},
+  };
+  for (const name of Object.keys(deployments).sort()) {
+    const deployment = deployments[name];
+    entry.contracts[name] = {
+      address: deployment.address,
+      abi: deployment.abi,
+      deploymentBlock: deployment.receipt?.blockNumber ?? 0,
+      transactionHash: deployment.transactionHash,
+    };
+  }
+
+  const manifest: DeploymentManifest = fs.existsSync(MANIFEST_PATH)
+    ? JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf8"))
+    : {};
+  manifest[chainId] = entry;
+  fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2) + "\n");
+
+  console.log(
+    `Wrote ${Object.keys(entry.contracts).length} deployment(s) for chain ${chainId} to ${path.relative(process.cwd(), MANIFEST_PATH)}`,
+  );
+};
+export default func;
+func.tags = ["manifest"];
+func.runAtTheEnd = true;
@@ -0,0 +1,33 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Deploys the reward token for the current GachaFiFHE and points the game at it.
+// A redeployed game gets a fresh reward contract, since only its game may mint.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, read } = hre.deployments;
+
+  const gacha = await get("GachaFiFHE");
+  const deployedRewards = await deploy("GachaRewards", {
+    from: deployer,
+    args: [gacha.address],
+    log: true,
+  });
+
+  console.log(
+    `GachaRewards contract on ${hre.network.name}: `,
+    deployedRewards.address,
+  );
+
+  if ((await read("GachaFiFHE", "rewards")) !== deployedRewards.address) {
+    await execute(
+      "GachaFiFHE",
+      { from: deployer, log: true },
+      "setRewards",
+      deployedRewards.address,
+    );
+  }
+};
+export default func;
+func.tags = ["GachaRewards"];
+func.dependencies = ["GachaFiFHE"];
@@ -0,0 +1,106 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { PARAM } from "../frontend/web/src/timelock";
+
+// Deployment name the app reads the vault's share price from (see frontend/web/src/prizePool.ts)
+const PRIZE_VAULT = "PrizeVault";
+
+// Parks the prize pool in an ERC-4626 vault through a VaultStrategy. Local
+// networks get a mock wrapped ether and vault; live networks use the vault in
+// PRIZE_VAULT_ADDRESS, and keep the pool in GachaFiFHE while it is unset.
+// Switching strategies is queued behind the timelock; live networks execute
+// the change later with gacha:execute-change.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, getOrNull, read, save } = hre.deployments;
+
+  let vaultAddress: string;
+  if (!hre.network.live) {
+    const weth = await deploy("MockWETH", { from: deployer, log: true });
+    const vault = await deploy(PRIZE_VAULT, {
+      contract: "MockPrizeVault",
+      from: deployer,
+      args: [weth.address],
+      log: true,
+    });
+    vaultAddress = vault.address;
+  } else {
+    const configured = process.env.PRIZE_VAULT_ADDRESS;
+    if (!configured) {
+      console.log(
+        `PRIZE_VAULT_ADDRESS is not set; the prize pool on ${hre.network.name} stays in GachaFiFHE`,
+      );
+      return;
+    }
+    vaultAddress = hre.ethers.getAddress(configured);
+    if ((await getOrNull(PRIZE_VAULT))?.address !== vaultAddress) {
+      const { abi } = await hre.artifacts.readArtifact("IERC4626");
+      await save(PRIZE_VAULT, { address: vaultAddress, abi });
+    }
+  }
+
+  const gacha = await get("GachaFiFHE");
+  const deployedStrategy = await deploy("VaultStrategy", {
+    from: deployer,
+    args: [gacha.address, vaultAddress],
+    log: true,
+  });
+
+  console.log(
+    `VaultStrategy contract on ${hre.network.name}: `,
+    deployedStrategy.address,
+  );
+
+  if ((await read("GachaFiFHE", "strategy")) === deployedStrategy.address) {
+    return;
+  }
+
+  // The strategy takes custody of the prize pool, so it only changes through the timelock
+  const gachaContract = await hre.ethers.getContractAt(
+    "GachaFiFHE",
+    gacha.address,
+  );
+  const findChange = async () =>
+    (await gachaContract.getPendingChanges()).find(
+      (change) =>
+        Number(change.param) === PARAM.Strategy &&
+        change.value === BigInt(deployedStrategy.address),
+    );
+  let change = await findChange();
+  if (!change) {
+    await execute(
+      "GachaFiFHE",
+      { from: deployer, log: true },
+      "queueChange",
+      PARAM.Strategy,
+      0,
+      BigInt(deployedStrategy.address),
+    );
+    change = (await findChange())!;
+  }
+
+  const executableAt = Number(change.executableAt);
+  if (hre.network.live) {
+    console.log(
+      `Strategy change #${change.id} is queued; run gacha:execute-change --change ${change.id} from ${new Date(
+        executableAt * 1000,
+      ).toISOString()}`,
+    );
+    return;
+  }
+  // Local chains skip the wait, so a fresh deployment starts out with its strategy
+  const { timestamp } = (await hre.ethers.provider.getBlock("latest"))!;
+  if (timestamp < executableAt) {
+    await time.increaseTo(executableAt);
+  }
+  await execute(
+    "GachaFiFHE",
+    { from: deployer, log: true },
+    "executeChange",
+    change.id,
+  );
+};
+export default func;
+func.tags = ["PrizeStrategy"];
+func.dependencies = ["GachaFiFHE"];
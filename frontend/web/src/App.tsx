@@ -2,13 +2,28 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
-import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { formatEther, ZeroHash } from "ethers";
+import { DEFAULT_CHAIN_ID } from "./contract";
+import { BannerStatus, getGachaAddress, getGachaReadOnly, getGachaWithSigner, isPullClaimable, isPullRefundable, isPullRevealable, readBannerStatus, readPendingChanges } from "./gachaContract";
+import { loadPullHistory, PullRecord } from "./pullHistory";
+import { fetchIndexedLeaderboard, fetchIndexedPulls, isIndexerAvailable } from "./indexerApi";
+import { buildLeaderboard, Leaderboard, LEADERBOARD_SORTS, LEADERBOARD_WINDOWS, LeaderboardSort, LeaderboardWindow, PullOutcome } from "./leaderboard";
+import { getRarityTier, isWinningTier, RARITY_TIERS } from "./rarity";
+import { ECONOMY, getBanner } from "./economy";
+import { hasRelayer, userDecryptHandle } from "./fhevm";
+import { subscribePrizePool } from "./prizePool";
+import { loadRewardInventory, RewardToken } from "./rewards";
+import PastBatches from "./components/PastBatches";
+import AdminAudit from "./components/AdminAudit";
+import ScheduledChanges from "./components/ScheduledChanges";
+import type { PendingChange } from "./timelock";
+import { DecryptionSession, getOrCreateSession, loadSession, revokeSession, sessionExpiresAt } from "./decryptionSessions";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount, useSignTypedData } from 'wagmi';
 
 interface GachaRecord {
   id: string;
+  bannerId: number;
   encryptedRarity: string;
   timestamp: number;
   player: string;
@@ -16,22 +31,27 @@ interface GachaRecord {
   status: "pending" | "won" | "lost";
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
+const LEADERBOARD_SIZE = 5;
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
+// Shown in place of decrypt buttons on chains without a relayer, such as a local Hardhat node
+const NO_RELAYER_NOTE = "Decrypting needs an FHEVM relayer, which this network does not have";
+
+const LEADERBOARD_WINDOW_LABELS: Record<LeaderboardWindow, string> = { batch: "This batch", week: "7 days", all: "All time" };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+// Outcomes stay encrypted on-chain, so a pull is pending until the player reveals its rarity
+const toGachaRecord = (pull: PullRecord): GachaRecord => ({
+  id: String(pull.pullId),
+  bannerId: pull.bannerId,
+  encryptedRarity: pull.rarityHandle,
+  timestamp: pull.timestamp,
+  player: pull.player,
+  prizeValue: pull.winnings ?? 0,
+  status: pull.rarity === null ? "pending" : isWinningTier(pull.rarity) ? "won" : "lost",
+});
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<GachaRecord[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -40,121 +60,200 @@ const App: React.FC = () => {
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
   const [decryptedRarity, setDecryptedRarity] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
   const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
+  const [durationDays] = useState<number>(30);
+  const [decryptionSession, setDecryptionSession] = useState<DecryptionSession | null>(null);
   const [prizePool, setPrizePool] = useState<number>(0);
-  const [apy, setApy] = useState<number>(8.5);
+  const [apy, setApy] = useState<number | null>(null);
+  const [bannerId, setBannerId] = useState<number>(0);
+  // Indexed by banner id, empty until read from the contract
+  const [bannerStatuses, setBannerStatuses] = useState<BannerStatus[]>([]);
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
   const [selectedRecord, setSelectedRecord] = useState<GachaRecord | null>(null);
 
-  // Rarity tiers
-  const rarityTiers = [
-    { name: "Common", chance: 60, color: "#6b7280" },
-    { name: "Uncommon", chance: 25, color: "#3b82f6" },
-    { name: "Rare", chance: 10, color: "#8b5cf6" },
-    { name: "Epic", chance: 4, color: "#ec4899" },
-    { name: "Legendary", chance: 1, color: "#f59e0b" }
-  ];
+  const canDecrypt = hasRelayer(chainId ?? DEFAULT_CHAIN_ID);
 
-  // Sample leaderboard data
-  const [leaderboard, setLeaderboard] = useState<{player: string, wins: number, totalValue: number}[]>([]);
+  // Commonest first for the tier legend
+  const rarityTiers = [...RARITY_TIERS].reverse();
+
+  const [pullOutcomes, setPullOutcomes] = useState<PullOutcome[]>([]);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [leaderboardSort, setLeaderboardSort] = useState<LeaderboardSort>("wins");
+  const [leaderboardWindow, setLeaderboardWindow] = useState<LeaderboardWindow>("all");
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [inventory, setInventory] = useState<RewardToken[]>([]);
+  const [view, setView] = useState<"game" | "batches" | "admin">("game");
+  const [canRefundSelected, setCanRefundSelected] = useState(false);
+  const [canRevealSelected, setCanRevealSelected] = useState(false);
+  const [canClaimSelected, setCanClaimSelected] = useState(false);
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [winnings, setWinnings] = useState<{ claimable: bigint; claimed: bigint } | null>(null);
+  const [isClaimingWinnings, setIsClaimingWinnings] = useState(false);
+  // Token id -> tier, for tokens decrypted during this visit
+  const [tokenRarities, setTokenRarities] = useState<Record<number, number>>({});
+  const [pityCount, setPityCount] = useState<number | null>(null);
+  // Draws the player has left in a capped batch, known once they decrypt their count
+  const [drawAllowance, setDrawAllowance] = useState<{ batchId: number; remaining: number } | null>(null);
+  const pityTier = getRarityTier(ECONOMY.pity.tierId);
 
   useEffect(() => {
-    loadRecords().finally(() => setLoading(false));
-    updatePrizePool();
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
+    setPrizePool(0);
+    setApy(null);
+
+    // Pool balance and vault yield are re-read on-chain as each block arrives
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+    subscribePrizePool(chainId ?? DEFAULT_CHAIN_ID, snapshot => {
+      setPrizePool(snapshot.balance);
+      setApy(snapshot.apy);
+    })
+      .then(stop => cancelled ? stop() : (unsubscribe = stop))
+      .catch(e => console.error("Error subscribing to prize pool:", e));
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
     };
-    initSignatureParams();
+  }, [chainId]);
+
+  useEffect(() => {
+    // Rarity handles are ACL-bound to the game contract, so sessions are scoped to the connected chain's deployment
+    setContractAddress(getGachaAddress(chainId) ?? "");
+    loadRecords().finally(() => setLoading(false));
+    loadBannerStatuses();
+  }, [chainId]);
+
+  useEffect(() => {
+    // Pick up a still-valid session from a previous visit for this wallet, contract and chain
+    if (address && contractAddress && chainId) {
+      setDecryptionSession(loadSession(address, contractAddress, chainId));
+    } else {
+      setDecryptionSession(null);
+    }
+  }, [address, contractAddress, chainId]);
+
+  useEffect(() => {
+    // Progress belongs to one player on one deployment
+    setPityCount(null);
+    setDrawAllowance(null);
+  }, [address, contractAddress]);
+
+  useEffect(() => {
+    setTokenRarities({});
+    loadInventory();
+    loadWinnings();
+  }, [address, chainId]);
+
+  useEffect(() => {
     updateLeaderboard();
-    
-    // Simulate prize pool growth from DeFi
-    const prizePoolInterval = setInterval(updatePrizePool, 5000);
-    return () => clearInterval(prizePoolInterval);
-  }, []);
-
-  const updatePrizePool = () => {
-    // Simulate DeFi growth with some randomness
-    const baseValue = 1000 + Math.random() * 500;
-    const growthFactor = 1 + (apy / 100) * (5 / 365); // 5 seconds of growth
-    setPrizePool(prev => prev > 0 ? prev * growthFactor : baseValue);
+  }, [pullOutcomes, leaderboardSort, leaderboardWindow, address]);
+
+  const updateLeaderboard = async () => {
+    const options = { sortBy: leaderboardSort, window: leaderboardWindow, limit: LEADERBOARD_SIZE, player: address };
+    try {
+      if (await isIndexerAvailable(chainId ?? DEFAULT_CHAIN_ID)) {
+        setLeaderboard(await fetchIndexedLeaderboard(options));
+        return;
+      }
+      // Without an indexer, rank the pulls already loaded from logs
+      setLeaderboard(buildLeaderboard(pullOutcomes, { ...options, now: Math.floor(Date.now() / 1000) }));
+    } catch (e) {
+      console.error("Error loading leaderboard:", e);
+    }
   };
 
-  const updateLeaderboard = () => {
-    // Generate mock leaderboard data
-    const mockData = [
-      { player: "0x7f3...4d21", wins: 12, totalValue: 2450 },
-      { player: "0x5a2...9e3f", wins: 8, totalValue: 1800 },
-      { player: "0x3b8...7c1d", wins: 6, totalValue: 1350 },
-      { player: "0x1e9...5b2a", wins: 5, totalValue: 1100 },
-      { player: "0x4f7...8c3e", wins: 4, totalValue: 950 }
-    ];
-    if (address) {
-      // Add current user if not in top 5
-      const userWins = records.filter(r => r.player === address && r.status === "won").length;
-      const userValue = records.filter(r => r.player === address && r.status === "won")
-        .reduce((sum, r) => sum + r.prizeValue, 0);
-      if (userWins > 0) {
-        mockData.push({ player: `${address.substring(0,4)}...${address.substring(38)}`, wins: userWins, totalValue: userValue });
+  const loadBannerStatuses = async () => {
+    try {
+      const gacha = await getGachaReadOnly(chainId ?? DEFAULT_CHAIN_ID);
+      setBannerStatuses(gacha ? await Promise.all(ECONOMY.banners.map(banner => readBannerStatus(gacha, banner.id))) : []);
+      setPendingChanges(gacha ? await readPendingChanges(gacha) : []);
+    } catch (e) {
+      console.error("Error loading banners:", e);
+      setBannerStatuses([]);
+      setPendingChanges([]);
+    }
+  };
+
+  const loadInventory = async () => {
+    if (!address) {
+      setInventory([]);
+      return;
+    }
+    try {
+      setInventory(await loadRewardInventory(address, chainId ?? DEFAULT_CHAIN_ID));
+    } catch (e) {
+      console.error("Error loading reward tokens:", e);
+    }
+  };
+
+  // Only the player's own pulls offer a reveal, once their batch settled, a reward claim, once per pull
+  // while rewards are set, or a refund, if the batch never settles
+  useEffect(() => {
+    setCanRefundSelected(false);
+    setCanRevealSelected(false);
+    setCanClaimSelected(false);
+    if (!selectedRecord || selectedRecord.player.toLowerCase() !== address?.toLowerCase()) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const gacha = await getGachaReadOnly(chainId ?? DEFAULT_CHAIN_ID);
+        if (!gacha) return;
+        const pullId = Number(selectedRecord.id);
+        const [refundable, revealable, claimable] = await Promise.all([
+          isPullRefundable(gacha, pullId),
+          isPullRevealable(gacha, pullId),
+          isPullClaimable(gacha, pullId),
+        ]);
+        if (cancelled) return;
+        setCanRefundSelected(refundable);
+        setCanRevealSelected(revealable);
+        setCanClaimSelected(claimable);
+      } catch (e) {
+        console.error("Error checking pull status:", e);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [selectedRecord, address, chainId]);
+
+  const loadWinnings = async () => {
+    if (!address) {
+      setWinnings(null);
+      return;
+    }
+    try {
+      const gacha = await getGachaReadOnly(chainId ?? DEFAULT_CHAIN_ID);
+      if (!gacha) {
+        setWinnings(null);
+        return;
       }
+      const [claimable, claimed] = await Promise.all([gacha.claimableWinnings(address), gacha.claimedWinnings(address)]);
+      setWinnings({ claimable, claimed });
+    } catch (e) {
+      console.error("Error loading winnings:", e);
     }
-    setLeaderboard(mockData.sort((a,b) => b.totalValue - a.totalValue).slice(0,5));
   };
 
   const loadRecords = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      
-      // Load record keys
-      const keysBytes = await contract.getData("gacha_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing gacha keys:", e); }
+      const readChainId = chainId ?? DEFAULT_CHAIN_ID;
+      if (await isIndexerAvailable(readChainId)) {
+        setRecords((await fetchIndexedPulls()).map(toGachaRecord));
+        setPullOutcomes([]);
+        return;
       }
       
-      // Load each record
-      const list: GachaRecord[] = [];
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`gacha_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({ 
-                id: key, 
-                encryptedRarity: recordData.rarity, 
-                timestamp: recordData.timestamp, 
-                player: recordData.player, 
-                prizeValue: recordData.prizeValue || 0,
-                status: recordData.status || "pending" 
-              });
-            } catch (e) { console.error(`Error parsing record data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading record ${key}:`, e); }
+      const gacha = await getGachaReadOnly(readChainId);
+      if (!gacha) {
+        setRecords([]);
+        setPullOutcomes([]);
+        return;
       }
       
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setRecords(list);
-      updateLeaderboard();
+      // Older pages render while the rest of the log range is still being scanned
+      const pulls = await loadPullHistory(gacha, readChainId, page => setRecords(page.map(toGachaRecord)));
+      setRecords(pulls.map(toGachaRecord));
+      setPullOutcomes(pulls);
     } catch (e) { 
       console.error("Error loading records:", e); 
     } finally { 
@@ -166,63 +265,47 @@ const App: React.FC = () => {
   const playGacha = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setGachaSpinning(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Generating verifiably fair result with Zama FHE..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Submitting pull..." });
     
     try {
-      // Simulate rarity roll (0-100)
-      const rarityRoll = Math.floor(Math.random() * 100);
-      const encryptedRarity = FHEEncryptNumber(rarityRoll);
-      
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const gachaId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      let prizeValue = 0;
-      let status: "won" | "lost" = "lost";
-      
-      // Determine win/lose based on rarity (30% chance to win)
-      if (rarityRoll <= 30) {
-        status = "won";
-        // Prize value based on rarity tier
-        if (rarityRoll <= 1) prizeValue = prizePool * 0.1; // Legendary 10% of pool
-        else if (rarityRoll <= 5) prizeValue = prizePool * 0.05; // Epic 5%
-        else if (rarityRoll <= 15) prizeValue = prizePool * 0.02; // Rare 2%
-        else if (rarityRoll <= 35) prizeValue = prizePool * 0.01; // Uncommon 1%
-        else prizeValue = prizePool * 0.005; // Common 0.5%
-      }
-      
-      const gachaData = { 
-        rarity: encryptedRarity, 
-        timestamp: Math.floor(Date.now() / 1000), 
-        player: address, 
-        prizeValue,
-        status 
-      };
+      const gacha = await getGachaWithSigner();
+      // Read at submit time, since a new batch may have opened at a different price
+      const { pullPrice } = await readBannerStatus(gacha, bannerId);
       
-      await contract.setData(`gacha_${gachaId}`, ethers.toUtf8Bytes(JSON.stringify(gachaData)));
+      // The contract rolls the rarity with the banner's odds and FHE randomness, so the browser never chooses or sees it
+      const tx = await gacha.submitGachaDraw(bannerId, 1, { value: pullPrice });
+      setTransactionStatus({ visible: true, status: "pending", message: "Rolling an encrypted rarity on-chain with Zama FHE..." });
+      const receipt = await tx.wait();
       
-      // Update keys list
-      const keysBytes = await contract.getData("gacha_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(gachaId);
-      await contract.setData("gacha_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      const submitted = receipt?.logs
+        .map(log => gacha.interface.parseLog(log))
+        .find(event => event?.name === "GachaSubmitted");
+      if (!submitted) throw new Error("Pull receipt has no GachaSubmitted event");
       
       setTransactionStatus({ 
         visible: true, 
         status: "success", 
-        message: status === "won" 
-          ? `🎉 You won ${prizeValue.toFixed(4)} ETH!` 
-          : "Better luck next time!" 
+        message: `Pull #${submitted.args.pullId} is in! Decrypt it to see your tier.` 
       });
       
-      await loadRecords();
+      await Promise.all([loadRecords(), loadBannerStatuses()]);
+      // The counters moved with this pull; they are decrypted again on request
+      setPityCount(null);
+      setDrawAllowance(null);
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowGachaModal(false);
+        // Open the new pull, where only its player can decrypt the tier
+        setDecryptedRarity(null);
+        setSelectedRecord({
+          id: String(submitted.args.pullId),
+          bannerId,
+          encryptedRarity: submitted.args.rarityHandle,
+          timestamp: Math.floor(Date.now() / 1000),
+          player: submitted.args.player,
+          prizeValue: 0,
+          status: "pending",
+        });
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction") 
@@ -236,13 +319,16 @@ const App: React.FC = () => {
   };
 
   const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
-    if (!isConnected) { alert("Please connect wallet first"); return null; }
+    if (!isConnected || !address || !chainId) { alert("Please connect wallet first"); return null; }
+    if (!contractAddress) { alert("Contract is not available yet"); return null; }
+    if (!hasRelayer(chainId)) { alert(NO_RELAYER_NOTE); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      // The wallet is only asked to sign when no unexpired session exists
+      const session = await getOrCreateSession(address, contractAddress, chainId, durationDays, signTypedDataAsync);
+      setDecryptionSession(session);
+      const value = await userDecryptHandle(encryptedData, session);
+      return Number(value);
     } catch (e) { 
       console.error("Decryption failed:", e); 
       return null; 
@@ -251,20 +337,152 @@ const App: React.FC = () => {
     }
   };
 
-  const getRarityTier = (rarity: number) => {
-    if (rarity <= 1) return rarityTiers[4]; // Legendary
-    if (rarity <= 5) return rarityTiers[3]; // Epic
-    if (rarity <= 15) return rarityTiers[2]; // Rare
-    if (rarity <= 35) return rarityTiers[1]; // Uncommon
-    return rarityTiers[0]; // Common
+  const loadPityProgress = async () => {
+    if (!address) return;
+    try {
+      const gacha = await getGachaReadOnly(chainId ?? DEFAULT_CHAIN_ID);
+      if (!gacha) return;
+      const handle = await gacha.encryptedPityCounters(address);
+      // No handle yet means the player has never pulled
+      const count = handle === ZeroHash ? 0 : await decryptWithSignature(handle);
+      if (count !== null) setPityCount(count);
+    } catch (e) {
+      console.error("Error loading pity progress:", e);
+    }
+  };
+
+  const loadDrawAllowance = async () => {
+    const status = bannerStatuses[bannerId];
+    if (!address || !status?.batchOpen || status.drawCap === 0) return;
+    try {
+      const gacha = await getGachaReadOnly(chainId ?? DEFAULT_CHAIN_ID);
+      if (!gacha) return;
+      const handle = await gacha.encryptedPlayerDrawCounts(status.batchId, address);
+      // No handle yet means the player has not pulled in this batch
+      const drawn = handle === ZeroHash ? 0 : await decryptWithSignature(handle);
+      if (drawn !== null) setDrawAllowance({ batchId: status.batchId, remaining: status.drawCap - drawn });
+    } catch (e) {
+      console.error("Error loading draw allowance:", e);
+    }
+  };
+
+  const revokeDecryptionSession = () => {
+    if (!decryptionSession) return;
+    revokeSession(decryptionSession.userAddress, decryptionSession.contractAddress, decryptionSession.chainId);
+    setDecryptionSession(null);
+  };
+
+  const revealPull = async (record: GachaRecord) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsRevealing(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting public reveal..." });
+    try {
+      const gacha = await getGachaWithSigner();
+      const tx = await gacha.revealPull(record.id);
+      await tx.wait();
+      // The oracle answers in a later block, so the outcome shows up on a following refresh
+      setTransactionStatus({ visible: true, status: "success", message: "Reveal requested, the result appears once the oracle responds" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Reveal failed: " + (e.shortMessage || e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  const claimWinnings = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsClaimingWinnings(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Claiming winnings..." });
+    try {
+      const gacha = await getGachaWithSigner();
+      const tx = await gacha.claim();
+      setTransactionStatus({ visible: true, status: "pending", message: `Waiting for claim ${tx.hash.substring(0, 10)}... to confirm` });
+      const receipt = await tx.wait();
+      const claimed = receipt?.logs
+        .map(log => gacha.interface.parseLog(log))
+        .find(event => event?.name === "WinningsClaimed");
+      setTransactionStatus({ visible: true, status: "success", message: `Claimed ${claimed ? formatEther(claimed.args.amount) : "your"} ETH` });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      await loadWinnings();
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Claim failed: " + (e.shortMessage || e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setIsClaimingWinnings(false);
+    }
   };
 
-  const renderRarityVisualization = (rarity: number) => {
+  const claimReward = async (record: GachaRecord) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsClaiming(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting reward claim..." });
+    try {
+      const gacha = await getGachaWithSigner();
+      const tx = await gacha.claimReward(record.id);
+      await tx.wait();
+      // Only whether the pull won is decrypted; the oracle mints the token in a later block
+      setTransactionStatus({ visible: true, status: "success", message: "Claim requested, a winning pull's token appears under Your Rewards once the oracle responds" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Claim failed: " + (e.shortMessage || e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const refundPull = async (record: GachaRecord) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsRefunding(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Refunding pull payment..." });
+    try {
+      const gacha = await getGachaWithSigner();
+      const tx = await gacha.refundPull(record.id);
+      await tx.wait();
+      setCanRefundSelected(false);
+      setTransactionStatus({ visible: true, status: "success", message: "Pull payment refunded" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Refund failed: " + (e.shortMessage || e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  // Tokens carry the pull's rarity handle, which the game contract can also access, so the
+  // game-scoped decryption session covers them
+  const decryptTokenRarity = async (token: RewardToken) => {
+    const rarity = await decryptWithSignature(token.rarityHandle);
+    if (rarity !== null) setTokenRarities(current => ({ ...current, [token.tokenId]: rarity }));
+  };
+
+  const renderLeaderboardEntry = (entry: Leaderboard["entries"][number]) => (
+    <div className={`leaderboard-item ${entry.player.toLowerCase() === address?.toLowerCase() ? "you" : ""}`} key={entry.player}>
+      <div className="rank">#{entry.rank}</div>
+      <div className="player-info">
+        <div className="player-address">
+          {entry.player.substring(0, 6)}...{entry.player.substring(38)}
+          {entry.player.toLowerCase() === address?.toLowerCase() && " (you)"}
+        </div>
+        <div className="player-stats">
+          <span>{entry.wins} wins</span>
+          <span>{entry.totalValue.toFixed(2)} ETH</span>
+          <span>{entry.pulls} pulls</span>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderRarityVisualization = (rarity: number, pullBannerId: number) => {
     const tier = getRarityTier(rarity);
+    const banner = getBanner(pullBannerId);
     return (
       <div className="rarity-visualization" style={{ backgroundColor: tier.color }}>
         <div className="rarity-name">{tier.name}</div>
-        <div className="rarity-value">{rarity}/100</div>
+        <div className="rarity-value">{banner.odds[tier.id]}% of {banner.name} pulls</div>
       </div>
     );
   };
@@ -293,6 +511,12 @@ const App: React.FC = () => {
     </div>
   );
 
+  const selectedBanner = getBanner(bannerId);
+  const bannerStatus = bannerStatuses[bannerId] ?? null;
+  const priceLabel = bannerStatus === null ? "" : ` (${formatEther(bannerStatus.pullPrice)} ETH)`;
+  const isCapped = bannerStatus?.batchOpen === true && bannerStatus.drawCap > 0;
+  const remainingDraws = isCapped && drawAllowance?.batchId === bannerStatus.batchId ? drawAllowance.remaining : null;
+
   return (
     <div className="app-container anime-theme">
       <header className="app-header">
@@ -301,8 +525,14 @@ const App: React.FC = () => {
           <h1>Gacha<span>Fi</span></h1>
         </div>
         <div className="header-actions">
+          <button onClick={() => setView(view === "batches" ? "game" : "batches")} className="refresh-btn anime-button">
+            {view === "batches" ? "Back to Game" : "Past Batches"}
+          </button>
+          <button onClick={() => setView(view === "admin" ? "game" : "admin")} className="refresh-btn anime-button">
+            {view === "admin" ? "Back to Game" : "Admin Audit"}
+          </button>
           <button onClick={() => setShowGachaModal(true)} className="play-gacha-btn anime-button">
-            Play Gacha (0.01 ETH)
+            Play Gacha{priceLabel}
           </button>
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
@@ -310,6 +540,17 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      <ScheduledChanges changes={pendingChanges} />
+
+      {view === "batches" ? (
+      <div className="main-content">
+        <PastBatches chainId={chainId ?? DEFAULT_CHAIN_ID} />
+      </div>
+      ) : view === "admin" ? (
+      <div className="main-content">
+        <AdminAudit chainId={chainId ?? DEFAULT_CHAIN_ID} />
+      </div>
+      ) : (
       <div className="main-content">
         {/* Project Introduction */}
         <div className="intro-card anime-card">
@@ -334,7 +575,7 @@ const App: React.FC = () => {
                 <div className="stat-label">Current Pool</div>
               </div>
               <div className="stat-item">
-                <div className="stat-value">{apy}%</div>
+                <div className="stat-value">{apy === null ? "—" : `${apy.toFixed(2)}%`}</div>
                 <div className="stat-label">APY</div>
               </div>
               <div className="stat-item">
@@ -348,23 +589,72 @@ const App: React.FC = () => {
                 <div className="stat-label">Your Wins</div>
               </div>
             </div>
+            {isConnected && winnings && (
+              <div className="winnings-panel">
+                <div className="stats-grid">
+                  <div className="stat-item">
+                    <div className="stat-value">{Number(formatEther(winnings.claimable)).toFixed(4)} ETH</div>
+                    <div className="stat-label">Claimable</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-value">{Number(formatEther(winnings.claimed)).toFixed(4)} ETH</div>
+                    <div className="stat-label">Claimed</div>
+                  </div>
+                </div>
+                <button onClick={claimWinnings} disabled={isClaimingWinnings || winnings.claimable === 0n} className="decrypt-btn anime-button">
+                  {isClaimingWinnings ? "Claiming..." : "Claim Winnings"}
+                </button>
+                <div className="pity-label">Winnings are credited when you reveal a winning pull from a decrypted batch</div>
+              </div>
+            )}
+            {isConnected && (
+              <div className="pity-progress">
+                <div className="pity-label">
+                  {pityTier.name} or better guaranteed after {ECONOMY.pity.threshold} pulls without one
+                </div>
+                {pityCount !== null ? (
+                  <>
+                    <div className="pity-bar">
+                      <div className="pity-fill" style={{ width: `${Math.min(100, (pityCount / ECONOMY.pity.threshold) * 100)}%`, backgroundColor: pityTier.color }}></div>
+                    </div>
+                    <div className="pity-label">
+                      {pityCount >= ECONOMY.pity.threshold
+                        ? `Your next pull is guaranteed ${pityTier.name} or better`
+                        : `${pityCount}/${ECONOMY.pity.threshold} pulls`}
+                    </div>
+                  </>
+                ) : canDecrypt ? (
+                  <button onClick={loadPityProgress} disabled={isDecrypting} className="decrypt-btn anime-button">
+                    {isDecrypting ? "Decrypting..." : "Decrypt My Pity Progress"}
+                  </button>
+                ) : (
+                  <div className="pity-label">{NO_RELAYER_NOTE}</div>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="dashboard-card anime-card">
             <h3>Leaderboard</h3>
+            <div className="leaderboard-controls">
+              <select value={leaderboardWindow} onChange={e => setLeaderboardWindow(e.target.value as LeaderboardWindow)}>
+                {LEADERBOARD_WINDOWS.map(w => <option key={w} value={w}>{LEADERBOARD_WINDOW_LABELS[w]}</option>)}
+              </select>
+              <select value={leaderboardSort} onChange={e => setLeaderboardSort(e.target.value as LeaderboardSort)}>
+                {LEADERBOARD_SORTS.map(sort => <option key={sort} value={sort}>By {sort}</option>)}
+              </select>
+            </div>
             <div className="leaderboard-list">
-              {leaderboard.map((player, index) => (
-                <div className="leaderboard-item" key={index}>
-                  <div className="rank">#{index + 1}</div>
-                  <div className="player-info">
-                    <div className="player-address">{player.player}</div>
-                    <div className="player-stats">
-                      <span>{player.wins} wins</span>
-                      <span>{player.totalValue.toFixed(2)} ETH</span>
-                    </div>
-                  </div>
-                </div>
-              ))}
+              {leaderboard?.entries.map(entry => renderLeaderboardEntry(entry))}
+              {leaderboard?.entries.length === 0 && (
+                <div className="no-records">No pulls in this window yet</div>
+              )}
+              {leaderboard?.player && leaderboard.player.rank > leaderboard.entries.length && (
+                <>
+                  <div className="leaderboard-gap">⋯</div>
+                  {renderLeaderboardEntry(leaderboard.player)}
+                </>
+              )}
             </div>
           </div>
 
@@ -381,7 +671,7 @@ const App: React.FC = () => {
                   <div className="pull-status">
                     {record.status === "won" 
                       ? `Won ${record.prizeValue.toFixed(4)} ETH` 
-                      : "No win"}
+                      : record.status === "pending" ? "Pending reveal" : "No win"}
                   </div>
                 </div>
               ))}
@@ -392,6 +682,41 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {isConnected && (
+          <div className="records-section">
+            <div className="section-header">
+              <h2>Your Rewards</h2>
+              <button onClick={loadInventory} className="refresh-btn anime-button">Refresh</button>
+            </div>
+            {!canDecrypt && inventory.length > 0 && <p className="pity-label">{NO_RELAYER_NOTE}</p>}
+            <div className="reward-grid anime-card">
+              {inventory.length === 0 ? (
+                <div className="no-records">
+                  <p>No reward tokens yet. Claim a won pull from its details to mint one.</p>
+                </div>
+              ) : (
+                inventory.map(token => {
+                  const rarity = tokenRarities[token.tokenId];
+                  const tier = rarity === undefined ? null : getRarityTier(rarity);
+                  return (
+                    <div className="reward-token" key={token.tokenId} style={tier ? { borderColor: tier.color } : undefined}>
+                      <div className="reward-token-id">Token #{token.tokenId}</div>
+                      <div className="reward-token-pull">From pull #{token.pullId}</div>
+                      {tier ? (
+                        <div className="reward-token-tier" style={{ backgroundColor: tier.color }}>{tier.name}</div>
+                      ) : canDecrypt ? (
+                        <button onClick={() => decryptTokenRarity(token)} disabled={isDecrypting} className="decrypt-btn anime-button">
+                          {isDecrypting ? "Decrypting..." : "Decrypt Rarity"}
+                        </button>
+                      ) : null}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Gacha Records */}
         <div className="records-section">
           <div className="section-header">
@@ -423,7 +748,7 @@ const App: React.FC = () => {
                   <div className="result-cell">
                     {record.status === "won" 
                       ? `Won ${record.prizeValue.toFixed(4)} ETH` 
-                      : "No win"}
+                      : record.status === "pending" ? "Pending reveal" : "No win"}
                   </div>
                   <div className="time-cell">
                     {new Date(record.timestamp * 1000).toLocaleTimeString()}
@@ -434,6 +759,7 @@ const App: React.FC = () => {
           </div>
         </div>
       </div>
+      )}
 
       {/* Gacha Play Modal */}
       {showGachaModal && (
@@ -449,6 +775,24 @@ const App: React.FC = () => {
                 <p>Your gacha result will be encrypted with Zama FHE for verifiable fairness</p>
               </div>
               
+              <div className="banner-picker">
+                {ECONOMY.banners.map(banner => (
+                  <button
+                    key={banner.id}
+                    onClick={() => setBannerId(banner.id)}
+                    disabled={gachaSpinning}
+                    className={`banner-option ${banner.id === bannerId ? "selected" : ""}`}
+                  >
+                    <div className="banner-name">{banner.name}</div>
+                    <div className="banner-state">
+                      {bannerStatuses[banner.id]
+                        ? `${formatEther(bannerStatuses[banner.id].pullPrice)} ETH · ${bannerStatuses[banner.id].batchOpen ? "Open" : "Closed"}`
+                        : "—"}
+                    </div>
+                  </button>
+                ))}
+              </div>
+
               {renderGachaAnimation()}
               
               <div className="prize-pool-info">
@@ -458,14 +802,38 @@ const App: React.FC = () => {
               
               <button 
                 onClick={playGacha} 
-                disabled={gachaSpinning}
+                disabled={gachaSpinning || bannerStatus?.batchOpen === false || remainingDraws === 0}
                 className={`play-button anime-button ${gachaSpinning ? 'spinning' : ''}`}
               >
-                {gachaSpinning ? "Spinning..." : "Pull (0.01 ETH)"}
+                {gachaSpinning
+                  ? "Spinning..."
+                  : bannerStatus?.batchOpen === false
+                    ? `${selectedBanner.name} banner is closed`
+                    : remainingDraws === 0
+                      ? "No draws left this batch"
+                      : `Pull ${selectedBanner.name}${priceLabel}`}
               </button>
+
+              {isConnected && isCapped && (
+                <div className="draw-allowance">
+                  <div className="pity-label">
+                    Up to {bannerStatus.drawCap} draws per player this batch. A pull past your allowance still pays into the pool,
+                    but adds no draws and lands in {getRarityTier(0).name}.
+                  </div>
+                  {remainingDraws !== null ? (
+                    <div className="pity-label">{remainingDraws}/{bannerStatus.drawCap} draws left</div>
+                  ) : canDecrypt ? (
+                    <button onClick={loadDrawAllowance} disabled={isDecrypting} className="decrypt-btn anime-button">
+                      {isDecrypting ? "Decrypting..." : "Decrypt My Allowance"}
+                    </button>
+                  ) : (
+                    <div className="pity-label">{NO_RELAYER_NOTE}</div>
+                  )}
+                </div>
+              )}
               
               <div className="rarity-info">
-                <h4>Rarity Tiers</h4>
+                <h4>{selectedBanner.name} Odds</h4>
                 <div className="rarity-tiers">
                   {rarityTiers.map(tier => (
                     <div 
@@ -473,10 +841,13 @@ const App: React.FC = () => {
                       key={tier.name}
                       style={{ backgroundColor: tier.color }}
                     >
-                      {tier.name} ({tier.chance}%)
+                      {tier.name} ({selectedBanner.odds[tier.id]}%)
                     </div>
                   ))}
                 </div>
+                <p className="pity-label">
+                  Pity: {pityTier.name} or better is guaranteed after {ECONOMY.pity.threshold} pulls in a row below it
+                </p>
               </div>
             </div>
           </div>
@@ -494,7 +865,19 @@ const App: React.FC = () => {
           decryptedRarity={decryptedRarity}
           setDecryptedRarity={setDecryptedRarity}
           isDecrypting={isDecrypting}
+          canDecrypt={canDecrypt}
           decryptWithSignature={decryptWithSignature}
+          decryptionSession={decryptionSession}
+          onRevokeSession={revokeDecryptionSession}
+          canReveal={selectedRecord.status === "pending" && canRevealSelected}
+          isRevealing={isRevealing}
+          onReveal={() => revealPull(selectedRecord)}
+          canClaim={selectedRecord.status !== "lost" && !canRefundSelected && canClaimSelected}
+          isClaiming={isClaiming}
+          onClaim={() => claimReward(selectedRecord)}
+          canRefund={canRefundSelected}
+          isRefunding={isRefunding}
+          onRefund={() => refundPull(selectedRecord)}
           renderRarityVisualization={renderRarityVisualization}
         />
       )}
@@ -541,8 +924,20 @@ interface RecordDetailModalProps {
   decryptedRarity: number | null;
   setDecryptedRarity: (value: number | null) => void;
   isDecrypting: boolean;
+  canDecrypt: boolean;
   decryptWithSignature: (encryptedData: string) => Promise<number | null>;
-  renderRarityVisualization: (rarity: number) => React.ReactNode;
+  decryptionSession: DecryptionSession | null;
+  onRevokeSession: () => void;
+  canReveal: boolean;
+  isRevealing: boolean;
+  onReveal: () => void;
+  canClaim: boolean;
+  isClaiming: boolean;
+  onClaim: () => void;
+  canRefund: boolean;
+  isRefunding: boolean;
+  onRefund: () => void;
+  renderRarityVisualization: (rarity: number, bannerId: number) => React.ReactNode;
 }
 
 const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ 
@@ -551,7 +946,19 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
   decryptedRarity, 
   setDecryptedRarity, 
   isDecrypting, 
+  canDecrypt,
   decryptWithSignature,
+  decryptionSession,
+  onRevokeSession,
+  canReveal,
+  isRevealing,
+  onReveal,
+  canClaim,
+  isClaiming,
+  onClaim,
+  canRefund,
+  isRefunding,
+  onRefund,
   renderRarityVisualization
 }) => {
   const handleDecrypt = async () => {
@@ -582,9 +989,24 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               <strong className={`result-status ${record.status}`}>
                 {record.status === "won" 
                   ? `Won ${record.prizeValue.toFixed(4)} ETH` 
-                  : "No win"}
+                  : record.status === "pending" ? "Not revealed yet" : "No win"}
               </strong>
             </div>
+            {canReveal && (
+              <button className={`reveal-btn anime-button ${isRevealing ? 'loading' : ''}`} onClick={onReveal} disabled={isRevealing}>
+                {isRevealing ? "Revealing..." : "Reveal Publicly"}
+              </button>
+            )}
+            {canClaim && (
+              <button className={`reveal-btn anime-button ${isClaiming ? 'loading' : ''}`} onClick={onClaim} disabled={isClaiming}>
+                {isClaiming ? "Claiming..." : "Claim Reward Token"}
+              </button>
+            )}
+            {canRefund && (
+              <button className={`reveal-btn anime-button ${isRefunding ? 'loading' : ''}`} onClick={onRefund} disabled={isRefunding}>
+                {isRefunding ? "Refunding..." : "Refund Payment (batch did not settle)"}
+              </button>
+            )}
           </div>
           
           <div className="encrypted-data-section">
@@ -596,20 +1018,33 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               <span>🔒 FHE Encrypted</span>
             </div>
             
-            <button 
-              className={`decrypt-btn anime-button ${isDecrypting ? 'loading' : ''}`} 
-              onClick={handleDecrypt}
-              disabled={isDecrypting}
-            >
-              {isDecrypting ? "Decrypting..." : 
-               decryptedRarity !== null ? "Hide Rarity" : "Decrypt Rarity"}
-            </button>
+            {canDecrypt ? (
+              <button 
+                className={`decrypt-btn anime-button ${isDecrypting ? 'loading' : ''}`} 
+                onClick={handleDecrypt}
+                disabled={isDecrypting}
+              >
+                {isDecrypting ? "Decrypting..." : 
+                 decryptedRarity !== null ? "Hide Rarity" : "Decrypt Rarity"}
+              </button>
+            ) : (
+              <div className="pity-label">{NO_RELAYER_NOTE}</div>
+            )}
+            
+            {canDecrypt && decryptionSession && (
+              <div className="session-info">
+                <span>
+                  🔑 Decryption session active until {new Date(sessionExpiresAt(decryptionSession) * 1000).toLocaleString()}
+                </span>
+                <button className="revoke-session-btn" onClick={onRevokeSession}>Revoke</button>
+              </div>
+            )}
           </div>
           
           {decryptedRarity !== null && (
             <div className="decrypted-section">
               <h3>Decrypted Rarity</h3>
-              {renderRarityVisualization(decryptedRarity)}
+              {renderRarityVisualization(decryptedRarity, record.bannerId)}
               <div className="decryption-notice">
                 <span>🔐 Decrypted with your wallet signature</span>
               </div>
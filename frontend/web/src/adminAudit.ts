@@ -0,0 +1,101 @@
+// adminAudit.ts
+import { DEFAULT_CHAIN_ID, getContractDeployment, retry } from "./contract";
+import { getGachaReadOnly } from "./gachaContract";
+import type { GachaFiFHE } from "./gachaContract";
+import { fetchIndexedAdminEvents, isIndexerAvailable } from "./indexerApi";
+import { LOG_PAGE_SIZE } from "./pullHistory";
+import { ROLE_NAMES } from "./roles";
+
+export type AdminEventName = "RoleGranted" | "RoleRevoked" | "OwnershipTransferStarted" | "OwnershipTransferred";
+
+export interface AdminEventRecord {
+  blockNumber: number;
+  transactionHash: string;
+  event: AdminEventName;
+  // GachaFiFHE.Role id; null for ownership events
+  role: number | null;
+  // Role holder, or the proposed or new owner
+  account: string;
+  // Who made the change: the granting owner, a renouncing holder, or the previous owner
+  sender: string;
+  timestamp: number;
+}
+
+export interface AdminAudit {
+  owner: string;
+  // Zero address when no transfer is waiting to be accepted
+  pendingOwner: string;
+  // Current holders of each role, indexed by role id and replayed from the events
+  roleHolders: string[][];
+  // Newest first
+  events: AdminEventRecord[];
+}
+
+const ADMIN_EVENTS: AdminEventName[] = ["RoleGranted", "RoleRevoked", "OwnershipTransferStarted", "OwnershipTransferred"];
+
+// The indexer pages its results, so the audit reads at most this many changes from it
+const INDEXED_EVENT_LIMIT = 500;
+
+// Every role and ownership change since deployment, from the indexer when it follows this chain and
+// from a log scan otherwise
+export async function loadAdminAudit(chainId: number = DEFAULT_CHAIN_ID): Promise<AdminAudit | null> {
+  const gacha = await getGachaReadOnly(chainId);
+  if (!gacha) return null;
+
+  const [owner, pendingOwner, events] = await Promise.all([
+    retry(() => gacha.owner()),
+    retry(() => gacha.pendingOwner()),
+    (await isIndexerAvailable(chainId))
+      ? fetchIndexedAdminEvents(INDEXED_EVENT_LIMIT)
+      : scanAdminEvents(gacha, chainId),
+  ]);
+
+  const roleHolders = ROLE_NAMES.map(() => new Set<string>());
+  for (const event of [...events].reverse()) {
+    if (event.role === null) continue;
+    if (event.event === "RoleGranted") roleHolders[event.role].add(event.account);
+    else roleHolders[event.role].delete(event.account);
+  }
+  return { owner, pendingOwner, roleHolders: roleHolders.map(holders => [...holders]), events };
+}
+
+async function scanAdminEvents(gacha: GachaFiFHE, chainId: number): Promise<AdminEventRecord[]> {
+  const provider = gacha.runner?.provider;
+  if (!provider) throw new Error("GachaFiFHE is not connected to a provider");
+
+  const contractAddress = await gacha.getAddress();
+  const topics = ADMIN_EVENTS.map(name => gacha.interface.getEvent(name)!.topicHash);
+  const latestBlock = await retry(() => provider.getBlockNumber());
+  const timestamps = new Map<number, number>();
+  const events: AdminEventRecord[] = [];
+
+  let fromBlock = getContractDeployment("GachaFiFHE", chainId)?.deploymentBlock ?? 0;
+  while (fromBlock <= latestBlock) {
+    const toBlock = Math.min(fromBlock + LOG_PAGE_SIZE - 1, latestBlock);
+    const logs = await retry(() =>
+      provider.getLogs({ address: contractAddress, topics: [topics], fromBlock, toBlock })
+    );
+
+    for (const log of logs) {
+      const event = gacha.interface.parseLog(log);
+      if (!event) continue;
+      let timestamp = timestamps.get(log.blockNumber);
+      if (timestamp === undefined) {
+        timestamp = (await retry(() => provider.getBlock(log.blockNumber)))?.timestamp ?? 0;
+        timestamps.set(log.blockNumber, timestamp);
+      }
+      const isRoleEvent = event.name === "RoleGranted" || event.name === "RoleRevoked";
+      events.push({
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        event: event.name as AdminEventName,
+        role: isRoleEvent ? Number(event.args.role) : null,
+        account: isRoleEvent ? event.args.account : event.args.newOwner,
+        sender: isRoleEvent ? event.args.sender : event.args.previousOwner,
+        timestamp,
+      });
+    }
+    fromBlock = toBlock + 1;
+  }
+  return events.reverse();
+}
@@ -0,0 +1,55 @@
+// batchResults.ts
+import { DEFAULT_CHAIN_ID, retry } from "./contract";
+import { getGachaReadOnly } from "./gachaContract";
+
+export interface BatchResultRecord {
+  batchId: number;
+  bannerId: number;
+  // False while the batch is open or its decryption has not landed; the amounts below are then 0
+  finalized: boolean;
+  // Gave up on settling; players reclaim their payments instead
+  refunding: boolean;
+  prizePool: bigint;
+  drawCount: number;
+  // Wei credited to revealed winners so far
+  accrued: bigint;
+  // Unix seconds the decryption landed
+  settledAt: number;
+  requestId: bigint;
+}
+
+export interface BatchResultsPage {
+  batches: BatchResultRecord[];
+  batchCount: number;
+}
+
+export const BATCH_PAGE_SIZE = 10;
+
+// Page `page` of the on-chain batch results, newest batch first
+export async function loadBatchResultsPage(page: number, chainId: number = DEFAULT_CHAIN_ID): Promise<BatchResultsPage> {
+  const gacha = await getGachaReadOnly(chainId);
+  if (!gacha) return { batches: [], batchCount: 0 };
+
+  const batchCount = Number(await retry(() => gacha.batchCount()));
+  const newest = batchCount - page * BATCH_PAGE_SIZE;
+  if (newest < 1) return { batches: [], batchCount };
+  const from = Math.max(1, newest - BATCH_PAGE_SIZE + 1);
+
+  const results = await retry(() => gacha.getBatchResults(from, newest - from + 1));
+  const [bannerIds, settlements] = await Promise.all([
+    Promise.all(results.map((_, i) => retry(() => gacha.batchBanner(from + i)))),
+    Promise.all(results.map((_, i) => retry(() => gacha.batchSettlements(from + i)))),
+  ]);
+  const batches = results.map((result, i) => ({
+    batchId: from + i,
+    bannerId: Number(bannerIds[i]),
+    finalized: result.finalized,
+    refunding: settlements[i].refunding,
+    prizePool: result.prizePool,
+    drawCount: Number(result.drawCount),
+    accrued: result.accrued,
+    settledAt: Number(result.settledAt),
+    requestId: result.requestId,
+  }));
+  return { batches: batches.reverse(), batchCount };
+}
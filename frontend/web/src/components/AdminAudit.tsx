@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { ZeroAddress } from 'ethers';
+import { AdminAudit as AdminAuditData, AdminEventRecord, loadAdminAudit } from '../adminAudit';
+import { ROLE_NAMES, roleName } from '../roles';
+
+interface AdminAuditProps {
+  chainId: number;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+function describeEvent(event: AdminEventRecord): string {
+  switch (event.event) {
+    case 'RoleGranted':
+      return `${roleName(event.role!)} granted to ${shortAddress(event.account)}`;
+    case 'RoleRevoked':
+      return event.account === event.sender
+        ? `${shortAddress(event.account)} renounced ${roleName(event.role!)}`
+        : `${roleName(event.role!)} revoked from ${shortAddress(event.account)}`;
+    case 'OwnershipTransferStarted':
+      return event.account === ZeroAddress
+        ? 'Ownership transfer cancelled'
+        : `Ownership offered to ${shortAddress(event.account)}`;
+    case 'OwnershipTransferred':
+      return `Ownership accepted by ${shortAddress(event.account)}`;
+  }
+}
+
+// Who runs the contract and every role or ownership change that led there
+export default function AdminAudit({ chainId }: AdminAuditProps) {
+  const [audit, setAudit] = useState<AdminAuditData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setAudit(await loadAdminAudit(chainId));
+    } catch (e) {
+      console.error('Error loading admin audit:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [chainId]);
+
+  return (
+    <div className="records-section">
+      <div className="section-header">
+        <h2>Admin Audit</h2>
+        <button onClick={load} className="refresh-btn anime-button" disabled={isLoading}>
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+      {audit && (
+        <div className="records-list anime-card">
+          <div className="audit-row">
+            <div>Owner</div>
+            <div>
+              {audit.owner}
+              {audit.pendingOwner !== ZeroAddress && ` (transfer to ${audit.pendingOwner} awaiting acceptance)`}
+            </div>
+          </div>
+          {ROLE_NAMES.map((name, role) => (
+            <div className="audit-row" key={name}>
+              <div>{name}</div>
+              <div>{audit.roleHolders[role].map(shortAddress).join(', ') || 'Nobody'}</div>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="records-list anime-card">
+        {audit?.events.length === 0 && (
+          <div className="no-records">
+            <p>No admin changes yet</p>
+          </div>
+        )}
+        {audit?.events.map(event => (
+          <div className="audit-row" key={`${event.transactionHash}:${event.event}:${event.role}:${event.account}`}>
+            <div>{new Date(event.timestamp * 1000).toLocaleString()}</div>
+            <div title={`Sent by ${event.sender} in ${event.transactionHash}`}>{describeEvent(event)}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { formatEther } from 'ethers';
+import { BATCH_PAGE_SIZE, BatchResultsPage, loadBatchResultsPage } from '../batchResults';
+import { ECONOMY } from '../economy';
+
+interface PastBatchesProps {
+  chainId: number;
+}
+
+// Settled outcome of every batch, read page by page from the contract
+export default function PastBatches({ chainId }: PastBatchesProps) {
+  const [page, setPage] = useState(0);
+  const [results, setResults] = useState<BatchResultsPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setResults(await loadBatchResultsPage(page, chainId));
+    } catch (e) {
+      console.error('Error loading batch results:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [page, chainId]);
+
+  const pageCount = Math.max(1, Math.ceil((results?.batchCount ?? 0) / BATCH_PAGE_SIZE));
+
+  return (
+    <div className="records-section">
+      <div className="section-header">
+        <h2>Past Batches</h2>
+        <button onClick={load} className="refresh-btn anime-button" disabled={isLoading}>
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+      <div className="records-list anime-card">
+        <div className="batch-row batch-header">
+          <div>Batch</div>
+          <div>Banner</div>
+          <div>Prize Pool</div>
+          <div>Draws</div>
+          <div>Paid Out</div>
+          <div>Settled</div>
+        </div>
+        {results?.batches.length === 0 && (
+          <div className="no-records">
+            <p>No batches yet</p>
+          </div>
+        )}
+        {results?.batches.map(batch => (
+          <div className={`batch-row ${batch.finalized ? 'settled' : 'pending'}`} key={batch.batchId}>
+            <div>#{batch.batchId}</div>
+            <div>{ECONOMY.banners[batch.bannerId]?.name ?? `Banner ${batch.bannerId}`}</div>
+            {batch.finalized ? (
+              <>
+                <div>{Number(formatEther(batch.prizePool)).toFixed(4)} ETH</div>
+                <div>{batch.drawCount}</div>
+                <div>{Number(formatEther(batch.accrued)).toFixed(4)} ETH</div>
+                <div title={`Decryption request ${batch.requestId}`}>
+                  {new Date(batch.settledAt * 1000).toLocaleString()}
+                </div>
+              </>
+            ) : (
+              <div className="batch-pending">
+                {batch.refunding ? 'Did not settle; payments refundable' : 'Open or awaiting decryption'}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="batch-pagination">
+        <button onClick={() => setPage(page - 1)} disabled={isLoading || page === 0} className="refresh-btn anime-button">
+          Newer
+        </button>
+        <span>Page {page + 1} of {pageCount}</span>
+        <button onClick={() => setPage(page + 1)} disabled={isLoading || page + 1 >= pageCount} className="refresh-btn anime-button">
+          Older
+        </button>
+      </div>
+    </div>
+  );
+}
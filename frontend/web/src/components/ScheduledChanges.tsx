@@ -0,0 +1,48 @@
+import React from 'react';
+import { formatEther, getAddress, toBeHex } from 'ethers';
+import { ECONOMY } from '../economy';
+import { PendingChange } from '../timelock';
+
+interface ScheduledChangesProps {
+  changes: PendingChange[];
+}
+
+const bannerName = (bannerId: number) => ECONOMY.banners[bannerId]?.name ?? `Banner ${bannerId}`;
+
+function describeChange(change: PendingChange): string {
+  switch (change.param) {
+    case 'CooldownSeconds':
+      return `Cooldown between pulls changes to ${change.value} seconds`;
+    case 'PullPrice':
+      return `${bannerName(change.bannerId)} banner price changes to ${formatEther(change.value)} ETH per draw for batches opened afterwards`;
+    case 'DrawCap':
+      return change.value === 0n
+        ? `${bannerName(change.bannerId)} banner draw cap is lifted for batches opened afterwards`
+        : `${bannerName(change.bannerId)} banner allows ${change.value} draws per player per batch for batches opened afterwards`;
+    case 'TimelockDelay':
+      return `Notice for future changes becomes ${Number(change.value) / 3600} hours`;
+    case 'Strategy':
+      return change.value === 0n
+        ? 'The prize pool moves out of its yield strategy and stays in the game contract'
+        : `The prize pool moves to a new yield strategy at ${getAddress(toBeHex(change.value, 20))}`;
+  }
+}
+
+// Warns players about timelocked parameter changes before they can take effect
+export default function ScheduledChanges({ changes }: ScheduledChangesProps) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="scheduled-changes anime-card">
+      <h3>⚠️ Scheduled Changes</h3>
+      <ul>
+        {changes.map(change => (
+          <li key={change.changeId}>
+            {describeChange(change)}, effective from {new Date(change.executableAt * 1000).toLocaleString()} at the
+            earliest
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
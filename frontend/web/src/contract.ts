@@ -1,12 +1,31 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import manifestJson from "./deployments.json";
+import type { ChainDeployment, ContractDeployment, DeploymentManifest } from "./deployments";
 
-export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+export const SEPOLIA_CHAIN_ID = 11155111;
+export const HARDHAT_CHAIN_ID = 31337;
+// Chain used for read-only calls before a wallet is connected
+export const DEFAULT_CHAIN_ID = SEPOLIA_CHAIN_ID;
+
+const manifest = manifestJson as DeploymentManifest;
+
+export function getChainDeployment(chainId: number): ChainDeployment | null {
+  return manifest[chainId] ?? null;
+}
+
+export function getContractDeployment(name: string, chainId: number): ContractDeployment | null {
+  return getChainDeployment(chainId)?.contracts[name] ?? null;
+}
+
+export function getDeployedChainIds(): number[] {
+  return Object.keys(manifest).map(Number);
+}
+
+export const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
   } catch (e) {
@@ -18,20 +37,26 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
+const RPC_URLS: Record<number, string[]> = {
+  [SEPOLIA_CHAIN_ID]: [
     "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
     "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
     "https://rpc.sepolia.org",
     "https://rpc2.sepolia.org",
     "https://eth-sepolia.public.blastapi.io"
-  ];
+  ],
+  [HARDHAT_CHAIN_ID]: ["http://127.0.0.1:8545"]
+};
+
+export const getTestnetProvider = async (chainId: number = SEPOLIA_CHAIN_ID) => {
+  const rpcUrls = RPC_URLS[chainId] ?? [];
+  const name = getChainDeployment(chainId)?.network ?? "sepolia";
   
   for (const url of rpcUrls) {
     try {
       const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+        name,
+        chainId
       });
       
       const blockNumber = await Promise.race([
@@ -46,41 +71,9 @@ const getTestnetProvider = async () => {
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`All RPC providers failed for chain ${chainId}`);
 };
 
-export async function getContractReadOnly() {
-  try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
-  } catch (error) {
-    console.error("Failed to create read-only contract:", error);
-    return null;
-  }
-}
-
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
-  try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
-  } catch (error) {
-    console.error("Failed to create contract with signer:", error);
-    throw error;
-  }
-}
-
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+// decryptionSessions.ts
+import { normAddr } from "./contract";
+import { buildUserDecryptTypedData, DecryptionKeypair, generateDecryptionKeypair } from "./fhevm";
+
+export interface DecryptionSession {
+  keypair: DecryptionKeypair;
+  signature: string;
+  userAddress: string;
+  contractAddress: string;
+  chainId: number;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+type TypedData = Awaited<ReturnType<typeof buildUserDecryptTypedData>>;
+
+const STORAGE_PREFIX = "gachafi:decryption-session:";
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Concurrent decrypt clicks share one signature prompt per session key
+const pendingSessions = new Map<string, Promise<DecryptionSession>>();
+
+const sessionKey = (userAddress: string, contractAddress: string, chainId: number) =>
+  `${STORAGE_PREFIX}${chainId}:${normAddr(contractAddress)}:${normAddr(userAddress)}`;
+
+export function sessionExpiresAt(session: DecryptionSession): number {
+  return session.startTimestamp + session.durationDays * SECONDS_PER_DAY;
+}
+
+export function isSessionExpired(session: DecryptionSession, now = Math.floor(Date.now() / 1000)): boolean {
+  return now >= sessionExpiresAt(session);
+}
+
+export function loadSession(userAddress: string, contractAddress: string, chainId: number): DecryptionSession | null {
+  const key = sessionKey(userAddress, contractAddress, chainId);
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    const session = JSON.parse(raw) as DecryptionSession;
+    if (!isSessionExpired(session)) return session;
+  } catch (e) {
+    console.error("Error parsing decryption session:", e);
+  }
+  localStorage.removeItem(key);
+  return null;
+}
+
+export function revokeSession(userAddress: string, contractAddress: string, chainId: number) {
+  const key = sessionKey(userAddress, contractAddress, chainId);
+  pendingSessions.delete(key);
+  localStorage.removeItem(key);
+}
+
+export async function getOrCreateSession(
+  userAddress: string,
+  contractAddress: string,
+  chainId: number,
+  durationDays: number,
+  signTypedData: (typedData: TypedData) => Promise<string>
+): Promise<DecryptionSession> {
+  const existing = loadSession(userAddress, contractAddress, chainId);
+  if (existing) return existing;
+
+  const key = sessionKey(userAddress, contractAddress, chainId);
+  let pending = pendingSessions.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const keypair = await generateDecryptionKeypair(chainId);
+      const startTimestamp = Math.floor(Date.now() / 1000);
+      const typedData = await buildUserDecryptTypedData(chainId, keypair.publicKey, contractAddress, startTimestamp, durationDays);
+      const signature = await signTypedData(typedData);
+      const session: DecryptionSession = {
+        keypair,
+        signature,
+        userAddress,
+        contractAddress,
+        chainId,
+        startTimestamp,
+        durationDays,
+      };
+      localStorage.setItem(key, JSON.stringify(session));
+      return session;
+    })().finally(() => pendingSessions.delete(key));
+    pendingSessions.set(key, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,20 @@
+// deployments.ts
+// Shape of deployments.json, written by `npx hardhat deploy` (deploy/exportManifest.ts).
+import type { JsonFragment } from "ethers";
+
+export interface ContractDeployment {
+  address: string;
+  abi: JsonFragment[];
+  // Block of the deployment transaction, where event scans can start
+  deploymentBlock: number;
+  transactionHash?: string;
+}
+
+export interface ChainDeployment {
+  chainId: number;
+  network: string;
+  contracts: Record<string, ContractDeployment>;
+}
+
+// Keyed by chainId so one build can serve every network it was deployed to
+export type DeploymentManifest = Record<string, ChainDeployment>;
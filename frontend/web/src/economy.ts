@@ -0,0 +1,158 @@
+// economy.ts
+// Loads economyConfig.json, the one definition of tiers, banners, odds and payouts. The app, the
+// indexer and the deploy script all read it, and banners are created with roll bounds derived from it.
+import economyJson from "./economyConfig.json";
+
+export interface EconomyTier {
+  // Value GachaFiFHE rolls under encryption for a pull, from the commonest tier (0) up
+  id: number;
+  name: string;
+  color: string;
+  // Percentage of the batch prize pool this tier pays out, split evenly among the batch's pulls of the tier;
+  // 0 means the pull loses and earns no reward token. Together the tiers pay out at most 100.
+  payoutPercent: number;
+}
+
+export interface EconomyBanner {
+  // GachaFiFHE banner id, counting up from 0 in creation order
+  id: number;
+  name: string;
+  // Ether per draw the banner is created with; admins may queue a change on-chain later
+  pullPrice: string;
+  // Whole percentage of pulls landing in each tier, indexed by tier id
+  odds: number[];
+  // Draws one player may make per batch, enforced under encryption; omitted for no cap. Like the
+  // price, this is only the starting value.
+  drawCap?: number;
+}
+
+export interface PityConfig {
+  // Pulls in a row below `tierId` after which a player's next pull is guaranteed to reach it
+  threshold: number;
+  tierId: number;
+}
+
+export interface EconomyConfig {
+  // Bumped on every change, and checked against the deployed contract
+  version: number;
+  // Commonest first
+  tiers: EconomyTier[];
+  banners: EconomyBanner[];
+  pity: PityConfig;
+}
+
+// Rolls are drawn from 0 to ROLL_RANGE - 1, so odds are whole percentages
+export const ROLL_RANGE = 100;
+
+// Tier ids and the tier count are stored as uint8 on-chain
+const MAX_TIERS = 255;
+// Draw caps are stored as uint32 on-chain
+const MAX_DRAW_CAP = 2 ** 32 - 1;
+
+export function validateEconomy(config: EconomyConfig): EconomyConfig {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid economy config: ${reason}`);
+  };
+
+  if (!Number.isInteger(config.version) || config.version <= 0) fail("version must be a positive integer");
+  if (!Array.isArray(config.tiers) || config.tiers.length < 2) fail("at least two tiers are required");
+  if (config.tiers.length > MAX_TIERS) fail(`at most ${MAX_TIERS} tiers are supported`);
+
+  const tierNames = new Set<string>();
+  config.tiers.forEach((tier, index) => {
+    if (tier.id !== index) fail(`tier ${index} has id ${tier.id}; ids must count up from 0`);
+    if (!tier.name || tierNames.has(tier.name)) fail(`tier ${index} needs a unique name`);
+    tierNames.add(tier.name);
+    if (!/^#[0-9a-fA-F]{6}$/.test(tier.color)) fail(`${tier.name} color must be a #rrggbb hex color`);
+    if (typeof tier.payoutPercent !== "number" || tier.payoutPercent < 0 || tier.payoutPercent > 100) {
+      fail(`${tier.name} payoutPercent must be between 0 and 100`);
+    }
+    if (Math.abs(tier.payoutPercent * 100 - Math.round(tier.payoutPercent * 100)) > 1e-9) {
+      fail(`${tier.name} payoutPercent must have at most two decimals`);
+    }
+  });
+
+  const totalPayout = config.tiers.reduce((total, tier) => total + tier.payoutPercent, 0);
+  if (totalPayout > 100 + 1e-9) fail(`tiers pay out ${totalPayout}% of the prize pool; at most 100% is allowed`);
+
+  const firstWinning = config.tiers.findIndex(tier => tier.payoutPercent > 0);
+  if (firstWinning < 0) fail("at least one tier must pay out");
+  // Pulls over a draw cap land in the commonest tier, which therefore must lose
+  if (firstWinning === 0) fail(`${config.tiers[0].name} must not pay out, as the commonest tier`);
+  // The contract mints reward tokens from one tier up, so winning tiers must be the rarest ones
+  config.tiers.slice(firstWinning).forEach(tier => {
+    if (tier.payoutPercent === 0) fail(`${tier.name} must pay out, as a rarer tier than ${config.tiers[firstWinning].name}`);
+  });
+
+  if (!Array.isArray(config.banners) || config.banners.length === 0) fail("at least one banner is required");
+  const bannerNames = new Set<string>();
+  config.banners.forEach((banner, index) => {
+    if (banner.id !== index) fail(`banner ${index} has id ${banner.id}; ids must count up from 0`);
+    if (!banner.name || bannerNames.has(banner.name)) fail(`banner ${index} needs a unique name`);
+    bannerNames.add(banner.name);
+    if (!/^\d+(\.\d{1,18})?$/.test(banner.pullPrice) || Number(banner.pullPrice) <= 0) {
+      fail(`${banner.name} pullPrice must be a positive ether amount`);
+    }
+    if (!Array.isArray(banner.odds) || banner.odds.length !== config.tiers.length) {
+      fail(`${banner.name} needs odds for each of the ${config.tiers.length} tiers`);
+    }
+    banner.odds.forEach((odds, tierId) => {
+      if (!Number.isInteger(odds) || odds <= 0) {
+        fail(`${banner.name} odds for ${config.tiers[tierId].name} must be a positive whole percentage`);
+      }
+    });
+    const totalOdds = banner.odds.reduce((sum, odds) => sum + odds, 0);
+    if (totalOdds !== ROLL_RANGE) fail(`${banner.name} odds add up to ${totalOdds}%, not ${ROLL_RANGE}%`);
+    if (banner.drawCap !== undefined && (!Number.isInteger(banner.drawCap) || banner.drawCap <= 0 || banner.drawCap > MAX_DRAW_CAP)) {
+      fail(`${banner.name} drawCap must be a positive integer up to ${MAX_DRAW_CAP}`);
+    }
+  });
+
+  if (!config.pity || !Number.isInteger(config.pity.threshold) || config.pity.threshold <= 0) {
+    fail("pity threshold must be a positive integer");
+  }
+  if (!Number.isInteger(config.pity.tierId) || config.pity.tierId <= 0 || config.pity.tierId >= config.tiers.length) {
+    fail("pity tierId must name a tier above the commonest");
+  }
+
+  return config;
+}
+
+/**
+ * Contract parameters for a banner's odds: a roll below `bounds[i]` lifts a pull past tier i, so
+ * each bound is the combined odds of every tier above i. Creating banners from these is what keeps
+ * the implemented odds equal to the advertised ones.
+ */
+export function bannerRollBounds(banner: EconomyBanner): number[] {
+  return banner.odds.slice(1).map((_, i) =>
+    banner.odds.slice(i + 1).reduce((sum, odds) => sum + odds, 0)
+  );
+}
+
+// Commonest tier that pays out; pulls at it or better win a reward token
+export function rewardTierId(config: EconomyConfig): number {
+  return config.tiers.findIndex(tier => tier.payoutPercent > 0);
+}
+
+// Payouts as the contract stores them, in basis points of the batch prize pool
+export function tierPayoutBps(config: EconomyConfig): number[] {
+  return config.tiers.map(tier => Math.round(tier.payoutPercent * 100));
+}
+
+// GachaFiFHE constructor arguments, in order
+export function economyDeployArgs(config: EconomyConfig): [number, number[], number, number] {
+  return [config.version, tierPayoutBps(config), config.pity.threshold, config.pity.tierId];
+}
+
+// Per-player draw cap a banner is created with; 0 means no cap, as the contract stores it
+export function bannerDrawCap(banner: EconomyBanner): number {
+  return banner.drawCap ?? 0;
+}
+
+export const ECONOMY: EconomyConfig = validateEconomy(economyJson);
+
+export function getBanner(bannerId: number): EconomyBanner {
+  const banner = ECONOMY.banners[bannerId];
+  if (!banner) throw new Error(`Unknown banner ${bannerId}`);
+  return banner;
+}
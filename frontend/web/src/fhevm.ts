@@ -0,0 +1,94 @@
+// fhevm.ts
+import { initSDK, createInstance, SepoliaConfig, FhevmInstance, FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
+import { config, SEPOLIA_CHAIN_ID } from "./contract";
+
+// Relayer and KMS contracts of each chain with a decryption relayer. A local Hardhat node has none, so
+// nothing encrypted can be decrypted for the user there.
+const RELAYER_CONFIGS: Record<number, FhevmInstanceConfig> = {
+  [SEPOLIA_CHAIN_ID]: { ...SepoliaConfig, network: config.network },
+};
+
+let sdkPromise: Promise<unknown> | null = null;
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+export function hasRelayer(chainId: number): boolean {
+  return chainId in RELAYER_CONFIGS;
+}
+
+// The WASM modules are large, so the SDK is initialised once and each chain's instance shared.
+export function getFhevmInstance(chainId: number): Promise<FhevmInstance> {
+  const relayerConfig = RELAYER_CONFIGS[chainId];
+  if (!relayerConfig) return Promise.reject(new Error(`Chain ${chainId} has no FHEVM relayer to decrypt with`));
+  let instance = instances.get(chainId);
+  if (!instance) {
+    instance = (async () => {
+      sdkPromise ??= initSDK().catch(e => {
+        sdkPromise = null;
+        throw e;
+      });
+      await sdkPromise;
+      return createInstance(relayerConfig);
+    })().catch(e => {
+      instances.delete(chainId);
+      throw e;
+    });
+    instances.set(chainId, instance);
+  }
+  return instance;
+}
+
+export interface DecryptionKeypair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface UserDecryptParams {
+  chainId: number;
+  keypair: DecryptionKeypair;
+  signature: string;
+  contractAddress: string;
+  userAddress: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export async function generateDecryptionKeypair(chainId: number): Promise<DecryptionKeypair> {
+  const instance = await getFhevmInstance(chainId);
+  return instance.generateKeypair();
+}
+
+// Typed data the wallet signs to authorise the relayer to re-encrypt handles under `publicKey`.
+export async function buildUserDecryptTypedData(
+  chainId: number,
+  publicKey: string,
+  contractAddress: string,
+  startTimestamp: number,
+  durationDays: number
+) {
+  const instance = await getFhevmInstance(chainId);
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, durationDays);
+  return {
+    domain: { ...eip712.domain, verifyingContract: eip712.domain.verifyingContract as `0x${string}` },
+    types: { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    primaryType: "UserDecryptRequestVerification" as const,
+    message: eip712.message,
+  };
+}
+
+export async function userDecryptHandle(handle: string, params: UserDecryptParams): Promise<bigint> {
+  const { chainId, keypair, signature, contractAddress, userAddress, startTimestamp, durationDays } = params;
+  const instance = await getFhevmInstance(chainId);
+  const results = await instance.userDecrypt(
+    [{ handle, contractAddress }],
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    userAddress,
+    startTimestamp,
+    durationDays
+  );
+  const value = results[handle];
+  if (typeof value !== "bigint") throw new Error(`Relayer returned no cleartext for ${handle}`);
+  return value;
+}
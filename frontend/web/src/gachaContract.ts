@@ -0,0 +1,145 @@
+// gachaContract.ts
+import { ethers } from "ethers";
+import { GachaFiFHE__factory } from "../../../types";
+import type { GachaFiFHE } from "../../../types";
+import { DEFAULT_CHAIN_ID, getContractDeployment, getTestnetProvider, retry } from "./contract";
+import { ECONOMY, bannerRollBounds, economyDeployArgs } from "./economy";
+import { PARAM_NAMES } from "./timelock";
+import type { PendingChange } from "./timelock";
+
+export type { GachaFiFHE };
+
+export function getGachaAddress(chainId: number = DEFAULT_CHAIN_ID): string | null {
+  return getContractDeployment("GachaFiFHE", chainId)?.address ?? null;
+}
+
+const verifiedEconomies = new Set<string>();
+
+// Refuses a deployment whose tiers or banner odds differ from the ones this build advertises
+async function assertEconomyMatches(gacha: GachaFiFHE, address: string): Promise<void> {
+  if (verifiedEconomies.has(address)) return;
+  const [version, payoutBps, pityThreshold, pityTier, bannerCount] = await Promise.all([
+    retry(() => gacha.economyVersion()),
+    retry(() => gacha.getTierPayoutBps()),
+    retry(() => gacha.pityThreshold()),
+    retry(() => gacha.pityTier()),
+    retry(() => gacha.bannerCount()),
+  ]);
+  const mismatch = (reason: string) =>
+    new Error(`GachaFiFHE at ${address} ${reason}, but this app advertises economy v${ECONOMY.version}; redeploy or rebuild`);
+
+  const deployed = JSON.stringify([Number(version), payoutBps.map(Number), Number(pityThreshold), Number(pityTier)]);
+  if (deployed !== JSON.stringify(economyDeployArgs(ECONOMY))) {
+    throw mismatch(`runs economy v${version}`);
+  }
+  if (Number(bannerCount) < ECONOMY.banners.length) {
+    throw mismatch(`has ${bannerCount} banners`);
+  }
+  const bounds = await Promise.all(ECONOMY.banners.map(banner => retry(() => gacha.getBannerRollBounds(banner.id))));
+  ECONOMY.banners.forEach((banner, i) => {
+    if (JSON.stringify(bounds[i].map(Number)) !== JSON.stringify(bannerRollBounds(banner))) {
+      throw mismatch(`rolls different odds on the ${banner.name} banner`);
+    }
+  });
+  verifiedEconomies.add(address);
+}
+
+export async function getGachaReadOnly(chainId: number = DEFAULT_CHAIN_ID): Promise<GachaFiFHE | null> {
+  const address = getGachaAddress(chainId);
+  if (!address) return null;
+  try {
+    const provider = await getTestnetProvider(chainId);
+    const code = await retry(() => provider.getCode(address));
+    if (code === "0x") {
+      return null;
+    }
+
+    const gacha = GachaFiFHE__factory.connect(address, provider);
+    await assertEconomyMatches(gacha, address);
+    return gacha;
+  } catch (error) {
+    console.error("Failed to create read-only GachaFiFHE:", error);
+    return null;
+  }
+}
+
+export async function getGachaWithSigner(): Promise<GachaFiFHE> {
+  if (!window.ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    // Use the deployment of whichever chain the wallet is on
+    const { chainId } = await provider.getNetwork();
+    const address = getGachaAddress(Number(chainId));
+    if (!address) {
+      throw new Error(`GachaFiFHE is not deployed on chain ${chainId}`);
+    }
+    const signer = await provider.getSigner();
+    const gacha = GachaFiFHE__factory.connect(address, signer);
+    await assertEconomyMatches(gacha, address);
+    return gacha;
+  } catch (error) {
+    console.error("Failed to create GachaFiFHE with signer:", error);
+    throw error;
+  }
+}
+
+export interface BannerStatus {
+  batchOpen: boolean;
+  // Latest batch opened on the banner, 0 before the first
+  batchId: number;
+  // Wei per draw: the open batch's price, or between batches the price the next batch will open with
+  pullPrice: bigint;
+  // Draws per player, for the open batch or the next one like the price; 0 for no cap
+  drawCap: number;
+}
+
+export async function readBannerStatus(gacha: GachaFiFHE, bannerId: number): Promise<BannerStatus> {
+  const banner = await gacha.banners(bannerId);
+  const batchId = Number(banner.currentBatchId);
+  if (banner.batchOpen) {
+    const [pullPrice, drawCap] = await Promise.all([gacha.batchPullPrice(batchId), gacha.batchDrawCap(batchId)]);
+    return { batchOpen: true, batchId, pullPrice, drawCap: Number(drawCap) };
+  }
+  return { batchOpen: false, batchId, pullPrice: banner.pullPrice, drawCap: Number(banner.drawCap) };
+}
+
+// A pull can be refunded once its batch gave up on settling, until its payment is returned or it
+// wins a reward token
+export async function isPullRefundable(gacha: GachaFiFHE, pullId: number): Promise<boolean> {
+  const [batchId, refunded, rewardClaim] = await Promise.all([
+    gacha.pullBatch(pullId),
+    gacha.pullRefunded(pullId),
+    gacha.rewardClaims(pullId),
+  ]);
+  if (refunded || rewardClaim.won) return false;
+  return (await gacha.batchSettlements(batchId)).refunding;
+}
+
+// A pull can be revealed once its batch's prize pool is decrypted, and only once
+export async function isPullRevealable(gacha: GachaFiFHE, pullId: number): Promise<boolean> {
+  const [batchId, reveal] = await Promise.all([gacha.pullBatch(pullId), gacha.pullReveals(pullId)]);
+  if (reveal.requested) return false;
+  return (await gacha.batchResults(batchId)).finalized;
+}
+
+// A reward token can be claimed for a pull once the game has a rewards contract, and only once
+export async function isPullClaimable(gacha: GachaFiFHE, pullId: number): Promise<boolean> {
+  const [rewards, rewardClaim] = await Promise.all([gacha.rewards(), gacha.rewardClaims(pullId)]);
+  return rewards !== ethers.ZeroAddress && !rewardClaim.requested;
+}
+
+// Parameter changes queued behind the timelock, soonest first
+export async function readPendingChanges(gacha: GachaFiFHE): Promise<PendingChange[]> {
+  const changes = await retry(() => gacha.getPendingChanges());
+  return changes
+    .map(change => ({
+      changeId: Number(change.id),
+      param: PARAM_NAMES[Number(change.param)],
+      bannerId: Number(change.bannerId),
+      value: change.value,
+      executableAt: Number(change.executableAt),
+    }))
+    .sort((a, b) => a.executableAt - b.executableAt);
+}
@@ -0,0 +1,61 @@
+// indexerApi.ts
+import type { AdminEventRecord } from "./adminAudit";
+import { config, retry } from "./contract";
+import type { Leaderboard, LeaderboardSort, LeaderboardWindow } from "./leaderboard";
+import type { PullRecord } from "./pullHistory";
+
+export interface IndexerStats {
+  chainId: number | null;
+  lastBlock: number | null;
+  players: number;
+  pulls: number;
+  wins: number;
+  batches: number;
+  decryptedBatches: number;
+}
+
+const INDEXER_URL: string = config.indexerUrl;
+
+async function getJson<T>(path: string): Promise<T> {
+  const res = await retry(() => fetch(`${INDEXER_URL.replace(/\/$/, "")}${path}`));
+  if (!res.ok) throw new Error(`Indexer responded ${res.status} for ${path}`);
+  return res.json() as Promise<T>;
+}
+
+// The indexer follows a single chain, so it is only used when it indexes the one being read
+export async function isIndexerAvailable(chainId: number): Promise<boolean> {
+  if (!INDEXER_URL) return false;
+  try {
+    const stats = await getJson<IndexerStats>("/stats");
+    return stats.chainId === chainId;
+  } catch (e) {
+    console.warn("Indexer unavailable, falling back to log scans:", e);
+    return false;
+  }
+}
+
+export async function fetchIndexedPulls(limit = 100, offset = 0): Promise<PullRecord[]> {
+  const { pulls } = await getJson<{ pulls: PullRecord[]; total: number }>(`/pulls?limit=${limit}&offset=${offset}`);
+  return pulls;
+}
+
+// Role and ownership changes, newest first
+export async function fetchIndexedAdminEvents(limit = 100, offset = 0): Promise<AdminEventRecord[]> {
+  const { events } = await getJson<{ events: AdminEventRecord[] }>(`/admin-events?limit=${limit}&offset=${offset}`);
+  return events;
+}
+
+export function fetchIndexerStats(): Promise<IndexerStats> {
+  return getJson<IndexerStats>("/stats");
+}
+
+export function fetchIndexedLeaderboard(options: {
+  sortBy: LeaderboardSort;
+  window: LeaderboardWindow;
+  limit: number;
+  player?: string;
+}): Promise<Leaderboard> {
+  const params = new URLSearchParams({ sortBy: options.sortBy, window: options.window, limit: String(options.limit) });
+  if (options.player) params.set("player", options.player);
+  return getJson<Leaderboard>(`/leaderboard?${params}`);
+}
@@ -0,0 +1,96 @@
+// leaderboard.ts
+// Ranking shared by the in-browser fallback and the indexer API, so both order players the same way.
+import { isWinningTier } from "./rarity";
+
+export type LeaderboardSort = "wins" | "value" | "pulls";
+export type LeaderboardWindow = "batch" | "week" | "all";
+
+export const LEADERBOARD_SORTS: LeaderboardSort[] = ["wins", "value", "pulls"];
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ["batch", "week", "all"];
+
+const WEEK_SECONDS = 7 * 24 * 60 * 60;
+
+export interface PullOutcome {
+  player: string;
+  batchId: number;
+  timestamp: number;
+  // null until the player reveals the pull
+  rarity: number | null;
+  // Ether the contract credited the pull when it was revealed; null until then or when nothing was credited
+  winnings: number | null;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  player: string;
+  wins: number;
+  totalValue: number;
+  pulls: number;
+}
+
+export interface LeaderboardOptions {
+  sortBy: LeaderboardSort;
+  window: LeaderboardWindow;
+  // End of the week window, in chain time
+  now: number;
+  // Batch for the batch window; defaults to the newest batch with pulls
+  batchId?: number;
+  limit: number;
+  player?: string;
+}
+
+export interface Leaderboard {
+  batchId: number | null;
+  entries: LeaderboardEntry[];
+  // The requested player's entry, even when ranked below `limit`
+  player: LeaderboardEntry | null;
+}
+
+export function buildLeaderboard(outcomes: PullOutcome[], options: LeaderboardOptions): Leaderboard {
+  const batchId = options.window === "batch"
+    ? options.batchId ?? outcomes.reduce<number | null>((max, o) => max === null || o.batchId > max ? o.batchId : max, null)
+    : null;
+  const inWindow = outcomes.filter(o => {
+    if (options.window === "batch") return o.batchId === batchId;
+    if (options.window === "week") return o.timestamp > options.now - WEEK_SECONDS;
+    return true;
+  });
+
+  const byPlayer = new Map<string, LeaderboardEntry>();
+  for (const outcome of inWindow) {
+    const key = outcome.player.toLowerCase();
+    let entry = byPlayer.get(key);
+    if (!entry) {
+      entry = { rank: 0, player: outcome.player, wins: 0, totalValue: 0, pulls: 0 };
+      byPlayer.set(key, entry);
+    }
+    entry.pulls += 1;
+    if (outcome.rarity !== null && isWinningTier(outcome.rarity)) {
+      entry.wins += 1;
+      entry.totalValue += outcome.winnings ?? 0;
+    }
+  }
+
+  const order: Record<LeaderboardSort, (e: LeaderboardEntry) => number[]> = {
+    wins: e => [e.wins, e.totalValue, e.pulls],
+    value: e => [e.totalValue, e.wins, e.pulls],
+    pulls: e => [e.pulls, e.wins, e.totalValue],
+  };
+  const key = order[options.sortBy];
+  const ranked = [...byPlayer.values()].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    for (let i = 0; i < ka.length; i++) {
+      if (ka[i] !== kb[i]) return kb[i] - ka[i];
+    }
+    return a.player.toLowerCase().localeCompare(b.player.toLowerCase());
+  });
+  ranked.forEach((entry, i) => (entry.rank = i + 1));
+
+  const player = options.player?.toLowerCase();
+  return {
+    batchId,
+    entries: ranked.slice(0, options.limit),
+    player: player ? ranked.find(e => e.player.toLowerCase() === player) ?? null : null,
+  };
+}
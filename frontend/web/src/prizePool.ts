@@ -0,0 +1,129 @@
+// prizePool.ts
+import { ethers } from "ethers";
+import { getContractDeployment, getTestnetProvider } from "./contract";
+import { getGachaAddress } from "./gachaContract";
+
+export interface PrizePoolSnapshot {
+  blockNumber: number;
+  // Ether held by the game contract plus what its prize strategy holds, yield included
+  balance: number;
+  // Annualised from the vault's share price, null when no vault is deployed or it has no history yet
+  apy: number | null;
+}
+
+// Optional ERC-4626 vault the prize strategy invests in, looked up in the deployment manifest
+export const PRIZE_VAULT_CONTRACT = "PrizeVault";
+
+const ERC4626_ABI = [
+  "function decimals() view returns (uint8)",
+  "function convertToAssets(uint256 shares) view returns (uint256)",
+];
+
+const GACHA_STRATEGY_ABI = ["function strategy() view returns (address)"];
+const PRIZE_STRATEGY_ABI = ["function totalAssets() view returns (uint256)"];
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// About 7 days, 1 day and 25 minutes of Sepolia blocks; shorter windows are tried when the RPC has pruned older state
+const APY_LOOKBACK_BLOCKS = [50_400, 7_200, 128];
+
+async function readSharePrice(vault: ethers.Contract, oneShare: bigint, blockTag: number): Promise<bigint> {
+  return vault.convertToAssets(oneShare, { blockTag });
+}
+
+// Compounds the share price growth between two blocks over a year
+async function readVaultApy(
+  provider: ethers.Provider,
+  vault: ethers.Contract,
+  vaultDeploymentBlock: number,
+  blockNumber: number
+): Promise<number | null> {
+  const oneShare = 10n ** BigInt(await vault.decimals());
+  const latestPrice = await readSharePrice(vault, oneShare, blockNumber);
+  const latestBlock = await provider.getBlock(blockNumber);
+  if (!latestBlock) return null;
+
+  for (const lookback of APY_LOOKBACK_BLOCKS) {
+    const fromBlock = Math.max(blockNumber - lookback, vaultDeploymentBlock);
+    if (fromBlock >= blockNumber) return null;
+    try {
+      const [fromPrice, block] = await Promise.all([
+        readSharePrice(vault, oneShare, fromBlock),
+        provider.getBlock(fromBlock),
+      ]);
+      const elapsed = latestBlock.timestamp - (block?.timestamp ?? latestBlock.timestamp);
+      if (fromPrice === 0n || elapsed <= 0) return null;
+      const growth = Number((latestPrice * oneShare) / fromPrice) / Number(oneShare);
+      return (Math.pow(growth, SECONDS_PER_YEAR / elapsed) - 1) * 100;
+    } catch (e) {
+      console.warn(`Share price at block ${fromBlock} unavailable:`, e);
+    }
+  }
+  return null;
+}
+
+async function readPrizePool(
+  provider: ethers.Provider,
+  gachaAddress: string,
+  chainId: number,
+  blockNumber: number
+): Promise<PrizePoolSnapshot> {
+  let balance = await provider.getBalance(gachaAddress, blockNumber);
+  let apy: number | null = null;
+
+  const gacha = new ethers.Contract(gachaAddress, GACHA_STRATEGY_ABI, provider);
+  const strategyAddress: string = await gacha.strategy({ blockTag: blockNumber });
+  if (strategyAddress !== ethers.ZeroAddress) {
+    const strategy = new ethers.Contract(strategyAddress, PRIZE_STRATEGY_ABI, provider);
+    balance += await strategy.totalAssets({ blockTag: blockNumber });
+  }
+
+  const vaultDeployment = getContractDeployment(PRIZE_VAULT_CONTRACT, chainId);
+  if (vaultDeployment) {
+    const vault = new ethers.Contract(vaultDeployment.address, ERC4626_ABI, provider);
+    apy = await readVaultApy(provider, vault, vaultDeployment.deploymentBlock, blockNumber);
+  }
+
+  // Strategies invest wrapped ether, so their assets share the 18 decimals
+  return { blockNumber, balance: Number(ethers.formatEther(balance)), apy };
+}
+
+// Re-reads the pool on every new block and returns a function that stops listening
+export async function subscribePrizePool(
+  chainId: number,
+  onUpdate: (snapshot: PrizePoolSnapshot) => void
+): Promise<() => void> {
+  const gachaAddress = getGachaAddress(chainId);
+  if (!gachaAddress) {
+    return () => {};
+  }
+  const provider = await getTestnetProvider(chainId);
+
+  // Blocks arriving while a read is in flight are folded into the next read
+  let reading = false;
+  let pendingBlock: number | null = null;
+  const onBlock = async (blockNumber: number) => {
+    pendingBlock = blockNumber;
+    if (reading) return;
+    reading = true;
+    try {
+      while (pendingBlock !== null) {
+        const block = pendingBlock;
+        pendingBlock = null;
+        onUpdate(await readPrizePool(provider, gachaAddress, chainId, block));
+      }
+    } catch (e) {
+      console.error("Error reading prize pool:", e);
+    } finally {
+      reading = false;
+    }
+  };
+
+  await provider.on("block", onBlock);
+  onBlock(await provider.getBlockNumber());
+
+  return () => {
+    provider.off("block", onBlock);
+    provider.destroy();
+  };
+}
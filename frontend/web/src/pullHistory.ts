@@ -0,0 +1,149 @@
+// pullHistory.ts
+import { ethers } from "ethers";
+import { getContractDeployment, normAddr, retry } from "./contract";
+import type { GachaFiFHE } from "./gachaContract";
+
+export interface PullRecord {
+  pullId: number;
+  batchId: number;
+  bannerId: number;
+  player: string;
+  rarityHandle: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+  // Public once the player reveals the pull
+  rarity: number | null;
+  // Ether deposited into the batch, public once its prize pool is decrypted
+  batchPrizePool: number | null;
+  // Ether credited to the player by WinningsAccrued when the pull was revealed; null when nothing was credited
+  winnings: number | null;
+}
+
+interface PullHistory {
+  records: PullRecord[];
+  rarities: Map<number, number>;
+  batchPrizePools: Map<number, number>;
+  winnings: Map<number, number>;
+  // Banner of every batch opened so far; batches open before their first pull, so pulls always find theirs
+  batchBanners: Map<number, number>;
+  // First block not yet scanned, so a refresh only asks for new logs
+  nextBlock: number;
+}
+
+// Public RPCs cap the block range of eth_getLogs, so logs are fetched in windows of this size
+export const LOG_PAGE_SIZE = 5000;
+
+const histories = new Map<string, PullHistory>();
+const pendingLoads = new Map<string, Promise<PullRecord[]>>();
+const blockTimestamps = new Map<string, number>();
+
+const historyKey = (contractAddress: string, chainId: number) => `${chainId}:${normAddr(contractAddress)}`;
+
+const withOutcomes = (history: PullHistory) =>
+  history.records
+    .map(record => ({
+      ...record,
+      rarity: history.rarities.get(record.pullId) ?? null,
+      batchPrizePool: history.batchPrizePools.get(record.batchId) ?? null,
+      winnings: history.winnings.get(record.pullId) ?? null,
+    }))
+    .sort((a, b) => b.pullId - a.pullId);
+
+// Rebuilds pull history from BatchOpened, GachaSubmitted, PullRevealed, WinningsAccrued and DecryptionCompleted logs, scanning from the deployment block on the first
+// call and from the last scanned block afterwards. `onPage` receives the history after each window.
+export async function loadPullHistory(
+  gacha: GachaFiFHE,
+  chainId: number,
+  onPage?: (records: PullRecord[]) => void
+): Promise<PullRecord[]> {
+  const contractAddress = await gacha.getAddress();
+  const key = historyKey(contractAddress, chainId);
+  let pending = pendingLoads.get(key);
+  if (!pending) {
+    pending = scanNewPulls(gacha, contractAddress, chainId, key, onPage).finally(() => pendingLoads.delete(key));
+    pendingLoads.set(key, pending);
+  }
+  return pending;
+}
+
+async function scanNewPulls(
+  gacha: GachaFiFHE,
+  contractAddress: string,
+  chainId: number,
+  key: string,
+  onPage?: (records: PullRecord[]) => void
+): Promise<PullRecord[]> {
+  const provider = gacha.runner?.provider;
+  if (!provider) throw new Error("GachaFiFHE is not connected to a provider");
+
+  const history: PullHistory = histories.get(key) ?? {
+    records: [],
+    rarities: new Map(),
+    batchPrizePools: new Map(),
+    winnings: new Map(),
+    batchBanners: new Map(),
+    nextBlock: getContractDeployment("GachaFiFHE", chainId)?.deploymentBlock ?? 0,
+  };
+  histories.set(key, history);
+
+  const topics = (["BatchOpened", "GachaSubmitted", "PullRevealed", "WinningsAccrued", "DecryptionCompleted"] as const).map(
+    name => gacha.interface.getEvent(name)!.topicHash
+  );
+  const latestBlock = await retry(() => provider.getBlockNumber());
+  while (history.nextBlock <= latestBlock) {
+    const fromBlock = history.nextBlock;
+    const toBlock = Math.min(fromBlock + LOG_PAGE_SIZE - 1, latestBlock);
+    const logs = await retry(() =>
+      provider.getLogs({ address: contractAddress, topics: [topics], fromBlock, toBlock })
+    );
+
+    for (const log of logs) {
+      const event = gacha.interface.parseLog(log);
+      if (event?.name === "BatchOpened") {
+        history.batchBanners.set(Number(event.args.batchId), Number(event.args.bannerId));
+        continue;
+      }
+      if (event?.name === "PullRevealed") {
+        history.rarities.set(Number(event.args.pullId), Number(event.args.rarity));
+        continue;
+      }
+      if (event?.name === "WinningsAccrued") {
+        history.winnings.set(Number(event.args.pullId), Number(ethers.formatEther(event.args.amount)));
+        continue;
+      }
+      if (event?.name === "DecryptionCompleted") {
+        history.batchPrizePools.set(Number(event.args.batchId), Number(ethers.formatEther(event.args.totalPrizePool)));
+        continue;
+      }
+      if (event?.name !== "GachaSubmitted") continue;
+
+      const cacheKey = `${chainId}:${log.blockNumber}`;
+      let timestamp = blockTimestamps.get(cacheKey);
+      if (timestamp === undefined) {
+        const block = await retry(() => provider.getBlock(log.blockNumber));
+        timestamp = block?.timestamp ?? 0;
+        blockTimestamps.set(cacheKey, timestamp);
+      }
+      const batchId = Number(event.args.batchId);
+      history.records.push({
+        pullId: Number(event.args.pullId),
+        batchId,
+        bannerId: history.batchBanners.get(batchId) ?? 0,
+        player: event.args.player,
+        rarityHandle: event.args.rarityHandle,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        timestamp,
+        rarity: null,
+        batchPrizePool: null,
+        winnings: null,
+      });
+    }
+
+    history.nextBlock = toBlock + 1;
+    onPage?.(withOutcomes(history));
+  }
+
+  return withOutcomes(history);
+}
@@ -0,0 +1,21 @@
+// rarity.ts
+// Outcome rules for a revealed rarity tier, shared by the app and the indexer.
+import { ECONOMY, EconomyTier } from "./economy";
+
+export type RarityTier = EconomyTier;
+
+// Rarest first, for ranking displays
+export const RARITY_TIERS: RarityTier[] = [...ECONOMY.tiers].reverse();
+
+// Tiers that pay out a share of the pool
+export const WINNING_TIER_IDS: number[] = ECONOMY.tiers.filter(tier => tier.payoutPercent > 0).map(tier => tier.id);
+
+export function getRarityTier(tier: number): RarityTier {
+  const found = ECONOMY.tiers[tier];
+  if (!found) throw new Error(`Unknown rarity tier ${tier}`);
+  return found;
+}
+
+export function isWinningTier(tier: number): boolean {
+  return getRarityTier(tier).payoutPercent > 0;
+}
@@ -0,0 +1,40 @@
+// rewards.ts
+import { GachaRewards__factory } from "../../../types";
+import type { GachaRewards } from "../../../types";
+import { DEFAULT_CHAIN_ID, getContractDeployment, getTestnetProvider, retry } from "./contract";
+
+export interface RewardToken {
+  tokenId: number;
+  pullId: number;
+  // Rarity tier of the won pull, decryptable by the token's holder
+  rarityHandle: string;
+}
+
+export function getRewardsAddress(chainId: number = DEFAULT_CHAIN_ID): string | null {
+  return getContractDeployment("GachaRewards", chainId)?.address ?? null;
+}
+
+async function getRewardsReadOnly(chainId: number): Promise<GachaRewards | null> {
+  const address = getRewardsAddress(chainId);
+  if (!address) return null;
+  return GachaRewards__factory.connect(address, await getTestnetProvider(chainId));
+}
+
+// Reward tokens held by `owner`, newest first
+export async function loadRewardInventory(owner: string, chainId: number = DEFAULT_CHAIN_ID): Promise<RewardToken[]> {
+  const rewards = await getRewardsReadOnly(chainId);
+  if (!rewards) return [];
+
+  const balance = Number(await retry(() => rewards.balanceOf(owner)));
+  const tokens = await Promise.all(
+    Array.from({ length: balance }, async (_, index) => {
+      const tokenId = await retry(() => rewards.tokenOfOwnerByIndex(owner, index));
+      const [pullId, rarityHandle] = await Promise.all([
+        retry(() => rewards.tokenPull(tokenId)),
+        retry(() => rewards.encryptedTokenRarity(tokenId)),
+      ]);
+      return { tokenId: Number(tokenId), pullId: Number(pullId), rarityHandle };
+    })
+  );
+  return tokens.sort((a, b) => b.tokenId - a.tokenId);
+}
@@ -0,0 +1,15 @@
+// roles.ts
+// GachaFiFHE.Role values, shared by the app, the indexer, tasks and tests so role ids are defined once.
+
+// Indexed as the contract enum, so a name's position is its on-chain id
+export const ROLE_NAMES = ["Admin", "Operator", "Treasurer", "Pauser"] as const;
+
+export type RoleName = (typeof ROLE_NAMES)[number];
+
+export const ROLE = Object.fromEntries(ROLE_NAMES.map((name, id) => [name, id])) as Record<RoleName, number>;
+
+export function roleName(role: number): RoleName {
+  const name = ROLE_NAMES[role];
+  if (!name) throw new Error(`Unknown role ${role}`);
+  return name;
+}
@@ -0,0 +1,22 @@
+// timelock.ts
+// GachaFiFHE.Param values for the economic parameters and prize strategy, which only change through
+// the timelock.
+
+// Indexed as the contract enum, so a name's position is its on-chain id
+export const PARAM_NAMES = ["CooldownSeconds", "PullPrice", "TimelockDelay", "DrawCap", "Strategy"] as const;
+
+export type ParamName = (typeof PARAM_NAMES)[number];
+
+export const PARAM = Object.fromEntries(PARAM_NAMES.map((name, id) => [name, id])) as Record<ParamName, number>;
+
+export interface PendingChange {
+  changeId: number;
+  param: ParamName;
+  // Only meaningful for PullPrice and DrawCap
+  bannerId: number;
+  // Seconds, wei per draw for PullPrice, draws per player for DrawCap (0 lifts the cap), or the
+  // strategy address as an integer for Strategy (0 keeps the pool in GachaFiFHE)
+  value: bigint;
+  // Unix seconds from which anyone may execute the change
+  executableAt: number;
+}
@@ -3,6 +3,10 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // The typechain bindings under ../../types import ethers from outside this package
+    dedupe: ['ethers']
+  },
   define: {
     'process.env': process.env
   },
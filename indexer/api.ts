@@ -0,0 +1,182 @@
+import { ethers } from "ethers";
+import * as http from "http";
+import {
+  buildLeaderboard,
+  LEADERBOARD_SORTS,
+  LEADERBOARD_WINDOWS,
+} from "../frontend/web/src/leaderboard";
+import type {
+  LeaderboardSort,
+  LeaderboardWindow,
+} from "../frontend/web/src/leaderboard";
+import type { IndexerDb } from "./db";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+class BadRequestError extends Error {}
+
+function intParam(
+  params: URLSearchParams,
+  name: string,
+  fallback: number,
+  max = Number.MAX_SAFE_INTEGER,
+): number {
+  const raw = params.get(name);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    throw new BadRequestError(
+      `${name} must be an integer between 0 and ${max}`,
+    );
+  }
+  return value;
+}
+
+function addressParam(raw: string): string {
+  if (!ethers.isAddress(raw)) {
+    throw new BadRequestError(`Invalid address: ${raw}`);
+  }
+  return ethers.getAddress(raw);
+}
+
+function enumParam<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  values: T[],
+  fallback: T,
+): T {
+  const raw = params.get(name);
+  if (raw === null) return fallback;
+  if (!values.includes(raw as T)) {
+    throw new BadRequestError(`${name} must be one of ${values.join(", ")}`);
+  }
+  return raw as T;
+}
+
+function paging(params: URLSearchParams) {
+  return {
+    limit: intParam(params, "limit", DEFAULT_LIMIT, MAX_LIMIT),
+    offset: intParam(params, "offset", 0),
+  };
+}
+
+function route(db: IndexerDb, url: URL): unknown {
+  const params = url.searchParams;
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  switch (parts[0]) {
+    case "stats":
+      return db.getStats();
+    case "pulls": {
+      const { limit, offset } = paging(params);
+      const player = params.get("player");
+      const batchId = params.get("batchId");
+      const bannerId = params.get("bannerId");
+      return db.getPulls(
+        {
+          player: player === null ? undefined : addressParam(player),
+          batchId:
+            batchId === null ? undefined : intParam(params, "batchId", 0),
+          bannerId:
+            bannerId === null ? undefined : intParam(params, "bannerId", 0),
+        },
+        limit,
+        offset,
+      );
+    }
+    case "players":
+      if (parts.length === 3 && parts[2] === "pulls") {
+        const { limit, offset } = paging(params);
+        return db.getPulls({ player: addressParam(parts[1]) }, limit, offset);
+      }
+      return undefined;
+    case "batches": {
+      if (parts.length === 1) {
+        const { limit, offset } = paging(params);
+        return { batches: db.getBatches(limit, offset) };
+      }
+      const batchId = Number(parts[1]);
+      if (!Number.isInteger(batchId)) {
+        throw new BadRequestError(`Invalid batch id: ${parts[1]}`);
+      }
+      return db.getBatch(batchId);
+    }
+    case "leaderboard": {
+      const player = params.get("player");
+      const batchId = params.get("batchId");
+      return buildLeaderboard(db.getPullOutcomes(), {
+        sortBy: enumParam<LeaderboardSort>(
+          params,
+          "sortBy",
+          LEADERBOARD_SORTS,
+          "wins",
+        ),
+        window: enumParam<LeaderboardWindow>(
+          params,
+          "window",
+          LEADERBOARD_WINDOWS,
+          "all",
+        ),
+        // Weeks are measured in chain time, up to the newest indexed block
+        now: db.getLatestBlockTimestamp() ?? Math.floor(Date.now() / 1000),
+        batchId: batchId === null ? undefined : intParam(params, "batchId", 0),
+        limit: intParam(params, "limit", 10, MAX_LIMIT),
+        player: player === null ? undefined : addressParam(player),
+      });
+    }
+    case "adapter-records": {
+      const { limit, offset } = paging(params);
+      return {
+        records: db.getAdapterRecords(
+          params.get("key") ?? undefined,
+          limit,
+          offset,
+        ),
+      };
+    }
+    case "admin-events": {
+      const { limit, offset } = paging(params);
+      return { events: db.getAdminEvents(limit, offset) };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Read-only JSON API over the indexed data. Every route answers GET with JSON and allows any
+ * origin, since the frontend is served from a different port.
+ */
+export function createApiServer(db: IndexerDb): http.Server {
+  return http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+      });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== "GET") {
+      send(405, { error: "Method not allowed" });
+      return;
+    }
+
+    try {
+      const body = route(db, new URL(req.url ?? "/", "http://localhost"));
+      if (body === undefined) {
+        send(404, { error: "Not found" });
+      } else {
+        send(200, body);
+      }
+    } catch (e) {
+      if (e instanceof BadRequestError) {
+        send(400, { error: e.message });
+      } else {
+        console.error("Indexer API error:", e);
+        send(500, { error: "Internal error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,69 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { DeploymentManifest } from "../frontend/web/src/deployments";
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  dbPath: string;
+  port: number;
+  // Blocks kept between the chain head and the indexed tip so shallow reorgs never reach the database
+  confirmations: number;
+  pollIntervalMs: number;
+  // Block range of a single eth_getLogs call
+  pageSize: number;
+}
+
+export interface IndexedContracts {
+  gachaAddress: string;
+  universalAdapterAddress?: string;
+  startBlock: number;
+}
+
+const MANIFEST_PATH = path.join(
+  __dirname,
+  "../frontend/web/src/deployments.json",
+);
+
+function intFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+export function loadConfig(): IndexerConfig {
+  return {
+    rpcUrl: process.env.INDEXER_RPC_URL ?? "http://127.0.0.1:8545",
+    dbPath:
+      process.env.INDEXER_DB_PATH ??
+      path.join(__dirname, "data/gachafi.sqlite"),
+    port: intFromEnv("INDEXER_PORT", 8787),
+    confirmations: intFromEnv("INDEXER_CONFIRMATIONS", 6),
+    pollIntervalMs: intFromEnv("INDEXER_POLL_INTERVAL_MS", 4000),
+    pageSize: intFromEnv("INDEXER_PAGE_SIZE", 2000),
+  };
+}
+
+// Addresses come from the deployment manifest for the RPC's chain unless overridden in the environment
+export function resolveContracts(chainId: number): IndexedContracts {
+  const manifest: DeploymentManifest = fs.existsSync(MANIFEST_PATH)
+    ? JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf8"))
+    : {};
+  const gacha = manifest[chainId]?.contracts.GachaFiFHE;
+
+  const gachaAddress = process.env.GACHA_ADDRESS ?? gacha?.address;
+  if (!gachaAddress) {
+    throw new Error(
+      `No GachaFiFHE deployment for chain ${chainId}; deploy it or set GACHA_ADDRESS`,
+    );
+  }
+
+  return {
+    gachaAddress,
+    universalAdapterAddress: process.env.UNIVERSAL_ADAPTER_ADDRESS || undefined,
+    startBlock: intFromEnv("INDEXER_START_BLOCK", gacha?.deploymentBlock ?? 0),
+  };
+}
@@ -0,0 +1,558 @@
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+import type { PullOutcome } from "../frontend/web/src/leaderboard";
+import { WINNING_TIER_IDS } from "../frontend/web/src/rarity";
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface PullRow {
+  pullId: number;
+  batchId: number;
+  bannerId: number;
+  player: string;
+  rarityHandle: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+  rarity: number | null;
+  // Ether deposited into the pull's batch, known once the batch is decrypted
+  batchPrizePool: number | null;
+  // Ether credited to the player when the pull was revealed, if it won anything
+  winnings: number | null;
+}
+
+export interface BatchRow {
+  batchId: number;
+  bannerId: number;
+  openedAt: number;
+  closedAt: number | null;
+  pulls: number;
+  players: number;
+  totalPrizePool: number | null;
+  decryptedAt: number | null;
+}
+
+export interface AdapterRecordRow {
+  blockNumber: number;
+  sender: string;
+  key: string;
+  value: string;
+  timestamp: number;
+}
+
+export type AdminEventName =
+  | "RoleGranted"
+  | "RoleRevoked"
+  | "OwnershipTransferStarted"
+  | "OwnershipTransferred";
+
+export interface AdminEventRow {
+  blockNumber: number;
+  transactionHash: string;
+  event: AdminEventName;
+  // GachaFiFHE.Role id; null for ownership events
+  role: number | null;
+  // Role holder, or the proposed or new owner
+  account: string;
+  // Who made the change: the granting owner, a renouncing holder, or the previous owner
+  sender: string;
+  timestamp: number;
+}
+
+export interface Stats {
+  chainId: number | null;
+  lastBlock: number | null;
+  players: number;
+  pulls: number;
+  wins: number;
+  batches: number;
+  decryptedBatches: number;
+}
+
+// Every indexed event, in log order, as the indexer hands it to the database
+export type IndexedEvent =
+  | {
+      kind: "BatchOpened";
+      block: IndexedBlock;
+      batchId: number;
+      bannerId: number;
+    }
+  | { kind: "BatchClosed"; block: IndexedBlock; batchId: number }
+  | {
+      kind: "GachaSubmitted";
+      block: IndexedBlock;
+      logIndex: number;
+      transactionHash: string;
+      player: string;
+      batchId: number;
+      pullId: number;
+      rarityHandle: string;
+    }
+  | {
+      kind: "DecryptionRequested";
+      block: IndexedBlock;
+      requestId: string;
+      batchId: number;
+    }
+  | {
+      kind: "DecryptionCompleted";
+      block: IndexedBlock;
+      requestId: string;
+      totalPrizePool: number;
+    }
+  | {
+      kind: "PullRevealed";
+      block: IndexedBlock;
+      pullId: number;
+      rarity: number;
+    }
+  | {
+      kind: "WinningsAccrued";
+      block: IndexedBlock;
+      pullId: number;
+      amount: number;
+    }
+  | {
+      kind: "AdminChange";
+      block: IndexedBlock;
+      logIndex: number;
+      transactionHash: string;
+      event: AdminEventName;
+      role: number | null;
+      account: string;
+      sender: string;
+    }
+  | {
+      kind: "DataStored";
+      block: IndexedBlock;
+      logIndex: number;
+      sender: string;
+      key: string;
+      value: string;
+    };
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS players (
+  address TEXT PRIMARY KEY,
+  first_block INTEGER NOT NULL,
+  first_seen_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS batches (
+  batch_id INTEGER PRIMARY KEY,
+  banner_id INTEGER NOT NULL,
+  opened_block INTEGER NOT NULL,
+  opened_at INTEGER NOT NULL,
+  closed_block INTEGER,
+  closed_at INTEGER
+);
+CREATE TABLE IF NOT EXISTS pulls (
+  pull_id INTEGER PRIMARY KEY,
+  batch_id INTEGER NOT NULL,
+  player TEXT NOT NULL,
+  rarity_handle TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS pulls_by_player ON pulls (player, pull_id);
+CREATE INDEX IF NOT EXISTS pulls_by_batch ON pulls (batch_id);
+CREATE TABLE IF NOT EXISTS reveals (
+  pull_id INTEGER PRIMARY KEY,
+  rarity INTEGER NOT NULL,
+  block_number INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS winnings (
+  pull_id INTEGER PRIMARY KEY,
+  amount REAL NOT NULL,
+  block_number INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS decryptions (
+  request_id TEXT PRIMARY KEY,
+  batch_id INTEGER NOT NULL,
+  requested_block INTEGER NOT NULL,
+  requested_at INTEGER NOT NULL,
+  total_prize_pool REAL,
+  completed_block INTEGER,
+  completed_at INTEGER
+);
+CREATE TABLE IF NOT EXISTS adapter_records (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  sender TEXT NOT NULL,
+  key TEXT NOT NULL,
+  value TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS admin_events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  event TEXT NOT NULL,
+  role INTEGER,
+  account TEXT NOT NULL,
+  sender TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+`;
+
+const BATCH_PRIZE_POOL = `
+  (SELECT d.total_prize_pool FROM decryptions d
+    WHERE d.batch_id = p.batch_id AND d.completed_block IS NOT NULL
+    ORDER BY d.completed_block DESC LIMIT 1)`;
+
+const PULL_QUERY = `
+  SELECT p.pull_id AS pullId, p.batch_id AS batchId, b.banner_id AS bannerId, p.player,
+    p.rarity_handle AS rarityHandle, p.block_number AS blockNumber,
+    p.tx_hash AS transactionHash, p.timestamp, r.rarity,
+    ${BATCH_PRIZE_POOL} AS batchPrizePool, w.amount AS winnings
+  FROM pulls p LEFT JOIN reveals r ON r.pull_id = p.pull_id
+    LEFT JOIN winnings w ON w.pull_id = p.pull_id
+    LEFT JOIN batches b ON b.batch_id = p.batch_id`;
+
+const BATCH_QUERY = `
+  SELECT b.batch_id AS batchId, b.banner_id AS bannerId, b.opened_at AS openedAt, b.closed_at AS closedAt,
+    COUNT(p.pull_id) AS pulls,
+    COUNT(DISTINCT p.player) AS players,
+    (SELECT d.total_prize_pool FROM decryptions d
+      WHERE d.batch_id = b.batch_id AND d.completed_block IS NOT NULL
+      ORDER BY d.completed_block DESC LIMIT 1) AS totalPrizePool,
+    (SELECT d.completed_at FROM decryptions d
+      WHERE d.batch_id = b.batch_id AND d.completed_block IS NOT NULL
+      ORDER BY d.completed_block DESC LIMIT 1) AS decryptedAt
+  FROM batches b LEFT JOIN pulls p ON p.batch_id = b.batch_id`;
+
+/**
+ * SQLite store for indexed GachaFiFHE and UniversalAdapter events. Rows carry the block
+ * they came from so everything past a reorged block can be dropped and re-indexed.
+ */
+export class IndexerDb {
+  private readonly db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // Refuses to mix chains in one database file
+  bindChain(chainId: number) {
+    const stored = this.getMeta("chain_id");
+    if (stored === undefined) {
+      this.setMeta("chain_id", String(chainId));
+    } else if (Number(stored) !== chainId) {
+      throw new Error(
+        `Database was indexed from chain ${stored}, but the RPC is on chain ${chainId}`,
+      );
+    }
+  }
+
+  getLastBlock(): number | null {
+    const value = this.getMeta("last_block");
+    return value === undefined ? null : Number(value);
+  }
+
+  // Newest first, for walking back to the common ancestor after a reorg
+  getRecentBlocks(limit: number): IndexedBlock[] {
+    return this.db
+      .prepare(
+        "SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT ?",
+      )
+      .all(limit) as IndexedBlock[];
+  }
+
+  // Applies one page of events and advances the cursor to `tip` atomically
+  applyRange(events: IndexedEvent[], tip: IndexedBlock) {
+    this.db.transaction(() => {
+      for (const event of events) {
+        this.saveBlock(event.block);
+        this.applyEvent(event);
+      }
+      this.saveBlock(tip);
+      this.setMeta("last_block", String(tip.number));
+    })();
+  }
+
+  // Drops everything indexed after `blockNumber`
+  rollbackTo(blockNumber: number) {
+    this.db.transaction(() => {
+      const run = (sql: string) => this.db.prepare(sql).run(blockNumber);
+      run("DELETE FROM pulls WHERE block_number > ?");
+      run("DELETE FROM reveals WHERE block_number > ?");
+      run("DELETE FROM winnings WHERE block_number > ?");
+      run("DELETE FROM players WHERE first_block > ?");
+      run("DELETE FROM batches WHERE opened_block > ?");
+      run(
+        "UPDATE batches SET closed_block = NULL, closed_at = NULL WHERE closed_block > ?",
+      );
+      run("DELETE FROM decryptions WHERE requested_block > ?");
+      run(
+        "UPDATE decryptions SET total_prize_pool = NULL, completed_block = NULL, completed_at = NULL WHERE completed_block > ?",
+      );
+      run("DELETE FROM adapter_records WHERE block_number > ?");
+      run("DELETE FROM admin_events WHERE block_number > ?");
+      run("DELETE FROM blocks WHERE number > ?");
+      this.setMeta("last_block", String(blockNumber));
+    })();
+  }
+
+  getPulls(
+    filter: { player?: string; batchId?: number; bannerId?: number },
+    limit: number,
+    offset: number,
+  ): { pulls: PullRow[]; total: number } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.player !== undefined) {
+      conditions.push("p.player = ?");
+      params.push(filter.player);
+    }
+    if (filter.batchId !== undefined) {
+      conditions.push("p.batch_id = ?");
+      params.push(filter.batchId);
+    }
+    if (filter.bannerId !== undefined) {
+      conditions.push("b.banner_id = ?");
+      params.push(filter.bannerId);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const pulls = this.db
+      .prepare(
+        `${PULL_QUERY} ${where} ORDER BY p.pull_id DESC LIMIT ? OFFSET ?`,
+      )
+      .all(...params, limit, offset) as PullRow[];
+    const { total } = this.db
+      .prepare(
+        `SELECT COUNT(*) AS total FROM pulls p LEFT JOIN batches b ON b.batch_id = p.batch_id ${where}`,
+      )
+      .get(...params) as { total: number };
+    return { pulls, total };
+  }
+
+  getBatches(limit: number, offset: number): BatchRow[] {
+    return this.db
+      .prepare(
+        `${BATCH_QUERY} GROUP BY b.batch_id ORDER BY b.batch_id DESC LIMIT ? OFFSET ?`,
+      )
+      .all(limit, offset) as BatchRow[];
+  }
+
+  getBatch(batchId: number): BatchRow | undefined {
+    return this.db
+      .prepare(`${BATCH_QUERY} WHERE b.batch_id = ? GROUP BY b.batch_id`)
+      .get(batchId) as BatchRow | undefined;
+  }
+
+  // Every pull with whatever outcome data is public so far, for leaderboard ranking
+  getPullOutcomes(): PullOutcome[] {
+    return this.db
+      .prepare(
+        `SELECT p.player, p.batch_id AS batchId, p.timestamp, r.rarity, w.amount AS winnings
+         FROM pulls p LEFT JOIN reveals r ON r.pull_id = p.pull_id
+           LEFT JOIN winnings w ON w.pull_id = p.pull_id`,
+      )
+      .all() as PullOutcome[];
+  }
+
+  getLatestBlockTimestamp(): number | null {
+    const row = this.db
+      .prepare("SELECT timestamp FROM blocks ORDER BY number DESC LIMIT 1")
+      .get() as { timestamp: number } | undefined;
+    return row?.timestamp ?? null;
+  }
+
+  getAdapterRecords(
+    key: string | undefined,
+    limit: number,
+    offset: number,
+  ): AdapterRecordRow[] {
+    const where = key === undefined ? "" : "WHERE key = ?";
+    return this.db
+      .prepare(
+        `SELECT block_number AS blockNumber, sender, key, value, timestamp FROM adapter_records
+         ${where} ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`,
+      )
+      .all(
+        ...(key === undefined ? [] : [key]),
+        limit,
+        offset,
+      ) as AdapterRecordRow[];
+  }
+
+  // Role and ownership changes, newest first
+  getAdminEvents(limit: number, offset: number): AdminEventRow[] {
+    return this.db
+      .prepare(
+        `SELECT block_number AS blockNumber, tx_hash AS transactionHash, event, role, account, sender, timestamp
+         FROM admin_events ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`,
+      )
+      .all(limit, offset) as AdminEventRow[];
+  }
+
+  getStats(): Stats {
+    const count = (sql: string) =>
+      (this.db.prepare(sql).get() as { n: number }).n;
+    const chainId = this.getMeta("chain_id");
+    return {
+      chainId: chainId === undefined ? null : Number(chainId),
+      lastBlock: this.getLastBlock(),
+      players: count("SELECT COUNT(*) AS n FROM players"),
+      pulls: count("SELECT COUNT(*) AS n FROM pulls"),
+      wins: count(
+        `SELECT COUNT(*) AS n FROM reveals WHERE rarity IN (${WINNING_TIER_IDS.join(", ")})`,
+      ),
+      batches: count("SELECT COUNT(*) AS n FROM batches"),
+      decryptedBatches: count(
+        "SELECT COUNT(DISTINCT batch_id) AS n FROM decryptions WHERE completed_block IS NOT NULL",
+      ),
+    };
+  }
+
+  private applyEvent(event: IndexedEvent) {
+    const { number, timestamp } = event.block;
+    switch (event.kind) {
+      case "BatchOpened":
+        this.db
+          .prepare(
+            "INSERT OR REPLACE INTO batches (batch_id, banner_id, opened_block, opened_at) VALUES (?, ?, ?, ?)",
+          )
+          .run(event.batchId, event.bannerId, number, timestamp);
+        break;
+      case "BatchClosed":
+        this.db
+          .prepare(
+            "UPDATE batches SET closed_block = ?, closed_at = ? WHERE batch_id = ?",
+          )
+          .run(number, timestamp, event.batchId);
+        break;
+      case "GachaSubmitted":
+        this.db
+          .prepare(
+            "INSERT OR IGNORE INTO players (address, first_block, first_seen_at) VALUES (?, ?, ?)",
+          )
+          .run(event.player, number, timestamp);
+        this.db
+          .prepare(
+            `INSERT OR REPLACE INTO pulls (pull_id, batch_id, player, rarity_handle,
+               block_number, log_index, tx_hash, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          )
+          .run(
+            event.pullId,
+            event.batchId,
+            event.player,
+            event.rarityHandle,
+            number,
+            event.logIndex,
+            event.transactionHash,
+            timestamp,
+          );
+        break;
+      case "DecryptionRequested":
+        this.db
+          .prepare(
+            "INSERT OR REPLACE INTO decryptions (request_id, batch_id, requested_block, requested_at) VALUES (?, ?, ?, ?)",
+          )
+          .run(event.requestId, event.batchId, number, timestamp);
+        break;
+      case "DecryptionCompleted":
+        this.db
+          .prepare(
+            "UPDATE decryptions SET total_prize_pool = ?, completed_block = ?, completed_at = ? WHERE request_id = ?",
+          )
+          .run(event.totalPrizePool, number, timestamp, event.requestId);
+        break;
+      case "PullRevealed":
+        this.db
+          .prepare(
+            "INSERT OR REPLACE INTO reveals (pull_id, rarity, block_number, timestamp) VALUES (?, ?, ?, ?)",
+          )
+          .run(event.pullId, event.rarity, number, timestamp);
+        break;
+      case "WinningsAccrued":
+        this.db
+          .prepare(
+            "INSERT OR REPLACE INTO winnings (pull_id, amount, block_number, timestamp) VALUES (?, ?, ?, ?)",
+          )
+          .run(event.pullId, event.amount, number, timestamp);
+        break;
+      case "AdminChange":
+        this.db
+          .prepare(
+            `INSERT OR REPLACE INTO admin_events (block_number, log_index, tx_hash, event, role, account, sender, timestamp)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          )
+          .run(
+            number,
+            event.logIndex,
+            event.transactionHash,
+            event.event,
+            event.role,
+            event.account,
+            event.sender,
+            timestamp,
+          );
+        break;
+      case "DataStored":
+        this.db
+          .prepare(
+            "INSERT OR REPLACE INTO adapter_records (block_number, log_index, sender, key, value, timestamp) VALUES (?, ?, ?, ?, ?, ?)",
+          )
+          .run(
+            number,
+            event.logIndex,
+            event.sender,
+            event.key,
+            event.value,
+            timestamp,
+          );
+        break;
+    }
+  }
+
+  private saveBlock(block: IndexedBlock) {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)",
+      )
+      .run(block.number, block.hash, block.timestamp);
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = ?")
+      .get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  private setMeta(key: string, value: string) {
+    this.db
+      .prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)")
+      .run(key, value);
+  }
+}
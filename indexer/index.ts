@@ -0,0 +1,57 @@
+import * as dotenv from "dotenv";
+import { ethers } from "ethers";
+import { createApiServer } from "./api";
+import { loadConfig, resolveContracts } from "./config";
+import { IndexerDb } from "./db";
+import { GachaIndexer } from "./indexer";
+
+/**
+ * Runs the indexer and its API until interrupted.
+ *
+ * Example:
+ *   - npx hardhat node
+ *   - npx hardhat deploy --network localhost
+ *   - INDEXER_CONFIRMATIONS=0 npm run indexer
+ */
+async function main() {
+  dotenv.config({ quiet: true });
+  const config = loadConfig();
+
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const contracts = resolveContracts(chainId);
+
+  const db = new IndexerDb(config.dbPath);
+  db.bindChain(chainId);
+
+  const indexer = new GachaIndexer({
+    provider,
+    db,
+    ...contracts,
+    confirmations: config.confirmations,
+    pageSize: config.pageSize,
+  });
+  const server = createApiServer(db);
+
+  server.listen(config.port, () => {
+    console.log(
+      `Indexing GachaFiFHE ${contracts.gachaAddress} on chain ${chainId} into ${config.dbPath}`,
+    );
+    console.log(`API listening on http://localhost:${config.port}`);
+  });
+  indexer.start(config.pollIntervalMs);
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+    provider.destroy();
+    db.close();
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
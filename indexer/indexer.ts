@@ -0,0 +1,235 @@
+import { ethers } from "ethers";
+import type { Log, Provider } from "ethers";
+import { GachaFiFHE__factory } from "../types";
+import type { IndexedBlock, IndexedEvent, IndexerDb } from "./db";
+
+// UniversalAdapter predates this repo, so only the event the indexer follows is declared here
+const UNIVERSAL_ADAPTER_EVENTS = new ethers.Interface([
+  "event DataStored(address indexed sender, string key, bytes value)",
+]);
+
+// Stored blocks checked against the chain when looking for the last common ancestor
+const REORG_SEARCH_DEPTH = 256;
+
+export interface GachaIndexerOptions {
+  provider: Provider;
+  db: IndexerDb;
+  gachaAddress: string;
+  universalAdapterAddress?: string;
+  startBlock: number;
+  confirmations: number;
+  pageSize: number;
+}
+
+/**
+ * Follows GachaFiFHE (and optionally UniversalAdapter) logs up to `confirmations` blocks
+ * behind the head. Before each sync the last indexed block hash is compared with the chain,
+ * and on a mismatch the database is rolled back to the newest block both still agree on.
+ */
+export class GachaIndexer {
+  private readonly gachaInterface = GachaFiFHE__factory.createInterface();
+  private readonly gachaAddress: string;
+  private readonly universalAdapterAddress?: string;
+  private timer?: NodeJS.Timeout;
+  private syncing?: Promise<number | null>;
+
+  constructor(private readonly options: GachaIndexerOptions) {
+    this.gachaAddress = ethers.getAddress(options.gachaAddress);
+    this.universalAdapterAddress = options.universalAdapterAddress
+      ? ethers.getAddress(options.universalAdapterAddress)
+      : undefined;
+  }
+
+  // Indexes every confirmed block not stored yet and returns the new tip
+  sync(): Promise<number | null> {
+    if (!this.syncing) {
+      this.syncing = this.syncOnce().finally(() => (this.syncing = undefined));
+    }
+    return this.syncing;
+  }
+
+  start(pollIntervalMs: number) {
+    const tick = () => {
+      this.sync()
+        .catch((e) => console.error("Indexer sync failed:", e))
+        .finally(() => {
+          if (this.timer) this.timer = setTimeout(tick, pollIntervalMs);
+        });
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private async syncOnce(): Promise<number | null> {
+    const { provider, db, confirmations, pageSize, startBlock } = this.options;
+
+    await this.rewindReorgedBlocks();
+
+    const target = (await provider.getBlockNumber()) - confirmations;
+    let fromBlock = (db.getLastBlock() ?? startBlock - 1) + 1;
+    while (fromBlock <= target) {
+      const toBlock = Math.min(fromBlock + pageSize - 1, target);
+      const logs = await provider.getLogs({
+        address: this.universalAdapterAddress
+          ? [this.gachaAddress, this.universalAdapterAddress]
+          : this.gachaAddress,
+        fromBlock,
+        toBlock,
+      });
+
+      const blocks = new Map<number, IndexedBlock>();
+      const events: IndexedEvent[] = [];
+      for (const log of [...logs].sort(
+        (a, b) => a.blockNumber - b.blockNumber || a.index - b.index,
+      )) {
+        let block = blocks.get(log.blockNumber);
+        if (!block) {
+          block = await this.getBlock(log.blockNumber);
+          blocks.set(log.blockNumber, block);
+        }
+        const event = this.decodeLog(log, block);
+        if (event) events.push(event);
+      }
+
+      const tip = blocks.get(toBlock) ?? (await this.getBlock(toBlock));
+      db.applyRange(events, tip);
+      fromBlock = toBlock + 1;
+    }
+
+    return db.getLastBlock();
+  }
+
+  private async rewindReorgedBlocks() {
+    const { db, startBlock } = this.options;
+    const stored = db.getRecentBlocks(REORG_SEARCH_DEPTH);
+    for (const block of stored) {
+      const onChain = await this.options.provider.getBlock(block.number);
+      if (onChain?.hash === block.hash) {
+        if (block.number !== db.getLastBlock()) {
+          console.warn(`Reorg detected, rolling back to block ${block.number}`);
+          db.rollbackTo(block.number);
+        }
+        return;
+      }
+    }
+    if (stored.length > 0) {
+      console.warn(
+        `Reorg deeper than ${REORG_SEARCH_DEPTH} blocks, re-indexing`,
+      );
+      db.rollbackTo(startBlock - 1);
+    }
+  }
+
+  private async getBlock(blockNumber: number): Promise<IndexedBlock> {
+    const block = await this.options.provider.getBlock(blockNumber);
+    if (!block?.hash) throw new Error(`Block ${blockNumber} is not available`);
+    return {
+      number: block.number,
+      hash: block.hash,
+      timestamp: block.timestamp,
+    };
+  }
+
+  private decodeLog(log: Log, block: IndexedBlock): IndexedEvent | null {
+    if (log.address === this.universalAdapterAddress) {
+      const parsed = UNIVERSAL_ADAPTER_EVENTS.parseLog(log);
+      if (parsed?.name !== "DataStored") return null;
+      return {
+        kind: "DataStored",
+        block,
+        logIndex: log.index,
+        sender: parsed.args.sender,
+        key: parsed.args.key,
+        value: parsed.args.value,
+      };
+    }
+
+    const parsed = this.gachaInterface.parseLog(log);
+    switch (parsed?.name) {
+      case "BatchOpened":
+        return {
+          kind: "BatchOpened",
+          block,
+          batchId: Number(parsed.args.batchId),
+          bannerId: Number(parsed.args.bannerId),
+        };
+      case "BatchClosed":
+        return {
+          kind: "BatchClosed",
+          block,
+          batchId: Number(parsed.args.batchId),
+        };
+      case "GachaSubmitted":
+        return {
+          kind: "GachaSubmitted",
+          block,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+          player: parsed.args.player,
+          batchId: Number(parsed.args.batchId),
+          pullId: Number(parsed.args.pullId),
+          rarityHandle: parsed.args.rarityHandle,
+        };
+      case "PullRevealed":
+        return {
+          kind: "PullRevealed",
+          block,
+          pullId: Number(parsed.args.pullId),
+          rarity: Number(parsed.args.rarity),
+        };
+      case "WinningsAccrued":
+        return {
+          kind: "WinningsAccrued",
+          block,
+          pullId: Number(parsed.args.pullId),
+          amount: Number(ethers.formatEther(parsed.args.amount)),
+        };
+      case "DecryptionRequested":
+        return {
+          kind: "DecryptionRequested",
+          block,
+          requestId: parsed.args.requestId.toString(),
+          batchId: Number(parsed.args.batchId),
+        };
+      case "DecryptionCompleted":
+        return {
+          kind: "DecryptionCompleted",
+          block,
+          requestId: parsed.args.requestId.toString(),
+          totalPrizePool: Number(
+            ethers.formatEther(parsed.args.totalPrizePool),
+          ),
+        };
+      case "RoleGranted":
+      case "RoleRevoked":
+        return {
+          kind: "AdminChange",
+          block,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+          event: parsed.name,
+          role: Number(parsed.args.role),
+          account: parsed.args.account,
+          sender: parsed.args.sender,
+        };
+      case "OwnershipTransferStarted":
+      case "OwnershipTransferred":
+        return {
+          kind: "AdminChange",
+          block,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+          event: parsed.name,
+          role: null,
+          account: parsed.args.newOwner,
+          sender: parsed.args.previousOwner,
+        };
+      default:
+        return null;
+    }
+  }
+}
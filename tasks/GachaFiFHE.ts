@@ -0,0 +1,521 @@
+import type { ContractTransactionResponse } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { ROLE_NAMES } from "../frontend/web/src/roles";
+import { PARAM, PARAM_NAMES } from "../frontend/web/src/timelock";
+import type { GachaFiFHE } from "../types";
+
+/**
+ * Operator tasks for GachaFiFHE. Every task accepts the global `--network` flag
+ * and sends its transaction from the first configured account.
+ */
+
+const ADDRESS_PARAM_DESCRIPTION =
+  "GachaFiFHE contract address (defaults to this network's deployment)";
+
+const BANNER_PARAM_DESCRIPTION =
+  "Banner id (defaults to the standard banner, 0)";
+
+const REVERT_MESSAGES: Record<string, string> = {
+  NotOwner: "the signer is not the contract owner",
+  NotPendingOwner: "the signer has not been proposed as the next owner",
+  MissingRole: "the signer does not hold the role this call needs",
+  Paused: "the contract is paused",
+  CooldownActive: "the signer's cooldown has not elapsed yet",
+  BatchNotOpen: "the banner has no open batch",
+  BatchNotClosed: "the banner's current batch is still open; close it first",
+  UnknownBanner: "no banner with this id has been created",
+  InvalidParameter: "the contract rejected a parameter as invalid",
+  NotInitialized: "the batch has no encrypted state to decrypt",
+  StrategyNotSet:
+    "no prize strategy is configured; deploy with the PrizeStrategy tag",
+  NothingToInvest: "the contract holds no idle ether",
+  AlreadyFinalized: "the batch has already settled",
+  DecryptionPending:
+    "the batch's decryption request has not reached its deadline yet",
+  BatchRefunding: "the batch is refunding its payments",
+  ChangeNotReady: "the change's timelock delay has not passed yet",
+  NotRefundable:
+    "only an admin may refund a batch before its decryption request goes stale",
+};
+
+async function getGachaContract(
+  hre: HardhatRuntimeEnvironment,
+  addressParam: string | undefined,
+): Promise<GachaFiFHE> {
+  const { ethers, deployments } = hre;
+  const address = addressParam ?? (await deployments.get("GachaFiFHE")).address;
+  if (!ethers.isAddress(address)) {
+    throw new HardhatPluginError(
+      "gacha",
+      `Invalid GachaFiFHE address: ${address}`,
+    );
+  }
+
+  const [signer] = await ethers.getSigners();
+  console.log(
+    `GachaFiFHE ${address} on ${hre.network.name} as ${signer.address}`,
+  );
+  return ethers.getContractAt("GachaFiFHE", address, signer);
+}
+
+// Sends a transaction and prints every GachaFiFHE event in its receipt, turning
+// custom-error reverts into readable messages.
+async function sendAndReport(
+  contract: GachaFiFHE,
+  send: () => Promise<ContractTransactionResponse>,
+) {
+  let tx: ContractTransactionResponse;
+  try {
+    tx = await send();
+  } catch (e) {
+    const name = decodeRevert(contract, e);
+    if (name) {
+      throw new HardhatPluginError(
+        "gacha",
+        `Reverted with ${name}: ${REVERT_MESSAGES[name] ?? "see the contract source"}`,
+      );
+    }
+    throw e;
+  }
+
+  console.log(`Wait for tx: ${tx.hash}...`);
+  const receipt = await tx.wait();
+  console.log(`tx: ${tx.hash} status=${receipt?.status}`);
+
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contract.interface.parseLog(log);
+    if (!parsed) continue;
+    const args = parsed.fragment.inputs
+      .map((input, i) => `${input.name}=${parsed.args[i]}`)
+      .join(" ");
+    console.log(`  ${parsed.name}(${args})`);
+  }
+}
+
+function decodeRevert(contract: GachaFiFHE, e: unknown): string | undefined {
+  const error = e as {
+    revert?: { name?: string };
+    data?: string;
+    message?: string;
+  };
+  if (error.revert?.name) return error.revert.name;
+  if (typeof error.data === "string") {
+    return contract.interface.parseError(error.data)?.name;
+  }
+  // Hardhat nodes only report the custom error name in the message
+  return error.message?.match(/custom error '(\w+)\(/)?.[1];
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:open-batch --banner 1
+ */
+task("gacha:open-batch", "Opens a new batch on a GachaFiFHE banner")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addOptionalParam("banner", BANNER_PARAM_DESCRIPTION, 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.openBatch(taskArguments.banner),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:close-batch --banner 1
+ */
+task("gacha:close-batch", "Closes a GachaFiFHE banner's open batch")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addOptionalParam("banner", BANNER_PARAM_DESCRIPTION, 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.closeBatch(taskArguments.banner),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:request-decryption --banner 1
+ */
+task(
+  "gacha:request-decryption",
+  "Requests decryption of a banner's closed batch prize pool and draw count",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addOptionalParam("banner", BANNER_PARAM_DESCRIPTION, 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.requestBatchDecryption(taskArguments.banner),
+    );
+  });
+
+// Role names as the `--role` param takes them, lowercased from the contract enum
+const ROLE_PARAM_DESCRIPTION = `Role to change: ${ROLE_NAMES.map((name) => name.toLowerCase()).join(", ")}`;
+
+function parseRole(role: string): number {
+  const id = ROLE_NAMES.findIndex((name) => name.toLowerCase() === role);
+  if (id < 0) {
+    throw new HardhatPluginError("gacha", `Unknown role: ${role}`);
+  }
+  return id;
+}
+
+function parseAccount(hre: HardhatRuntimeEnvironment, account: string): string {
+  if (!hre.ethers.isAddress(account)) {
+    throw new HardhatPluginError(
+      "gacha",
+      `Invalid account address: ${account}`,
+    );
+  }
+  return account;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:grant-role --role operator --account 0x...
+ */
+task("gacha:grant-role", "Grants a GachaFiFHE role to an account")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("role", ROLE_PARAM_DESCRIPTION, undefined, types.string)
+  .addParam("account", "Account address", undefined, types.string)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const role = parseRole(taskArguments.role);
+    const account = parseAccount(hre, taskArguments.account);
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () => contract.grantRole(role, account));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:revoke-role --role operator --account 0x...
+ */
+task("gacha:revoke-role", "Revokes a GachaFiFHE role from an account")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("role", ROLE_PARAM_DESCRIPTION, undefined, types.string)
+  .addParam("account", "Account address", undefined, types.string)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const role = parseRole(taskArguments.role);
+    const account = parseAccount(hre, taskArguments.account);
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () => contract.revokeRole(role, account));
+  });
+
+/**
+ * Proposes a new owner, who takes over once they run gacha:accept-ownership.
+ * Proposing the zero address cancels a pending transfer.
+ * Example:
+ *   - npx hardhat --network localhost gacha:transfer-ownership --account 0x...
+ */
+task("gacha:transfer-ownership", "Proposes a new GachaFiFHE owner")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("account", "Proposed owner address", undefined, types.string)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const account = parseAccount(hre, taskArguments.account);
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () => contract.transferOwnership(account));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:accept-ownership
+ */
+task(
+  "gacha:accept-ownership",
+  "Accepts GachaFiFHE ownership proposed to the signer",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () => contract.acceptOwnership());
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:set-paused --paused true
+ */
+task("gacha:set-paused", "Pauses or unpauses GachaFiFHE")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam(
+    "paused",
+    "Whether the contract is paused",
+    undefined,
+    types.boolean,
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.setPaused(taskArguments.paused),
+    );
+  });
+
+/**
+ * Queues a cooldown change; it applies once gacha:execute-change runs after the timelock delay.
+ * Example:
+ *   - npx hardhat --network localhost gacha:queue-cooldown --seconds 30
+ */
+task("gacha:queue-cooldown", "Queues a new per-account cooldown in seconds")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("seconds", "Cooldown in seconds (> 0)", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.seconds <= 0) {
+      throw new HardhatPluginError(
+        "gacha",
+        `Cooldown must be positive, got ${taskArguments.seconds}`,
+      );
+    }
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.queueChange(PARAM.CooldownSeconds, 0, taskArguments.seconds),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:queue-pull-price --banner 1 --ether 0.02
+ */
+task(
+  "gacha:queue-pull-price",
+  "Queues a banner's price per draw, which applies to batches opened after it executes",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addOptionalParam("banner", BANNER_PARAM_DESCRIPTION, 0, types.int)
+  .addParam("ether", "Price per draw in ether (> 0)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const price = hre.ethers.parseEther(taskArguments.ether);
+    if (price <= 0n) {
+      throw new HardhatPluginError(
+        "gacha",
+        `Pull price must be positive, got ${taskArguments.ether}`,
+      );
+    }
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.queueChange(PARAM.PullPrice, taskArguments.banner, price),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:queue-draw-cap --banner 1 --draws 20
+ */
+task(
+  "gacha:queue-draw-cap",
+  "Queues a banner's per-player draw cap, which applies to batches opened after it executes",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addOptionalParam("banner", BANNER_PARAM_DESCRIPTION, 0, types.int)
+  .addParam(
+    "draws",
+    "Draws per player per batch (0 lifts the cap)",
+    undefined,
+    types.int,
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.draws < 0) {
+      throw new HardhatPluginError(
+        "gacha",
+        `Draw cap cannot be negative, got ${taskArguments.draws}`,
+      );
+    }
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.queueChange(
+        PARAM.DrawCap,
+        taskArguments.banner,
+        taskArguments.draws,
+      ),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:queue-timelock-delay --seconds 172800
+ */
+task(
+  "gacha:queue-timelock-delay",
+  "Queues a new wait between queueing and executing parameter changes",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("seconds", "Delay in seconds (> 0)", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.seconds <= 0) {
+      throw new HardhatPluginError(
+        "gacha",
+        `Timelock delay must be positive, got ${taskArguments.seconds}`,
+      );
+    }
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.queueChange(PARAM.TimelockDelay, 0, taskArguments.seconds),
+    );
+  });
+
+/**
+ * Queues a prize strategy swap; on execution every invested wei comes back before the new strategy
+ * takes over. Pass the zero address to keep the prize pool in GachaFiFHE.
+ * Example:
+ *   - npx hardhat --network localhost gacha:queue-strategy --strategy 0x...
+ */
+task(
+  "gacha:queue-strategy",
+  "Queues a new prize strategy (treasurer), which applies once the change executes",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("strategy", "IPrizeStrategy address built for this game")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const strategy = parseAccount(hre, taskArguments.strategy);
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.queueChange(PARAM.Strategy, 0, BigInt(strategy)),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:pending-changes
+ */
+task("gacha:pending-changes", "Lists queued parameter changes")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    const changes = await contract.getPendingChanges();
+    if (changes.length === 0) {
+      console.log("No pending changes");
+    }
+    for (const change of changes) {
+      const param = PARAM_NAMES[Number(change.param)];
+      const target =
+        param === "PullPrice" || param === "DrawCap"
+          ? ` on banner ${change.bannerId}`
+          : "";
+      const value =
+        param === "Strategy"
+          ? hre.ethers.getAddress(hre.ethers.toBeHex(change.value, 20))
+          : change.value;
+      console.log(
+        `  #${change.id} ${param}${target} -> ${value}, executable from ${new Date(
+          Number(change.executableAt) * 1000,
+        ).toISOString()}`,
+      );
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:execute-change --change 1
+ */
+task("gacha:execute-change", "Applies a queued parameter change that is due")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("change", "Change id", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.executeChange(taskArguments.change),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:cancel-change --change 1
+ */
+task("gacha:cancel-change", "Drops a queued parameter change")
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("change", "Change id", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.cancelChange(taskArguments.change),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:invest
+ */
+task(
+  "gacha:invest",
+  "Moves the ether held by GachaFiFHE into its prize strategy",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () => contract.investIdleFunds());
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:harvest-yield --banner 1
+ */
+task(
+  "gacha:harvest-yield",
+  "Adds the prize strategy's yield to a banner's next batch",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addOptionalParam("banner", BANNER_PARAM_DESCRIPTION, 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.harvestYield(taskArguments.banner),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:rollover --batch 3
+ */
+task(
+  "gacha:rollover",
+  "Moves what a settled batch did not pay out into its banner's next batch, once the reveal window is over",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("batch", "Batch id", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.rolloverRemainder(taskArguments.batch),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:set-decryption-deadline --seconds 3600
+ */
+task(
+  "gacha:set-decryption-deadline",
+  "Sets how long a batch decryption request may go unanswered before it can be superseded or refunded",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("seconds", "Deadline in seconds (> 0)", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.seconds <= 0) {
+      throw new HardhatPluginError(
+        "gacha",
+        `Deadline must be positive, got ${taskArguments.seconds}`,
+      );
+    }
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.setDecryptionDeadline(taskArguments.seconds),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost gacha:enable-refunds --batch 3
+ */
+task(
+  "gacha:enable-refunds",
+  "Gives up on settling a closed batch and lets its players reclaim their payments",
+)
+  .addOptionalParam("address", ADDRESS_PARAM_DESCRIPTION)
+  .addParam("batch", "Batch id", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getGachaContract(hre, taskArguments.address);
+    await sendAndReport(contract, () =>
+      contract.enableRefunds(taskArguments.batch),
+    );
+  });
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import {
+  ECONOMY,
+  EconomyConfig,
+  bannerRollBounds,
+  rewardTierId,
+  validateEconomy,
+} from "../frontend/web/src/economy";
+import { getRarityTier, isWinningTier } from "../frontend/web/src/rarity";
+
+function withChange(change: (config: EconomyConfig) => void): EconomyConfig {
+  const config: EconomyConfig = structuredClone(ECONOMY);
+  change(config);
+  return config;
+}
+
+describe("economy config", function () {
+  it("should derive each banner's roll bounds from its advertised odds", function () {
+    for (const banner of ECONOMY.banners) {
+      const bounds = bannerRollBounds(banner);
+      expect(bounds.length).to.eq(ECONOMY.tiers.length - 1);
+
+      // Each tier's share of the 0-99 rolls equals the banner's advertised odds
+      const edges = [100, ...bounds, 0];
+      ECONOMY.tiers.forEach((tier, i) => {
+        expect(edges[i] - edges[i + 1]).to.eq(banner.odds[tier.id]);
+      });
+    }
+  });
+
+  it("should reject banners whose odds do not cover every roll", function () {
+    expect(() =>
+      validateEconomy(withChange((config) => (config.banners[0].odds[0] -= 1))),
+    ).to.throw("add up to 99%");
+    expect(() =>
+      validateEconomy(
+        withChange((config) => (config.banners[1].odds[1] = 0.5)),
+      ),
+    ).to.throw("whole percentage");
+    expect(() =>
+      validateEconomy(withChange((config) => config.banners[0].odds.pop())),
+    ).to.throw("odds for each");
+  });
+
+  it("should reject malformed banners", function () {
+    expect(() =>
+      validateEconomy(withChange((config) => config.banners.reverse())),
+    ).to.throw("ids must count up from 0");
+    expect(() =>
+      validateEconomy(
+        withChange(
+          (config) => (config.banners[1].name = config.banners[0].name),
+        ),
+      ),
+    ).to.throw("unique name");
+    expect(() =>
+      validateEconomy(
+        withChange((config) => (config.banners[0].pullPrice = "0")),
+      ),
+    ).to.throw("pullPrice");
+    expect(() => validateEconomy({ ...ECONOMY, banners: [] })).to.throw(
+      "at least one banner",
+    );
+    for (const drawCap of [0, 1.5, 2 ** 32]) {
+      expect(() =>
+        validateEconomy(
+          withChange((config) => (config.banners[0].drawCap = drawCap)),
+        ),
+      ).to.throw("drawCap");
+    }
+  });
+
+  it("should reject malformed tiers", function () {
+    expect(() =>
+      validateEconomy(withChange((config) => config.tiers.reverse())),
+    ).to.throw("ids must count up from 0");
+    expect(() =>
+      validateEconomy(
+        withChange((config) => (config.tiers[1].name = config.tiers[0].name)),
+      ),
+    ).to.throw("unique name");
+    expect(() =>
+      validateEconomy(
+        withChange((config) => (config.tiers[2].payoutPercent = 101)),
+      ),
+    ).to.throw("payoutPercent");
+    expect(() =>
+      validateEconomy(
+        withChange((config) =>
+          config.tiers.forEach(
+            (tier) => tier.payoutPercent > 0 && (tier.payoutPercent = 50),
+          ),
+        ),
+      ),
+    ).to.throw("at most 100%");
+    expect(() => validateEconomy({ ...ECONOMY, version: 0 })).to.throw(
+      "version",
+    );
+    expect(() =>
+      validateEconomy({ ...ECONOMY, pity: { threshold: 10, tierId: 0 } }),
+    ).to.throw("pity tierId");
+  });
+
+  it("should pay out from the configured percentages", function () {
+    for (const tier of ECONOMY.tiers) {
+      expect(getRarityTier(tier.id)).to.eq(tier);
+      expect(isWinningTier(tier.id)).to.eq(tier.payoutPercent > 0);
+    }
+  });
+
+  it("should reward the tiers that pay out", function () {
+    const rewardTier = rewardTierId(ECONOMY);
+    for (const tier of ECONOMY.tiers) {
+      expect(tier.id >= rewardTier).to.eq(isWinningTier(tier.id));
+    }
+
+    expect(() =>
+      validateEconomy(
+        withChange((config) => (config.tiers[2].payoutPercent = 0)),
+      ),
+    ).to.throw("must pay out");
+    expect(() =>
+      validateEconomy(
+        withChange((config) =>
+          config.tiers.forEach((tier) => (tier.payoutPercent = 0)),
+        ),
+      ),
+    ).to.throw("at least one tier");
+    // Pulls over a draw cap land in the commonest tier, so it cannot pay
+    expect(() =>
+      validateEconomy(
+        withChange((config) =>
+          config.tiers.forEach((tier) => (tier.payoutPercent = 1)),
+        ),
+      ),
+    ).to.throw("must not pay out");
+  });
+});
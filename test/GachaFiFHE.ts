@@ -0,0 +1,1419 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  ECONOMY,
+  bannerDrawCap,
+  bannerRollBounds,
+  economyDeployArgs,
+  rewardTierId,
+  tierPayoutBps,
+} from "../frontend/web/src/economy";
+import { ROLE } from "../frontend/web/src/roles";
+import { PARAM } from "../frontend/web/src/timelock";
+import { GachaFiFHE, GachaFiFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const COOLDOWN_SECONDS = 10;
+const TIMELOCK_DELAY = 24 * 60 * 60;
+const STANDARD_BANNER = ECONOMY.banners[0];
+const LIMITED_BANNER = ECONOMY.banners[1];
+const PULL_PRICE = ethers.parseEther(STANDARD_BANNER.pullPrice);
+const LIMITED_PULL_PRICE = ethers.parseEther(LIMITED_BANNER.pullPrice);
+const MAX_RARITY_TIER = ECONOMY.tiers.length - 1;
+
+// Deploys and creates the given banners, by default every banner in the economy config
+async function deployFixture(
+  args = economyDeployArgs(ECONOMY),
+  banners: [number[], bigint, number?][] = ECONOMY.banners.map((banner) => [
+    bannerRollBounds(banner),
+    ethers.parseEther(banner.pullPrice),
+    bannerDrawCap(banner),
+  ]),
+) {
+  const factory = (await ethers.getContractFactory(
+    "GachaFiFHE",
+  )) as GachaFiFHE__factory;
+  const gachaContract = (await factory.deploy(...args)) as GachaFiFHE;
+  const gachaContractAddress = await gachaContract.getAddress();
+  for (const [bounds, price, drawCap = 0] of banners) {
+    await gachaContract.createBanner(bounds, price, drawCap);
+  }
+
+  return { gachaContract, gachaContractAddress };
+}
+
+// Storage slot of `mapping(uint256 => ...)[key]`, found by matching a known value so the
+// test does not hardcode the contract's storage layout.
+async function findMappingSlot(
+  contractAddress: string,
+  key: bigint,
+  expected: string,
+): Promise<string> {
+  for (let index = 0; index < 64; index++) {
+    const slot = ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256"],
+        [key, index],
+      ),
+    );
+    if (
+      (await ethers.provider.getStorage(contractAddress, slot)) === expected
+    ) {
+      return slot;
+    }
+  }
+  throw new Error(`No mapping slot holds ${expected}`);
+}
+
+describe("GachaFiFHE", function () {
+  let signers: Signers;
+  let gachaContract: GachaFiFHE;
+  let gachaContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ gachaContract, gachaContractAddress } = await deployFixture());
+  });
+
+  async function submitDraw(
+    player: HardhatEthersSigner,
+    drawCount: number,
+    value = PULL_PRICE * BigInt(drawCount),
+    bannerId = STANDARD_BANNER.id,
+  ) {
+    return gachaContract
+      .connect(player)
+      .submitGachaDraw(bannerId, drawCount, { value });
+  }
+
+  describe("batch lifecycle", function () {
+    it("should start with no batch open", async function () {
+      expect(await gachaContract.batchCount()).to.eq(0);
+      expect((await gachaContract.banners(0)).batchOpen).to.eq(false);
+    });
+
+    it("should open and close batches in order", async function () {
+      await expect(gachaContract.openBatch(0))
+        .to.emit(gachaContract, "BatchOpened")
+        .withArgs(0, 1);
+      expect((await gachaContract.banners(0)).batchOpen).to.eq(true);
+
+      await expect(gachaContract.closeBatch(0))
+        .to.emit(gachaContract, "BatchClosed")
+        .withArgs(0, 1);
+      expect((await gachaContract.banners(0)).batchOpen).to.eq(false);
+
+      await gachaContract.requestBatchDecryption(0);
+      await fhevm.awaitDecryptionOracle();
+      await expect(gachaContract.openBatch(0))
+        .to.emit(gachaContract, "BatchOpened")
+        .withArgs(0, 2);
+      expect((await gachaContract.banners(0)).currentBatchId).to.eq(2);
+    });
+
+    it("should keep a closed batch decryptable until it settles", async function () {
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice, 1);
+      await gachaContract.closeBatch(0);
+      // Only the banner's latest batch can be decrypted, so the next one waits
+      await expect(gachaContract.openBatch(0)).to.be.revertedWithCustomError(
+        gachaContract,
+        "BatchNotFinalized",
+      );
+
+      await gachaContract.requestBatchDecryption(0);
+      await fhevm.awaitDecryptionOracle();
+      expect((await gachaContract.batchResults(1)).prizePool).to.eq(PULL_PRICE);
+      await expect(gachaContract.openBatch(0))
+        .to.emit(gachaContract, "BatchOpened")
+        .withArgs(0, 2);
+    });
+
+    it("should not open a batch while one is open", async function () {
+      await gachaContract.openBatch(0);
+      await expect(gachaContract.openBatch(0)).to.be.revertedWithCustomError(
+        gachaContract,
+        "BatchNotClosed",
+      );
+    });
+
+    it("should not close a batch that is not open", async function () {
+      await expect(gachaContract.closeBatch(0)).to.be.revertedWithCustomError(
+        gachaContract,
+        "BatchNotOpen",
+      );
+    });
+
+    it("should reject draws when no batch is open", async function () {
+      await expect(submitDraw(signers.alice, 1)).to.be.revertedWithCustomError(
+        gachaContract,
+        "BatchNotOpen",
+      );
+    });
+  });
+
+  describe("access control", function () {
+    it("should only let operators manage batches", async function () {
+      await expect(gachaContract.connect(signers.alice).openBatch(0))
+        .to.be.revertedWithCustomError(gachaContract, "MissingRole")
+        .withArgs(ROLE.Operator);
+
+      await expect(
+        gachaContract.grantRole(ROLE.Operator, signers.alice.address),
+      )
+        .to.emit(gachaContract, "RoleGranted")
+        .withArgs(
+          ROLE.Operator,
+          signers.alice.address,
+          signers.deployer.address,
+        );
+      await expect(gachaContract.connect(signers.alice).openBatch(0)).to.emit(
+        gachaContract,
+        "BatchOpened",
+      );
+
+      await expect(
+        gachaContract.revokeRole(ROLE.Operator, signers.alice.address),
+      )
+        .to.emit(gachaContract, "RoleRevoked")
+        .withArgs(
+          ROLE.Operator,
+          signers.alice.address,
+          signers.deployer.address,
+        );
+      await expect(
+        gachaContract.connect(signers.alice).closeBatch(0),
+      ).to.be.revertedWithCustomError(gachaContract, "MissingRole");
+    });
+
+    it("should only let the owner manage roles and role holders manage parameters", async function () {
+      // Sent as a call: when the artifacts were not compiled in the same run, Hardhat cannot
+      // attribute this revert and the fhevm plugin fails on it instead of rethrowing
+      await expect(
+        gachaContract
+          .connect(signers.alice)
+          .grantRole.staticCall(ROLE.Admin, signers.bob.address),
+      ).to.be.revertedWithCustomError(gachaContract, "NotOwner");
+      await expect(
+        gachaContract.grantRole(ROLE.Admin, ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+      await expect(gachaContract.connect(signers.alice).setPaused(true))
+        .to.be.revertedWithCustomError(gachaContract, "MissingRole")
+        .withArgs(ROLE.Pauser);
+      await expect(
+        gachaContract.queueChange(PARAM.CooldownSeconds, 0, 0),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+      await expect(
+        gachaContract.connect(signers.alice).queueChange(PARAM.PullPrice, 0, 1),
+      )
+        .to.be.revertedWithCustomError(gachaContract, "MissingRole")
+        .withArgs(ROLE.Admin);
+      await expect(
+        gachaContract.queueChange(PARAM.PullPrice, 0, 0),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+      await expect(
+        gachaContract.connect(signers.alice).createBanner([50], 1, 0),
+      ).to.be.revertedWithCustomError(gachaContract, "MissingRole");
+    });
+
+    it("should keep roles separate", async function () {
+      await gachaContract.grantRole(ROLE.Pauser, signers.alice.address);
+      await expect(
+        gachaContract.connect(signers.alice).setPaused(true),
+      ).to.emit(gachaContract, "PausedSet");
+      await expect(
+        gachaContract.connect(signers.alice).openBatch(0),
+      ).to.be.revertedWithCustomError(gachaContract, "MissingRole");
+
+      await expect(
+        gachaContract.connect(signers.alice).renounceRole(ROLE.Pauser),
+      )
+        .to.emit(gachaContract, "RoleRevoked")
+        .withArgs(ROLE.Pauser, signers.alice.address, signers.alice.address);
+      expect(
+        await gachaContract.hasRole(ROLE.Pauser, signers.alice.address),
+      ).to.eq(false);
+      expect(
+        await gachaContract.hasRole(ROLE.Pauser, signers.deployer.address),
+      ).to.eq(true);
+    });
+
+    it("should transfer ownership in two steps", async function () {
+      await expect(gachaContract.transferOwnership(signers.alice.address))
+        .to.emit(gachaContract, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await gachaContract.owner()).to.eq(signers.deployer.address);
+      expect(await gachaContract.pendingOwner()).to.eq(signers.alice.address);
+
+      await expect(
+        gachaContract.connect(signers.bob).acceptOwnership(),
+      ).to.be.revertedWithCustomError(gachaContract, "NotPendingOwner");
+      await expect(gachaContract.connect(signers.alice).acceptOwnership())
+        .to.emit(gachaContract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await gachaContract.owner()).to.eq(signers.alice.address);
+      expect(await gachaContract.pendingOwner()).to.eq(ethers.ZeroAddress);
+
+      // Role management moves with ownership
+      await expect(
+        gachaContract.grantRole(ROLE.Operator, signers.bob.address),
+      ).to.be.revertedWithCustomError(gachaContract, "NotOwner");
+      await gachaContract
+        .connect(signers.alice)
+        .grantRole(ROLE.Operator, signers.bob.address);
+      expect(
+        await gachaContract.hasRole(ROLE.Operator, signers.bob.address),
+      ).to.eq(true);
+    });
+
+    it("should move the old owner's roles to the new owner", async function () {
+      await gachaContract.grantRole(ROLE.Pauser, signers.bob.address);
+      await gachaContract.transferOwnership(signers.alice.address);
+      await expect(gachaContract.connect(signers.alice).acceptOwnership())
+        .to.emit(gachaContract, "RoleRevoked")
+        .withArgs(ROLE.Admin, signers.deployer.address, signers.alice.address)
+        .and.to.emit(gachaContract, "RoleGranted")
+        .withArgs(ROLE.Admin, signers.alice.address, signers.alice.address);
+
+      for (const role of Object.values(ROLE)) {
+        expect(
+          await gachaContract.hasRole(role, signers.deployer.address),
+        ).to.eq(false);
+        expect(await gachaContract.hasRole(role, signers.alice.address)).to.eq(
+          true,
+        );
+      }
+      await expect(gachaContract.openBatch(0))
+        .to.be.revertedWithCustomError(gachaContract, "MissingRole")
+        .withArgs(ROLE.Operator);
+      await expect(gachaContract.connect(signers.alice).openBatch(0)).to.emit(
+        gachaContract,
+        "BatchOpened",
+      );
+
+      // Roles granted to other accounts stay with them
+      expect(
+        await gachaContract.hasRole(ROLE.Pauser, signers.bob.address),
+      ).to.eq(true);
+    });
+  });
+
+  describe("timelock", function () {
+    async function pendingChangeIds() {
+      return (await gachaContract.getPendingChanges()).map((c) => c.id);
+    }
+
+    it("should only apply a queued change after the delay", async function () {
+      const tx = await gachaContract.queueChange(PARAM.CooldownSeconds, 0, 30);
+      const { timestamp } = (await ethers.provider.getBlock(
+        (await tx.wait())!.blockNumber,
+      ))!;
+      await expect(tx)
+        .to.emit(gachaContract, "ChangeQueued")
+        .withArgs(1, PARAM.CooldownSeconds, 0, 30, timestamp + TIMELOCK_DELAY);
+      const [change] = await gachaContract.getPendingChanges();
+      expect(change.value).to.eq(30);
+      expect(change.executableAt).to.eq(timestamp + TIMELOCK_DELAY);
+
+      await expect(
+        gachaContract.executeChange(1),
+      ).to.be.revertedWithCustomError(gachaContract, "ChangeNotReady");
+      expect(await gachaContract.cooldownSeconds()).to.eq(COOLDOWN_SECONDS);
+
+      // Anyone may execute a change once it is due
+      await time.increase(TIMELOCK_DELAY);
+      await expect(gachaContract.connect(signers.alice).executeChange(1))
+        .to.emit(gachaContract, "CooldownSecondsSet")
+        .withArgs(30)
+        .and.to.emit(gachaContract, "ChangeExecuted")
+        .withArgs(1);
+      expect(await gachaContract.cooldownSeconds()).to.eq(30);
+      expect(await pendingChangeIds()).to.deep.eq([]);
+      await expect(
+        gachaContract.executeChange(1),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+    });
+
+    it("should let admins cancel pending changes", async function () {
+      await gachaContract.queueChange(PARAM.PullPrice, 1, 1);
+      await gachaContract.queueChange(PARAM.CooldownSeconds, 0, 30);
+      await gachaContract.queueChange(PARAM.PullPrice, 0, 2);
+
+      await expect(
+        gachaContract.connect(signers.alice).cancelChange(1),
+      ).to.be.revertedWithCustomError(gachaContract, "MissingRole");
+      await expect(gachaContract.cancelChange(1))
+        .to.emit(gachaContract, "ChangeCancelled")
+        .withArgs(1);
+      expect(await pendingChangeIds()).to.have.members([2n, 3n]);
+
+      await time.increase(TIMELOCK_DELAY);
+      await expect(
+        gachaContract.executeChange(1),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+      expect((await gachaContract.banners(1)).pullPrice).to.eq(
+        LIMITED_PULL_PRICE,
+      );
+    });
+
+    it("should timelock changes to the delay itself", async function () {
+      await expect(
+        gachaContract.queueChange(PARAM.PullPrice, ECONOMY.banners.length, 1),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+
+      await gachaContract.queueChange(PARAM.TimelockDelay, 0, 60);
+      await time.increase(TIMELOCK_DELAY);
+      await expect(gachaContract.executeChange(1))
+        .to.emit(gachaContract, "TimelockDelaySet")
+        .withArgs(60);
+
+      await gachaContract.queueChange(PARAM.CooldownSeconds, 0, 30);
+      expect((await gachaContract.getPendingChanges())[0].executableAt).to.eq(
+        (await time.latest()) + 60,
+      );
+    });
+  });
+
+  describe("pause", function () {
+    it("should block batch management and draws while paused", async function () {
+      await gachaContract.openBatch(0);
+      await expect(gachaContract.setPaused(true))
+        .to.emit(gachaContract, "PausedSet")
+        .withArgs(true);
+
+      await expect(submitDraw(signers.alice, 1)).to.be.revertedWithCustomError(
+        gachaContract,
+        "Paused",
+      );
+      await expect(gachaContract.closeBatch(0)).to.be.revertedWithCustomError(
+        gachaContract,
+        "Paused",
+      );
+
+      await gachaContract.setPaused(false);
+      await expect(submitDraw(signers.alice, 1)).to.emit(
+        gachaContract,
+        "GachaSubmitted",
+      );
+    });
+  });
+
+  describe("draws", function () {
+    beforeEach(async function () {
+      await gachaContract.openBatch(0);
+    });
+
+    it("should enforce the submission cooldown per player", async function () {
+      await submitDraw(signers.alice, 1);
+      await expect(submitDraw(signers.alice, 1)).to.be.revertedWithCustomError(
+        gachaContract,
+        "CooldownActive",
+      );
+
+      // Another player is not affected by alice's cooldown
+      await expect(submitDraw(signers.bob, 1)).to.emit(
+        gachaContract,
+        "GachaSubmitted",
+      );
+
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(submitDraw(signers.alice, 1)).to.emit(
+        gachaContract,
+        "GachaSubmitted",
+      );
+    });
+
+    it("should accumulate encrypted draw counts per player and per batch", async function () {
+      await submitDraw(signers.alice, 3);
+      await time.increase(COOLDOWN_SECONDS);
+      await submitDraw(signers.alice, 2);
+      await submitDraw(signers.bob, 4);
+
+      const aliceCount = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await gachaContract.encryptedPlayerDrawCounts(1, signers.alice.address),
+        gachaContractAddress,
+        signers.alice,
+      );
+      expect(aliceCount).to.eq(5);
+
+      const bobCount = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await gachaContract.encryptedPlayerDrawCounts(1, signers.bob.address),
+        gachaContractAddress,
+        signers.bob,
+      );
+      expect(bobCount).to.eq(4);
+
+      const batchCount = await fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        await gachaContract.encryptedDrawCount(1),
+      );
+      expect(batchCount).to.eq(9);
+    });
+
+    it("should roll a separate pull for every draw", async function () {
+      const firstPullId = await gachaContract
+        .connect(signers.alice)
+        .submitGachaDraw.staticCall(0, 3, { value: PULL_PRICE * 3n });
+      expect(firstPullId).to.eq(1);
+      await expect(submitDraw(signers.alice, 3))
+        .to.emit(gachaContract, "GachaSubmitted")
+        .withArgs(signers.alice.address, 1, 3, anyValue);
+      expect(await gachaContract.pullCount()).to.eq(3);
+
+      const handles = new Set<string>();
+      for (let pullId = 1; pullId <= 3; pullId++) {
+        expect(await gachaContract.pullPlayer(pullId)).to.eq(
+          signers.alice.address,
+        );
+        expect(await gachaContract.pullBatch(pullId)).to.eq(1);
+        expect(await gachaContract.pullPayment(pullId)).to.eq(PULL_PRICE);
+        const handle = await gachaContract.encryptedPullRarity(pullId);
+        const rarity = await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          handle,
+          gachaContractAddress,
+          signers.alice,
+        );
+        expect(rarity).to.be.within(0, MAX_RARITY_TIER);
+        handles.add(handle);
+      }
+      expect(handles.size).to.eq(3);
+
+      const maxDraws = await gachaContract.MAX_DRAWS_PER_SUBMISSION();
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(
+        submitDraw(signers.alice, Number(maxDraws) + 1),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+    });
+
+    it("should store the pull rarity for the player only", async function () {
+      await submitDraw(signers.alice, 1);
+      expect(await gachaContract.pullCount()).to.eq(1);
+
+      const rarityHandle = await gachaContract.encryptedPullRarity(1);
+      const rarity = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        rarityHandle,
+        gachaContractAddress,
+        signers.alice,
+      );
+      expect(rarity).to.be.within(0, MAX_RARITY_TIER);
+
+      let bobDecrypted = true;
+      try {
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          rarityHandle,
+          gachaContractAddress,
+          signers.bob,
+        );
+      } catch {
+        bobDecrypted = false;
+      }
+      expect(bobDecrypted).to.eq(false);
+    });
+
+    it("should roll every pull into a rarity tier on-chain", async function () {
+      const players = (await ethers.getSigners()).slice(1, 11);
+      const tiers = [];
+      for (const player of players) {
+        await submitDraw(player, 1);
+        tiers.push(
+          await fhevm.debugger.decryptEuint(
+            FhevmType.euint8,
+            await gachaContract.encryptedPullRarity(
+              await gachaContract.pullCount(),
+            ),
+          ),
+        );
+      }
+
+      for (const tier of tiers) {
+        expect(tier).to.be.within(0, MAX_RARITY_TIER);
+      }
+      // Ten identical rolls would point at a constant rather than a random source
+      expect(new Set(tiers).size).to.be.greaterThan(1);
+    });
+
+    it("should emit the pull rarity handle for log-based history", async function () {
+      await submitDraw(signers.alice, 1);
+      await time.increase(COOLDOWN_SECONDS);
+      await submitDraw(signers.alice, 2);
+
+      const submitted = await gachaContract.queryFilter(
+        gachaContract.filters.GachaSubmitted(signers.alice.address),
+      );
+      expect(submitted.map((e) => e.args.pullId)).to.deep.eq([1n, 2n, 3n]);
+      for (const event of submitted) {
+        expect(event.args.rarityHandle).to.eq(
+          await gachaContract.encryptedPullRarity(event.args.pullId),
+        );
+      }
+    });
+  });
+
+  async function finalizeBatch(bannerId: number) {
+    await gachaContract.closeBatch(bannerId);
+    await gachaContract.requestBatchDecryption(bannerId);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  describe("draw caps", function () {
+    const DRAW_CAP = 3;
+
+    beforeEach(async function () {
+      ({ gachaContract, gachaContractAddress } = await deployFixture(
+        undefined,
+        [[bannerRollBounds(STANDARD_BANNER), PULL_PRICE, DRAW_CAP]],
+      ));
+      await gachaContract.openBatch(0);
+    });
+
+    async function playerDraws(player: HardhatEthersSigner) {
+      return fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await gachaContract.encryptedPlayerDrawCounts(1, player.address),
+        gachaContractAddress,
+        player,
+      );
+    }
+
+    it("should add no draws for a pull past the player's cap", async function () {
+      await submitDraw(signers.alice, 2);
+      const pityAfterFirstPull = await fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        await gachaContract.encryptedPityCounters(signers.alice.address),
+      );
+      await time.increase(COOLDOWN_SECONDS);
+
+      // The over-cap pull goes through, pays into the pool, and counts for nothing
+      await expect(submitDraw(signers.alice, 2)).to.emit(
+        gachaContract,
+        "GachaSubmitted",
+      );
+      expect(await playerDraws(signers.alice)).to.eq(2);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          await gachaContract.encryptedDrawCount(1),
+        ),
+      ).to.eq(2);
+      // Both of its pulls land in the commonest tier
+      for (const pullId of [3, 4]) {
+        expect(
+          await fhevm.debugger.decryptEuint(
+            FhevmType.euint8,
+            await gachaContract.encryptedPullRarity(pullId),
+          ),
+        ).to.eq(0);
+      }
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          await gachaContract.encryptedPityCounters(signers.alice.address),
+        ),
+      ).to.eq(pityAfterFirstPull);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint128,
+          await gachaContract.encryptedTotalPrizePool(1),
+        ),
+      ).to.eq(PULL_PRICE * 4n);
+
+      await time.increase(COOLDOWN_SECONDS);
+      await submitDraw(signers.alice, 1);
+      expect(await playerDraws(signers.alice)).to.eq(DRAW_CAP);
+
+      // Each player has their own allowance
+      await submitDraw(signers.bob, DRAW_CAP);
+      expect(await playerDraws(signers.bob)).to.eq(DRAW_CAP);
+      // A single pull larger than the public cap can never count, so it is refused outright
+      await expect(
+        submitDraw(signers.bob, DRAW_CAP + 1),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+    });
+
+    it("should apply a cap change from the next batch on", async function () {
+      await gachaContract.queueChange(PARAM.DrawCap, 0, 0);
+      await time.increase(TIMELOCK_DELAY);
+      await expect(gachaContract.executeChange(1))
+        .to.emit(gachaContract, "BannerDrawCapSet")
+        .withArgs(0, 0);
+      expect(await gachaContract.batchDrawCap(1)).to.eq(DRAW_CAP);
+
+      await finalizeBatch(0);
+      await gachaContract.openBatch(0);
+      expect(await gachaContract.batchDrawCap(2)).to.eq(0);
+      await submitDraw(signers.alice, DRAW_CAP + 1);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          await gachaContract.encryptedPlayerDrawCounts(
+            2,
+            signers.alice.address,
+          ),
+          gachaContractAddress,
+          signers.alice,
+        ),
+      ).to.eq(DRAW_CAP + 1);
+
+      await expect(
+        gachaContract.queueChange(PARAM.DrawCap, 0, 2n ** 32n),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+    });
+
+    it("should forfeit an over-cap submission's payment to the batch's winners", async function () {
+      // Every counted pull wins the whole pool between them, with a cap of one draw
+      ({ gachaContract, gachaContractAddress } = await deployFixture(
+        [ECONOMY.version, [0, 10_000], 1, 1],
+        [[[100], PULL_PRICE, 1]],
+      ));
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice, 1);
+      await submitDraw(signers.bob, 1);
+      await time.increase(COOLDOWN_SECONDS);
+      await submitDraw(signers.alice, 1);
+      await finalizeBatch(0);
+
+      const pool = PULL_PRICE * 3n;
+      expect((await gachaContract.batchResults(1)).prizePool).to.eq(pool);
+      expect(await gachaContract.batchTierWinners(1, 1)).to.eq(2);
+      for (const [player, pullId] of [
+        [signers.alice, 1],
+        [signers.bob, 2],
+        [signers.alice, 3],
+      ] as const) {
+        await gachaContract.connect(player).revealPull(pullId);
+      }
+      await fhevm.awaitDecryptionOracle();
+
+      // Alice's over-cap pull earned nothing, and its payment went to both counted pulls
+      expect((await gachaContract.pullReveals(3)).rarity).to.eq(0);
+      expect(
+        await gachaContract.queryFilter(
+          gachaContract.filters.WinningsAccrued(3),
+        ),
+      ).to.have.length(0);
+      expect(
+        await gachaContract.claimableWinnings(signers.alice.address),
+      ).to.eq(pool / 2n);
+      expect(await gachaContract.claimableWinnings(signers.bob.address)).to.eq(
+        pool / 2n,
+      );
+    });
+  });
+
+  describe("economy", function () {
+    it("should deploy the tiers and pity from the economy config", async function () {
+      expect(await gachaContract.economyVersion()).to.eq(ECONOMY.version);
+      expect(await gachaContract.tierCount()).to.eq(ECONOMY.tiers.length);
+      expect(await gachaContract.getTierPayoutBps()).to.deep.eq(
+        tierPayoutBps(ECONOMY),
+      );
+      expect(await gachaContract.pityThreshold()).to.eq(ECONOMY.pity.threshold);
+      expect(await gachaContract.pityTier()).to.eq(ECONOMY.pity.tierId);
+      expect(await gachaContract.rewardTier()).to.eq(rewardTierId(ECONOMY));
+    });
+
+    it("should reject invalid tier, payout and pity parameters", async function () {
+      const factory = (await ethers.getContractFactory(
+        "GachaFiFHE",
+      )) as GachaFiFHE__factory;
+      const [version, payouts, threshold, tier] = economyDeployArgs(ECONOMY);
+      const invalid: ReturnType<typeof economyDeployArgs>[] = [
+        [0, payouts, threshold, tier],
+        [version, [100], threshold, tier],
+        [version, [0, 0, 0], threshold, 1],
+        [version, [0, 100, 0], threshold, 1],
+        [version, [0, 10_001], threshold, 1],
+        [version, [100, 100], threshold, 1],
+        [version, [0, 5_000, 5_001], threshold, 1],
+        [version, payouts, 0, tier],
+        [version, payouts, threshold, 0],
+        [version, payouts, threshold, payouts.length],
+      ];
+      for (const args of invalid) {
+        await expect(factory.deploy(...args)).to.be.revertedWithCustomError(
+          factory,
+          "InvalidParameter",
+        );
+      }
+    });
+
+    it("should roll tiers with the banner's bounds", async function () {
+      // Every roll is below 100, so each pull clears the only bound
+      ({ gachaContract } = await deployFixture(
+        [ECONOMY.version, [0, 100], 1, 1],
+        [[[100], PULL_PRICE]],
+      ));
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice, 1);
+
+      const tier = await fhevm.debugger.decryptEuint(
+        FhevmType.euint8,
+        await gachaContract.encryptedPullRarity(1),
+      );
+      expect(tier).to.eq(1);
+    });
+  });
+
+  describe("banners", function () {
+    it("should create banners with the odds from the economy config", async function () {
+      expect(await gachaContract.bannerCount()).to.eq(ECONOMY.banners.length);
+      for (const banner of ECONOMY.banners) {
+        expect(await gachaContract.getBannerRollBounds(banner.id)).to.deep.eq(
+          bannerRollBounds(banner),
+        );
+        const created = await gachaContract.banners(banner.id);
+        expect(created.pullPrice).to.eq(ethers.parseEther(banner.pullPrice));
+        expect(created.drawCap).to.eq(bannerDrawCap(banner));
+      }
+    });
+
+    it("should reject invalid banner odds and prices", async function () {
+      const bounds = bannerRollBounds(STANDARD_BANNER);
+      for (const invalid of [
+        [],
+        bounds.slice(1),
+        [40, 40, 5, 1],
+        [40, 15, 20, 1],
+        [101, 15, 5, 1],
+        [40, 15, 5, 0],
+      ]) {
+        await expect(
+          gachaContract.createBanner(invalid, PULL_PRICE, 0),
+        ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+      }
+      await expect(
+        gachaContract.createBanner(bounds, 0, 0),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+    });
+
+    it("should reject unknown banners", async function () {
+      const unknown = ECONOMY.banners.length;
+      await expect(
+        gachaContract.openBatch(unknown),
+      ).to.be.revertedWithCustomError(gachaContract, "UnknownBanner");
+      await expect(
+        submitDraw(signers.alice, 1, PULL_PRICE, unknown),
+      ).to.be.revertedWithCustomError(gachaContract, "UnknownBanner");
+      await expect(
+        gachaContract.getBannerRollBounds(unknown),
+      ).to.be.revertedWithCustomError(gachaContract, "UnknownBanner");
+    });
+
+    it("should run batches on several banners at once", async function () {
+      await gachaContract.openBatch(STANDARD_BANNER.id);
+      await expect(gachaContract.openBatch(LIMITED_BANNER.id))
+        .to.emit(gachaContract, "BatchOpened")
+        .withArgs(LIMITED_BANNER.id, 2);
+      expect(await gachaContract.batchBanner(1)).to.eq(STANDARD_BANNER.id);
+      expect(await gachaContract.batchBanner(2)).to.eq(LIMITED_BANNER.id);
+
+      // Each banner charges its own price into its own batch's pool
+      await submitDraw(signers.alice, 2);
+      await expect(
+        submitDraw(signers.bob, 1, PULL_PRICE, LIMITED_BANNER.id),
+      ).to.be.revertedWithCustomError(gachaContract, "IncorrectPayment");
+      await expect(
+        submitDraw(signers.bob, 1, LIMITED_PULL_PRICE, LIMITED_BANNER.id),
+      )
+        .to.emit(gachaContract, "GachaSubmitted")
+        .withArgs(signers.bob.address, 2, 3, anyValue);
+
+      const pool = async (batchId: number) =>
+        fhevm.debugger.decryptEuint(
+          FhevmType.euint128,
+          await gachaContract.encryptedTotalPrizePool(batchId),
+        );
+      expect(await pool(1)).to.eq(PULL_PRICE * 2n);
+      expect(await pool(2)).to.eq(LIMITED_PULL_PRICE);
+
+      // Closing one banner leaves the other open for pulls
+      await gachaContract.closeBatch(STANDARD_BANNER.id);
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(submitDraw(signers.alice, 1)).to.be.revertedWithCustomError(
+        gachaContract,
+        "BatchNotOpen",
+      );
+      await expect(
+        submitDraw(signers.alice, 1, LIMITED_PULL_PRICE, LIMITED_BANNER.id),
+      ).to.emit(gachaContract, "GachaSubmitted");
+      await expect(
+        gachaContract.requestBatchDecryption(LIMITED_BANNER.id),
+      ).to.be.revertedWithCustomError(gachaContract, "BatchNotClosed");
+    });
+  });
+
+  describe("pity", function () {
+    const PITY_THRESHOLD = 2;
+    const PITY_TIER = 3;
+
+    beforeEach(async function () {
+      ({ gachaContract, gachaContractAddress } = await deployFixture([
+        ECONOMY.version,
+        tierPayoutBps(ECONOMY),
+        PITY_THRESHOLD,
+        PITY_TIER,
+      ]));
+      await gachaContract.openBatch(0);
+    });
+
+    async function pityCounter(player: HardhatEthersSigner) {
+      return fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await gachaContract.encryptedPityCounters(player.address),
+        gachaContractAddress,
+        player,
+      );
+    }
+
+    it("should guarantee the pity tier after a run of lower pulls", async function () {
+      let misses = 0;
+      for (let pull = 1; pull <= 8; pull++) {
+        await submitDraw(signers.alice, 1);
+        await time.increase(COOLDOWN_SECONDS);
+        const tier = await fhevm.debugger.decryptEuint(
+          FhevmType.euint8,
+          await gachaContract.encryptedPullRarity(pull),
+        );
+
+        if (misses >= PITY_THRESHOLD) {
+          expect(tier).to.be.gte(PITY_TIER);
+        }
+        misses = tier >= PITY_TIER ? 0 : misses + 1;
+        expect(await pityCounter(signers.alice)).to.eq(misses);
+      }
+    });
+
+    it("should keep each player's counter private", async function () {
+      await submitDraw(signers.alice, 1);
+
+      let bobDecrypted = true;
+      try {
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          await gachaContract.encryptedPityCounters(signers.alice.address),
+          gachaContractAddress,
+          signers.bob,
+        );
+      } catch {
+        bobDecrypted = false;
+      }
+      expect(bobDecrypted).to.eq(false);
+      expect(
+        await gachaContract.encryptedPityCounters(signers.bob.address),
+      ).to.eq(ethers.ZeroHash);
+    });
+  });
+
+  describe("pull price", function () {
+    it("should charge the batch price for every draw", async function () {
+      await gachaContract.openBatch(0);
+      expect(await gachaContract.batchPullPrice(1)).to.eq(PULL_PRICE);
+
+      await expect(
+        submitDraw(signers.alice, 2, PULL_PRICE),
+      ).to.be.revertedWithCustomError(gachaContract, "IncorrectPayment");
+      await expect(
+        submitDraw(signers.alice, 1, PULL_PRICE + 1n),
+      ).to.be.revertedWithCustomError(gachaContract, "IncorrectPayment");
+      await expect(
+        submitDraw(signers.alice, 0, 0n),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+
+      await expect(submitDraw(signers.alice, 2)).to.changeEtherBalances(
+        [signers.alice, gachaContract],
+        [-PULL_PRICE * 2n, PULL_PRICE * 2n],
+      );
+    });
+
+    it("should apply a new price from the next batch on", async function () {
+      const newPrice = ethers.parseEther("0.02");
+      await gachaContract.openBatch(0);
+      await gachaContract.queueChange(PARAM.PullPrice, 0, newPrice);
+      await time.increase(TIMELOCK_DELAY);
+      await expect(gachaContract.executeChange(1))
+        .to.emit(gachaContract, "BannerPullPriceSet")
+        .withArgs(0, newPrice);
+
+      await expect(submitDraw(signers.alice, 1)).to.emit(
+        gachaContract,
+        "GachaSubmitted",
+      );
+
+      await finalizeBatch(0);
+      await gachaContract.openBatch(0);
+      expect(await gachaContract.batchPullPrice(2)).to.eq(newPrice);
+      await expect(submitDraw(signers.bob, 1)).to.be.revertedWithCustomError(
+        gachaContract,
+        "IncorrectPayment",
+      );
+      await expect(submitDraw(signers.bob, 1, newPrice)).to.emit(
+        gachaContract,
+        "GachaSubmitted",
+      );
+    });
+
+    it("should add every deposit to the encrypted prize pool", async function () {
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice, 3);
+      await submitDraw(signers.bob, 1);
+
+      const prizePool = await fhevm.debugger.decryptEuint(
+        FhevmType.euint128,
+        await gachaContract.encryptedTotalPrizePool(1),
+      );
+      expect(prizePool).to.eq(PULL_PRICE * 4n);
+      expect(prizePool).to.eq(
+        await ethers.provider.getBalance(gachaContractAddress),
+      );
+    });
+  });
+
+  describe("pull reveal", function () {
+    beforeEach(async function () {
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice, 1);
+    });
+
+    it("should only reveal a pull once its batch pool is decrypted", async function () {
+      await expect(
+        gachaContract.connect(signers.alice).revealPull(1),
+      ).to.be.revertedWithCustomError(gachaContract, "BatchNotFinalized");
+      await gachaContract.closeBatch(0);
+      await expect(
+        gachaContract.connect(signers.alice).revealPull(1),
+      ).to.be.revertedWithCustomError(gachaContract, "BatchNotFinalized");
+    });
+
+    it("should only let the player reveal their pull", async function () {
+      await finalizeBatch(0);
+      await expect(
+        gachaContract.connect(signers.bob).revealPull(1),
+      ).to.be.revertedWithCustomError(gachaContract, "NotPlayer");
+    });
+
+    it("should publish the rarity through the decryption oracle", async function () {
+      const tier = await fhevm.debugger.decryptEuint(
+        FhevmType.euint8,
+        await gachaContract.encryptedPullRarity(1),
+      );
+      await finalizeBatch(0);
+      await expect(gachaContract.connect(signers.alice).revealPull(1)).to.emit(
+        gachaContract,
+        "PullRevealRequested",
+      );
+      await expect(
+        gachaContract.connect(signers.alice).revealPull(1),
+      ).to.be.revertedWithCustomError(gachaContract, "AlreadyRevealed");
+
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = await gachaContract.queryFilter(
+        gachaContract.filters.PullRevealed(1),
+      );
+      expect(revealed.length).to.eq(1);
+      expect(revealed[0].args.player).to.eq(signers.alice.address);
+      expect(revealed[0].args.batchId).to.eq(1);
+      expect(revealed[0].args.rarity).to.eq(tier);
+
+      const reveal = await gachaContract.pullReveals(1);
+      expect(reveal.revealed).to.eq(true);
+      expect(reveal.rarity).to.eq(tier);
+    });
+  });
+
+  describe("winnings", function () {
+    // Every pull lands in the only paying tier, whose share of the pool its four winners split
+    async function deployWinningEconomy(payoutBps: number) {
+      ({ gachaContract, gachaContractAddress } = await deployFixture(
+        [ECONOMY.version, [0, payoutBps], 1, 1],
+        [[[100], PULL_PRICE]],
+      ));
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice, 1);
+      await submitDraw(signers.bob, 3);
+      await finalizeBatch(0);
+    }
+
+    async function reveal(player: HardhatEthersSigner, pullId: number) {
+      await gachaContract.connect(player).revealPull(pullId);
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("should record the decrypted batch result", async function () {
+      await deployWinningEconomy(1_000);
+      const result = await gachaContract.batchResults(1);
+      expect(result.finalized).to.eq(true);
+      expect(result.prizePool).to.eq(PULL_PRICE * 4n);
+      expect(result.drawCount).to.eq(4);
+      expect(result.accrued).to.eq(0);
+      expect(await gachaContract.batchTierWinners(1, 1)).to.eq(4);
+      expect(await gachaContract.batchTierWinners(1, 0)).to.eq(0);
+    });
+
+    it("should credit a revealed pull's share of its batch pool", async function () {
+      await deployWinningEconomy(1_000);
+      const pool = PULL_PRICE * 4n;
+
+      await reveal(signers.alice, 1);
+      const accrued = await gachaContract.queryFilter(
+        gachaContract.filters.WinningsAccrued(1),
+      );
+      expect(accrued[0].args.amount).to.eq(pool / 10n / 4n);
+      expect(
+        await gachaContract.claimableWinnings(signers.alice.address),
+      ).to.eq(pool / 10n / 4n);
+      expect(await gachaContract.claimableWinnings(signers.bob.address)).to.eq(
+        0,
+      );
+    });
+
+    it("should split a tier's share among its winners", async function () {
+      await deployWinningEconomy(8_000);
+      const share = (PULL_PRICE * 4n * 8n) / 10n / 4n;
+      await reveal(signers.alice, 1);
+      for (const pullId of [2, 3, 4]) await reveal(signers.bob, pullId);
+
+      expect(
+        await gachaContract.claimableWinnings(signers.alice.address),
+      ).to.eq(share);
+      expect(await gachaContract.claimableWinnings(signers.bob.address)).to.eq(
+        share * 3n,
+      );
+      expect((await gachaContract.batchResults(1)).accrued).to.eq(share * 4n);
+    });
+
+    it("should roll what a batch did not pay out into the banner's next batch", async function () {
+      await deployWinningEconomy(8_000);
+      const pool = PULL_PRICE * 4n;
+      const share = (pool * 8n) / 10n / 4n;
+      await reveal(signers.alice, 1);
+      await reveal(signers.bob, 2);
+      await expect(
+        gachaContract.rolloverRemainder(1),
+      ).to.be.revertedWithCustomError(gachaContract, "RevealWindowOpen");
+
+      // Bob never revealed pulls 3 and 4 in time, so their shares roll over with the unpaid fifth
+      await time.increase(await gachaContract.REVEAL_WINDOW());
+      const carry = pool - share * 2n;
+      await expect(gachaContract.connect(signers.bob).rolloverRemainder(1))
+        .to.emit(gachaContract, "RemainderRolledOver")
+        .withArgs(1, 0, carry);
+      expect(await gachaContract.bannerCarry(0)).to.eq(carry);
+      await expect(
+        gachaContract.rolloverRemainder(1),
+      ).to.be.revertedWithCustomError(gachaContract, "NothingToClaim");
+      await reveal(signers.bob, 3);
+      expect(await gachaContract.claimableWinnings(signers.bob.address)).to.eq(
+        share,
+      );
+
+      // Every wei the batch took in is either claimable or in the next batch's pool
+      await gachaContract.connect(signers.alice).claim();
+      await gachaContract.connect(signers.bob).claim();
+      expect(await ethers.provider.getBalance(gachaContractAddress)).to.eq(
+        carry,
+      );
+      expect(await gachaContract.reservedFunds()).to.eq(carry);
+
+      await gachaContract.openBatch(0);
+      expect(await gachaContract.bannerCarry(0)).to.eq(0);
+      expect(await gachaContract.batchCarry(2)).to.eq(carry);
+      await submitDraw(signers.alice, 1);
+      await finalizeBatch(0);
+      expect((await gachaContract.batchResults(2)).prizePool).to.eq(
+        carry + PULL_PRICE,
+      );
+    });
+
+    it("should pay out claimable winnings once", async function () {
+      await deployWinningEconomy(5_000);
+      await reveal(signers.alice, 1);
+      const amount = await gachaContract.claimableWinnings(
+        signers.alice.address,
+      );
+
+      await expect(
+        gachaContract.connect(signers.alice).claim(),
+      ).to.changeEtherBalances(
+        [signers.alice, gachaContract],
+        [amount, -amount],
+      );
+      expect(
+        await gachaContract.claimableWinnings(signers.alice.address),
+      ).to.eq(0);
+      expect(await gachaContract.claimedWinnings(signers.alice.address)).to.eq(
+        amount,
+      );
+      await expect(
+        gachaContract.connect(signers.alice).claim(),
+      ).to.be.revertedWithCustomError(gachaContract, "NothingToClaim");
+    });
+  });
+
+  describe("batch decryption", function () {
+    beforeEach(async function () {
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice, 2);
+    });
+
+    it("should only decrypt a closed batch", async function () {
+      await expect(
+        gachaContract.requestBatchDecryption(0),
+      ).to.be.revertedWithCustomError(gachaContract, "BatchNotClosed");
+    });
+
+    it("should enforce the request cooldown per provider", async function () {
+      await gachaContract.closeBatch(0);
+      await gachaContract.requestBatchDecryption(0);
+      await expect(
+        gachaContract.requestBatchDecryption(0),
+      ).to.be.revertedWithCustomError(gachaContract, "CooldownActive");
+    });
+
+    it("should complete through the decryption oracle", async function () {
+      await gachaContract.closeBatch(0);
+      await expect(gachaContract.requestBatchDecryption(0))
+        .to.emit(gachaContract, "DecryptionRequested")
+        .withArgs(0, 1);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const completed = await gachaContract.queryFilter(
+        gachaContract.filters.DecryptionCompleted(),
+      );
+      expect(completed.length).to.eq(1);
+      expect(completed[0].args.batchId).to.eq(1);
+      expect(completed[0].args.totalPrizePool).to.eq(PULL_PRICE * 2n);
+      expect((await gachaContract.decryptionContexts(0)).processed).to.eq(true);
+
+      const result = await gachaContract.getBatchResult(1);
+      expect(result.finalized).to.eq(true);
+      expect(result.prizePool).to.eq(PULL_PRICE * 2n);
+      expect(result.drawCount).to.eq(2);
+      expect(result.requestId).to.eq(0);
+      expect(result.settledAt).to.eq((await completed[0].getBlock()).timestamp);
+    });
+
+    it("should page through batch results", async function () {
+      await finalizeBatch(0);
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.bob, 1);
+      await gachaContract.closeBatch(0);
+      await gachaContract.enableRefunds(2);
+      await gachaContract.openBatch(0);
+
+      const page = await gachaContract.getBatchResults(1, 10);
+      expect(page.map((result) => result.finalized)).to.deep.eq([
+        true,
+        false,
+        false,
+      ]);
+      expect(page[0].drawCount).to.eq(2);
+
+      const [second] = await gachaContract.getBatchResults(2, 1);
+      expect(second.prizePool).to.eq(0);
+      expect(await gachaContract.getBatchResults(4, 10)).to.have.length(0);
+      await expect(
+        gachaContract.getBatchResults(0, 10),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+      await expect(
+        gachaContract.getBatchResult(4),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+    });
+
+    it("should reject a replayed callback", async function () {
+      await gachaContract.closeBatch(0);
+      await gachaContract.requestBatchDecryption(0);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        gachaContract.myCallback(0, "0x", "0x"),
+      ).to.be.revertedWithCustomError(gachaContract, "ReplayDetected");
+    });
+
+    it("should reject a callback when the batch ciphertexts changed", async function () {
+      await gachaContract.closeBatch(0);
+      await gachaContract.requestBatchDecryption(0);
+
+      // Swap the stored draw count handle for the pool handle to simulate a state change
+      const drawCountHandle = await gachaContract.encryptedDrawCount(1);
+      const slot = await findMappingSlot(
+        gachaContractAddress,
+        1n,
+        drawCountHandle,
+      );
+      await ethers.provider.send("hardhat_setStorageAt", [
+        gachaContractAddress,
+        slot,
+        await gachaContract.encryptedTotalPrizePool(1),
+      ]);
+
+      await expect(
+        gachaContract.myCallback(0, "0x", "0x"),
+      ).to.be.revertedWithCustomError(gachaContract, "StateMismatch");
+
+      // Restore the handle so the pending request does not fail later suites' oracle runs
+      await ethers.provider.send("hardhat_setStorageAt", [
+        gachaContractAddress,
+        slot,
+        drawCountHandle,
+      ]);
+      await fhevm.awaitDecryptionOracle();
+    });
+  });
+
+  describe("stuck batches", function () {
+    const DEADLINE_SECONDS = 3600;
+
+    beforeEach(async function () {
+      await gachaContract.setDecryptionDeadline(DEADLINE_SECONDS);
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice, 2);
+      await submitDraw(signers.bob, 1);
+      await gachaContract.closeBatch(0);
+    });
+
+    it("should only let admins set a positive deadline", async function () {
+      expect(await gachaContract.decryptionDeadlineSeconds()).to.eq(
+        DEADLINE_SECONDS,
+      );
+      await expect(
+        gachaContract.setDecryptionDeadline(0),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+      await expect(
+        gachaContract.connect(signers.alice).setDecryptionDeadline(60),
+      )
+        .to.be.revertedWithCustomError(gachaContract, "MissingRole")
+        .withArgs(ROLE.Admin);
+    });
+
+    it("should supersede a request once it passes the deadline", async function () {
+      await gachaContract.requestBatchDecryption(0);
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(
+        gachaContract.requestBatchDecryption(0),
+      ).to.be.revertedWithCustomError(gachaContract, "DecryptionPending");
+
+      await time.increase(DEADLINE_SECONDS);
+      await expect(gachaContract.requestBatchDecryption(0))
+        .to.emit(gachaContract, "DecryptionSuperseded")
+        .withArgs(0, 1);
+      expect((await gachaContract.batchSettlements(1)).requestId).to.eq(1);
+
+      // The late answer to the first request is dropped and the second one settles the batch
+      await fhevm.awaitDecryptionOracle();
+      const dropped = await gachaContract.queryFilter(
+        gachaContract.filters.DecryptionDropped(),
+      );
+      expect(dropped.map((e) => e.args.requestId)).to.deep.eq([0n]);
+      const result = await gachaContract.getBatchResult(1);
+      expect(result.finalized).to.eq(true);
+      expect(result.requestId).to.eq(1);
+      expect((await gachaContract.batchSettlements(1)).pending).to.eq(false);
+
+      await time.increase(DEADLINE_SECONDS);
+      await expect(
+        gachaContract.requestBatchDecryption(0),
+      ).to.be.revertedWithCustomError(gachaContract, "AlreadyFinalized");
+      await expect(
+        gachaContract.enableRefunds(1),
+      ).to.be.revertedWithCustomError(gachaContract, "AlreadyFinalized");
+    });
+
+    it("should let anyone refund a batch whose request went stale", async function () {
+      await gachaContract.requestBatchDecryption(0);
+      await expect(
+        gachaContract.connect(signers.alice).enableRefunds(1),
+      ).to.be.revertedWithCustomError(gachaContract, "NotRefundable");
+      await expect(
+        gachaContract.connect(signers.alice).refundPull(1),
+      ).to.be.revertedWithCustomError(gachaContract, "NotRefundable");
+
+      await time.increase(DEADLINE_SECONDS);
+      await expect(gachaContract.connect(signers.alice).enableRefunds(1))
+        .to.emit(gachaContract, "RefundsEnabled")
+        .withArgs(1);
+      await expect(
+        gachaContract.enableRefunds(1),
+      ).to.be.revertedWithCustomError(gachaContract, "BatchRefunding");
+
+      await expect(
+        gachaContract.connect(signers.bob).refundPull(1),
+      ).to.be.revertedWithCustomError(gachaContract, "NotPlayer");
+      // Each draw of a submission is its own pull and is refunded on its own
+      await expect(
+        gachaContract.connect(signers.alice).refundPull(1),
+      ).to.changeEtherBalances(
+        [signers.alice, gachaContract],
+        [PULL_PRICE, -PULL_PRICE],
+      );
+      await expect(
+        gachaContract.connect(signers.alice).refundPull(1),
+      ).to.be.revertedWithCustomError(gachaContract, "AlreadyClaimed");
+      await gachaContract.connect(signers.alice).refundPull(2);
+      await expect(gachaContract.connect(signers.bob).refundPull(3))
+        .to.emit(gachaContract, "PullRefunded")
+        .withArgs(3, signers.bob.address, PULL_PRICE);
+      expect(await ethers.provider.getBalance(gachaContractAddress)).to.eq(0);
+
+      // A refunding batch never settles, even when the oracle answers late
+      await expect(
+        gachaContract.requestBatchDecryption(0),
+      ).to.be.revertedWithCustomError(gachaContract, "BatchRefunding");
+      await fhevm.awaitDecryptionOracle();
+      expect((await gachaContract.getBatchResult(1)).finalized).to.eq(false);
+      await expect(
+        gachaContract.connect(signers.alice).revealPull(1),
+      ).to.be.revertedWithCustomError(gachaContract, "BatchNotFinalized");
+    });
+
+    it("should let the owner refund a closed batch that was never decrypted", async function () {
+      await expect(
+        gachaContract.enableRefunds(2),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+
+      await time.increase(DEADLINE_SECONDS);
+      await expect(
+        gachaContract.connect(signers.alice).enableRefunds(1),
+      ).to.be.revertedWithCustomError(gachaContract, "NotRefundable");
+      await gachaContract.enableRefunds(1);
+      await expect(
+        gachaContract.connect(signers.alice).refundPull(1),
+      ).to.changeEtherBalance(signers.alice, PULL_PRICE);
+
+      // A refunding batch is done with, so the banner may move on
+      await gachaContract.openBatch(0);
+      await expect(
+        gachaContract.enableRefunds(2),
+      ).to.be.revertedWithCustomError(gachaContract, "BatchNotClosed");
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  ECONOMY,
+  bannerRollBounds,
+  economyDeployArgs,
+  rewardTierId,
+} from "../frontend/web/src/economy";
+import {
+  GachaFiFHE,
+  GachaFiFHE__factory,
+  GachaRewards,
+  GachaRewards__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const PULL_PRICE = ethers.parseEther(ECONOMY.banners[0].pullPrice);
+
+// Deploys a game with a single banner and its reward token
+async function deployFixture(
+  args = economyDeployArgs(ECONOMY),
+  bounds = bannerRollBounds(ECONOMY.banners[0]),
+) {
+  const gachaFactory = (await ethers.getContractFactory(
+    "GachaFiFHE",
+  )) as GachaFiFHE__factory;
+  const gachaContract = (await gachaFactory.deploy(...args)) as GachaFiFHE;
+  await gachaContract.createBanner(bounds, PULL_PRICE, 0);
+
+  const rewardsFactory = (await ethers.getContractFactory(
+    "GachaRewards",
+  )) as GachaRewards__factory;
+  const rewardsContract = (await rewardsFactory.deploy(
+    await gachaContract.getAddress(),
+  )) as GachaRewards;
+  const rewardsContractAddress = await rewardsContract.getAddress();
+  await gachaContract.setRewards(rewardsContractAddress);
+
+  return { gachaContract, rewardsContract, rewardsContractAddress };
+}
+
+describe("GachaRewards", function () {
+  let signers: Signers;
+  let gachaContract: GachaFiFHE;
+  let rewardsContract: GachaRewards;
+  let rewardsContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ gachaContract, rewardsContract, rewardsContractAddress } =
+      await deployFixture());
+  });
+
+  async function submitDraw(player: HardhatEthersSigner) {
+    return gachaContract
+      .connect(player)
+      .submitGachaDraw(0, 1, { value: PULL_PRICE });
+  }
+
+  async function canDecrypt(handle: string, player: HardhatEthersSigner) {
+    try {
+      await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        handle,
+        rewardsContractAddress,
+        player,
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  describe("wiring", function () {
+    it("should only let the game mint", async function () {
+      await expect(
+        rewardsContract.mint(signers.alice.address, 1, ethers.ZeroHash),
+      ).to.be.revertedWithCustomError(rewardsContract, "NotGame");
+    });
+
+    it("should only accept a reward contract minted by this game", async function () {
+      const { rewardsContract: otherRewards } = await deployFixture();
+      await expect(
+        gachaContract.setRewards(await otherRewards.getAddress()),
+      ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+      await expect(
+        gachaContract.connect(signers.alice).setRewards(rewardsContractAddress),
+      ).to.be.revertedWithCustomError(gachaContract, "MissingRole");
+    });
+
+    it("should not claim before a reward contract is set", async function () {
+      const gachaFactory = (await ethers.getContractFactory(
+        "GachaFiFHE",
+      )) as GachaFiFHE__factory;
+      gachaContract = (await gachaFactory.deploy(
+        ...economyDeployArgs(ECONOMY),
+      )) as GachaFiFHE;
+      await gachaContract.createBanner(
+        bannerRollBounds(ECONOMY.banners[0]),
+        PULL_PRICE,
+        0,
+      );
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice);
+      await gachaContract.closeBatch(0);
+
+      await expect(
+        gachaContract.connect(signers.alice).claimReward(1),
+      ).to.be.revertedWithCustomError(gachaContract, "RewardsNotSet");
+    });
+  });
+
+  describe("claims", function () {
+    it("should mint a token holding the encrypted rarity of a winning pull", async function () {
+      // Every roll clears the only bound, so each pull lands in the reward tier
+      ({ gachaContract, rewardsContract, rewardsContractAddress } =
+        await deployFixture([ECONOMY.version, [0, 100], 1, 1], [100]));
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice);
+
+      await expect(
+        gachaContract.connect(signers.alice).claimReward(1),
+      ).to.be.revertedWithCustomError(gachaContract, "BatchNotClosed");
+      await gachaContract.closeBatch(0);
+      await expect(
+        gachaContract.connect(signers.bob).claimReward(1),
+      ).to.be.revertedWithCustomError(gachaContract, "NotPlayer");
+
+      await expect(gachaContract.connect(signers.alice).claimReward(1)).to.emit(
+        gachaContract,
+        "RewardClaimRequested",
+      );
+      await expect(
+        gachaContract.connect(signers.alice).claimReward(1),
+      ).to.be.revertedWithCustomError(gachaContract, "AlreadyClaimed");
+      await fhevm.awaitDecryptionOracle();
+
+      const claim = await gachaContract.rewardClaims(1);
+      expect(claim.settled).to.eq(true);
+      expect(claim.won).to.eq(true);
+      expect(claim.tokenId).to.eq(1);
+      expect(await rewardsContract.ownerOf(1)).to.eq(signers.alice.address);
+      expect(await rewardsContract.tokenPull(1)).to.eq(1);
+
+      const handle = await rewardsContract.encryptedTokenRarity(1);
+      const rarity = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        handle,
+        rewardsContractAddress,
+        signers.alice,
+      );
+      expect(rarity).to.eq(1);
+      expect(await canDecrypt(handle, signers.bob)).to.eq(false);
+    });
+
+    it("should only mint for pulls at the reward tier or better", async function () {
+      await gachaContract.openBatch(0);
+      const players = (await ethers.getSigners()).slice(1, 6);
+      for (const player of players) {
+        await submitDraw(player);
+      }
+      await gachaContract.closeBatch(0);
+
+      const expectedWins: boolean[] = [];
+      for (const [index, player] of players.entries()) {
+        const pullId = index + 1;
+        const tier = await fhevm.debugger.decryptEuint(
+          FhevmType.euint8,
+          await gachaContract.encryptedPullRarity(pullId),
+        );
+        expectedWins.push(tier >= rewardTierId(ECONOMY));
+        await gachaContract.connect(player).claimReward(pullId);
+      }
+      await fhevm.awaitDecryptionOracle();
+
+      for (const [index, player] of players.entries()) {
+        const claim = await gachaContract.rewardClaims(index + 1);
+        expect(claim.won).to.eq(expectedWins[index]);
+        expect(await rewardsContract.balanceOf(player.address)).to.eq(
+          expectedWins[index] ? 1 : 0,
+        );
+      }
+      expect(await rewardsContract.totalSupply()).to.eq(
+        expectedWins.filter(Boolean).length,
+      );
+      // Claims publish whether a pull won, never its tier
+      expect(
+        await gachaContract.queryFilter(gachaContract.filters.PullRevealed()),
+      ).to.have.length(0);
+    });
+
+    it("should refund a pull whose claim is pending and drop the late answer", async function () {
+      ({ gachaContract, rewardsContract, rewardsContractAddress } =
+        await deployFixture([ECONOMY.version, [0, 100], 1, 1], [100]));
+      const deadline = Number(await gachaContract.decryptionDeadlineSeconds());
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice);
+      await gachaContract.closeBatch(0);
+      await gachaContract.requestBatchDecryption(0);
+      await gachaContract.connect(signers.alice).claimReward(1);
+
+      // Neither request is answered before the batch's decryption goes stale
+      await time.increase(deadline);
+      await gachaContract.connect(signers.alice).enableRefunds(1);
+      await expect(
+        gachaContract.connect(signers.alice).refundPull(1),
+      ).to.changeEtherBalance(signers.alice, PULL_PRICE);
+
+      await fhevm.awaitDecryptionOracle();
+      const claim = await gachaContract.rewardClaims(1);
+      expect(claim.settled).to.eq(true);
+      expect(claim.won).to.eq(false);
+      expect(await rewardsContract.totalSupply()).to.eq(0);
+    });
+
+    it("should keep a won reward token out of refunds", async function () {
+      ({ gachaContract, rewardsContract, rewardsContractAddress } =
+        await deployFixture([ECONOMY.version, [0, 100], 1, 1], [100]));
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice);
+      await gachaContract.closeBatch(0);
+      await gachaContract.connect(signers.alice).claimReward(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await gachaContract.enableRefunds(1);
+      await expect(
+        gachaContract.connect(signers.alice).refundPull(1),
+      ).to.be.revertedWithCustomError(gachaContract, "AlreadyClaimed");
+      expect(await rewardsContract.ownerOf(1)).to.eq(signers.alice.address);
+    });
+
+    it("should let a new holder decrypt a transferred token", async function () {
+      ({ gachaContract, rewardsContract, rewardsContractAddress } =
+        await deployFixture([ECONOMY.version, [0, 100], 1, 1], [100]));
+      await gachaContract.openBatch(0);
+      await submitDraw(signers.alice);
+      await gachaContract.closeBatch(0);
+      await gachaContract.connect(signers.alice).claimReward(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const handle = await rewardsContract.encryptedTokenRarity(1);
+      await rewardsContract
+        .connect(signers.alice)
+        .transferFrom(signers.alice.address, signers.bob.address, 1);
+
+      expect(
+        await rewardsContract.tokenOfOwnerByIndex(signers.bob.address, 0),
+      ).to.eq(1);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          handle,
+          rewardsContractAddress,
+          signers.bob,
+        ),
+      ).to.eq(1);
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { AddressInfo } from "net";
+import {
+  ECONOMY,
+  bannerDrawCap,
+  bannerRollBounds,
+  economyDeployArgs,
+} from "../frontend/web/src/economy";
+import type { Leaderboard } from "../frontend/web/src/leaderboard";
+import { ROLE, ROLE_NAMES } from "../frontend/web/src/roles";
+import { createApiServer } from "../indexer/api";
+import { BatchRow, IndexerDb, Stats } from "../indexer/db";
+import { GachaIndexer } from "../indexer/indexer";
+import { isWinningTier } from "../frontend/web/src/rarity";
+import { GachaFiFHE, GachaFiFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const COOLDOWN_SECONDS = 10;
+const PULL_PRICE = ethers.parseEther(ECONOMY.banners[0].pullPrice);
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "GachaFiFHE",
+  )) as GachaFiFHE__factory;
+  const gachaContract = (await factory.deploy(
+    ...economyDeployArgs(ECONOMY),
+  )) as GachaFiFHE;
+  const gachaContractAddress = await gachaContract.getAddress();
+  const deploymentBlock = (await gachaContract.deploymentTransaction()!.wait())!
+    .blockNumber;
+  for (const banner of ECONOMY.banners) {
+    await gachaContract.createBanner(
+      bannerRollBounds(banner),
+      ethers.parseEther(banner.pullPrice),
+      bannerDrawCap(banner),
+    );
+  }
+
+  return { gachaContract, gachaContractAddress, deploymentBlock };
+}
+
+describe("GachaIndexer", function () {
+  let signers: Signers;
+  let gachaContract: GachaFiFHE;
+  let gachaContractAddress: string;
+  let deploymentBlock: number;
+  let db: IndexerDb;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ gachaContract, gachaContractAddress, deploymentBlock } =
+      await deployFixture());
+    db = new IndexerDb(":memory:");
+  });
+
+  afterEach(function () {
+    db?.close();
+  });
+
+  function createIndexer(confirmations = 0) {
+    return new GachaIndexer({
+      provider: ethers.provider,
+      db,
+      gachaAddress: gachaContractAddress,
+      startBlock: deploymentBlock,
+      confirmations,
+      // Small pages so multi-page scans are exercised
+      pageSize: 2,
+    });
+  }
+
+  async function submitDraw(player: HardhatEthersSigner, drawCount: number) {
+    const tx = await gachaContract
+      .connect(player)
+      .submitGachaDraw(0, drawCount, { value: PULL_PRICE * BigInt(drawCount) });
+    return tx.wait();
+  }
+
+  // Rarity tiers are rolled on-chain, so expectations are read back from the ciphertexts
+  async function pullTier(pullId: number): Promise<number> {
+    return Number(
+      await fhevm.debugger.decryptEuint(
+        FhevmType.euint8,
+        await gachaContract.encryptedPullRarity(pullId),
+      ),
+    );
+  }
+
+  it("should index pulls, batches and decryption results", async function () {
+    await gachaContract.openBatch(0);
+    await submitDraw(signers.alice, 3);
+    await submitDraw(signers.bob, 1);
+    await time.increase(COOLDOWN_SECONDS);
+    await submitDraw(signers.alice, 2);
+    await gachaContract.closeBatch(0);
+    await gachaContract.requestBatchDecryption(0);
+    // Pulls are revealed once the batch pool is decrypted
+    await fhevm.awaitDecryptionOracle();
+    await gachaContract.connect(signers.alice).revealPull(1);
+    await gachaContract.connect(signers.bob).revealPull(4);
+    await fhevm.awaitDecryptionOracle();
+
+    const tip = await createIndexer().sync();
+    expect(tip).to.eq(await ethers.provider.getBlockNumber());
+
+    const stats = db.getStats();
+    expect(stats.players).to.eq(2);
+    // Every draw is a pull of its own
+    expect(stats.pulls).to.eq(6);
+    expect(stats.wins).to.eq(
+      [await pullTier(1), await pullTier(4)].filter(isWinningTier).length,
+    );
+    expect(stats.batches).to.eq(1);
+    expect(stats.decryptedBatches).to.eq(1);
+
+    const { pulls, total } = db.getPulls(
+      { player: signers.alice.address },
+      10,
+      0,
+    );
+    expect(total).to.eq(5);
+    expect(pulls.map((p) => p.pullId)).to.deep.eq([6, 5, 3, 2, 1]);
+    expect(pulls.map((p) => p.rarity)).to.deep.eq([
+      null,
+      null,
+      null,
+      null,
+      await pullTier(1),
+    ]);
+    // Pools are reported in ether: six draws at 0.01
+    expect(pulls[4].batchPrizePool).to.eq(0.06);
+    // Winnings are what the contract actually credited, also in ether
+    const accrued = await gachaContract.queryFilter(
+      gachaContract.filters.WinningsAccrued(1),
+    );
+    expect(pulls[4].winnings).to.eq(
+      accrued.length
+        ? Number(ethers.formatEther(accrued[0].args.amount))
+        : null,
+    );
+    expect(pulls[4].rarityHandle).to.eq(
+      await gachaContract.encryptedPullRarity(1),
+    );
+
+    const batch = db.getBatch(1)!;
+    expect(batch.bannerId).to.eq(0);
+    expect(batch.pulls).to.eq(6);
+    expect(batch.players).to.eq(2);
+    expect(batch.closedAt).to.not.eq(null);
+    expect(batch.totalPrizePool).to.eq(0.06);
+  });
+
+  it("should stay the confirmation depth behind the head", async function () {
+    await gachaContract.openBatch(0);
+    await submitDraw(signers.alice, 1);
+
+    const tip = await createIndexer(1).sync();
+    expect(tip).to.eq((await ethers.provider.getBlockNumber()) - 1);
+    expect(db.getStats().pulls).to.eq(0);
+    expect(db.getStats().batches).to.eq(1);
+  });
+
+  it("should roll back pulls from reorged blocks", async function () {
+    await gachaContract.openBatch(0);
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await submitDraw(signers.alice, 1);
+
+    const indexer = createIndexer();
+    await indexer.sync();
+    expect(db.getPulls({}, 10, 0).pulls[0].player).to.eq(signers.alice.address);
+
+    // Replace alice's block with a competing one holding bob's pull
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await submitDraw(signers.bob, 4);
+    await ethers.provider.send("hardhat_mine", ["0x2"]);
+
+    await indexer.sync();
+    const { pulls, total } = db.getPulls({}, 10, 0);
+    expect(total).to.eq(4);
+    expect(pulls.every((p) => p.player === signers.bob.address)).to.eq(true);
+    expect(db.getStats().players).to.eq(1);
+  });
+
+  it("should index role and ownership changes", async function () {
+    await gachaContract.grantRole(ROLE.Operator, signers.alice.address);
+    await gachaContract.revokeRole(ROLE.Operator, signers.alice.address);
+    await gachaContract.transferOwnership(signers.bob.address);
+    await gachaContract.connect(signers.bob).acceptOwnership();
+    await createIndexer().sync();
+
+    const events = db.getAdminEvents(50, 0).reverse();
+    const { deployer, alice, bob } = signers;
+    // Deployment hands ownership and every role to the deployer
+    const deployment = events.slice(0, ROLE_NAMES.length + 1);
+    expect(deployment[0]).to.deep.include({
+      event: "OwnershipTransferred",
+      account: deployer.address,
+      sender: ethers.ZeroAddress,
+    });
+    expect(
+      events
+        .slice(deployment.length)
+        .map((e) => [e.event, e.role, e.account, e.sender]),
+    ).to.deep.eq([
+      ["RoleGranted", ROLE.Operator, alice.address, deployer.address],
+      ["RoleRevoked", ROLE.Operator, alice.address, deployer.address],
+      ["OwnershipTransferStarted", null, bob.address, deployer.address],
+      ["OwnershipTransferred", null, bob.address, deployer.address],
+      // The deployer's roles move to the new owner
+      ...ROLE_NAMES.flatMap((_, role) => [
+        ["RoleRevoked", role, deployer.address, bob.address],
+        ["RoleGranted", role, bob.address, bob.address],
+      ]),
+    ]);
+  });
+
+  it("should serve indexed data over the JSON API", async function () {
+    await gachaContract.openBatch(0);
+    await submitDraw(signers.alice, 2);
+    await submitDraw(signers.bob, 1);
+    await time.increase(COOLDOWN_SECONDS);
+    await submitDraw(signers.alice, 1);
+    await gachaContract.closeBatch(0);
+    await gachaContract.requestBatchDecryption(0);
+    await fhevm.awaitDecryptionOracle();
+    await gachaContract.connect(signers.alice).revealPull(1);
+    await gachaContract.connect(signers.bob).revealPull(3);
+    await fhevm.awaitDecryptionOracle();
+    await createIndexer().sync();
+
+    const server = createApiServer(db);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    const get = (path: string) => fetch(`http://127.0.0.1:${port}${path}`);
+
+    try {
+      const pulls = await get(
+        `/players/${signers.alice.address.toLowerCase()}/pulls`,
+      );
+      expect(pulls.status).to.eq(200);
+      expect(((await pulls.json()) as { total: number }).total).to.eq(3);
+
+      const stats = (await (await get("/stats")).json()) as Stats;
+      expect(stats.chainId).to.eq(null);
+      expect(stats.pulls).to.eq(4);
+
+      const batches = (await (await get("/batches")).json()) as {
+        batches: BatchRow[];
+      };
+      expect(batches.batches[0].batchId).to.eq(1);
+
+      // Bob pulled less than alice, so he ranks below the limit but is still reported
+      const leaderboard = (await (
+        await get(
+          `/leaderboard?sortBy=pulls&window=batch&limit=1&player=${signers.bob.address}`,
+        )
+      ).json()) as Leaderboard;
+      expect(leaderboard.batchId).to.eq(1);
+      expect(leaderboard.entries.map((e) => e.player)).to.deep.eq([
+        signers.alice.address,
+      ]);
+      expect(leaderboard.player).to.deep.include({
+        rank: 2,
+        wins: isWinningTier(await pullTier(3)) ? 1 : 0,
+        pulls: 1,
+      });
+      expect((await get("/leaderboard?window=month")).status).to.eq(400);
+
+      expect((await get("/pulls?player=0x1234")).status).to.eq(400);
+      expect((await get("/pulls?limit=-1")).status).to.eq(400);
+      expect((await get("/batches/9")).status).to.eq(404);
+      expect((await get("/unknown")).status).to.eq(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
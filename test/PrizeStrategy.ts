@@ -0,0 +1,265 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { ECONOMY } from "../frontend/web/src/economy";
+import { ROLE } from "../frontend/web/src/roles";
+import { PARAM } from "../frontend/web/src/timelock";
+import {
+  GachaFiFHE,
+  GachaFiFHE__factory,
+  MockPrizeVault,
+  MockPrizeVault__factory,
+  MockWETH,
+  MockWETH__factory,
+  VaultStrategy,
+  VaultStrategy__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const PULL_PRICE = ethers.parseEther(ECONOMY.banners[0].pullPrice);
+
+// Queues a strategy swap and executes it once the timelock delay has passed
+async function swapStrategy(gachaContract: GachaFiFHE, strategy: string) {
+  await gachaContract.queueChange(PARAM.Strategy, 0, BigInt(strategy));
+  await time.increase(await gachaContract.timelockDelay());
+  return gachaContract.executeChange(await gachaContract.changeCount());
+}
+
+// Deploys a game whose every pull shares the whole batch pool, invested through a strategy over a mock vault
+async function deployFixture() {
+  const gachaFactory = (await ethers.getContractFactory(
+    "GachaFiFHE",
+  )) as GachaFiFHE__factory;
+  const gachaContract = (await gachaFactory.deploy(
+    ECONOMY.version,
+    [0, 10_000],
+    1,
+    1,
+  )) as GachaFiFHE;
+  await gachaContract.createBanner([100], PULL_PRICE, 0);
+  const gachaContractAddress = await gachaContract.getAddress();
+
+  const wethFactory = (await ethers.getContractFactory(
+    "MockWETH",
+  )) as MockWETH__factory;
+  const weth = (await wethFactory.deploy()) as MockWETH;
+  const vaultFactory = (await ethers.getContractFactory(
+    "MockPrizeVault",
+  )) as MockPrizeVault__factory;
+  const vault = (await vaultFactory.deploy(
+    await weth.getAddress(),
+  )) as MockPrizeVault;
+
+  const strategyFactory = (await ethers.getContractFactory(
+    "VaultStrategy",
+  )) as VaultStrategy__factory;
+  const strategy = (await strategyFactory.deploy(
+    gachaContractAddress,
+    await vault.getAddress(),
+  )) as VaultStrategy;
+  await swapStrategy(gachaContract, await strategy.getAddress());
+
+  return { gachaContract, gachaContractAddress, weth, vault, strategy };
+}
+
+describe("PrizeStrategy", function () {
+  let signers: Signers;
+  let gachaContract: GachaFiFHE;
+  let gachaContractAddress: string;
+  let weth: MockWETH;
+  let vault: MockPrizeVault;
+  let strategy: VaultStrategy;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ gachaContract, gachaContractAddress, weth, vault, strategy } =
+      await deployFixture());
+    await gachaContract.openBatch(0);
+    await gachaContract
+      .connect(signers.alice)
+      .submitGachaDraw(0, 1, { value: PULL_PRICE });
+    await gachaContract
+      .connect(signers.bob)
+      .submitGachaDraw(0, 1, { value: PULL_PRICE });
+  });
+
+  async function balanceOf(address: string) {
+    return ethers.provider.getBalance(address);
+  }
+
+  async function accrueYield(amount: bigint) {
+    await weth.deposit({ value: amount });
+    await weth.approve(await vault.getAddress(), amount);
+    await vault.accrueYield(amount);
+  }
+
+  it("should only accept a strategy built for this game", async function () {
+    const { strategy: otherStrategy } = await deployFixture();
+    await expect(
+      gachaContract.queueChange(
+        PARAM.Strategy,
+        0,
+        BigInt(await otherStrategy.getAddress()),
+      ),
+    ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+    await expect(
+      gachaContract.queueChange(PARAM.Strategy, 0, 2n ** 160n),
+    ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+    await expect(
+      strategy.connect(signers.alice).withdraw(1),
+    ).to.be.revertedWithCustomError(strategy, "NotGame");
+  });
+
+  it("should only let treasurers switch strategies, after the timelock", async function () {
+    await gachaContract.grantRole(ROLE.Treasurer, signers.alice.address);
+    await gachaContract.grantRole(ROLE.Admin, signers.bob.address);
+    await expect(
+      gachaContract.connect(signers.bob).queueChange(PARAM.Strategy, 0, 0),
+    )
+      .to.be.revertedWithCustomError(gachaContract, "MissingRole")
+      .withArgs(ROLE.Treasurer);
+
+    await gachaContract
+      .connect(signers.alice)
+      .queueChange(PARAM.Strategy, 0, 0);
+    const changeId = await gachaContract.changeCount();
+    await expect(
+      gachaContract.executeChange(changeId),
+    ).to.be.revertedWithCustomError(gachaContract, "ChangeNotReady");
+    await expect(gachaContract.connect(signers.bob).cancelChange(changeId))
+      .to.be.revertedWithCustomError(gachaContract, "MissingRole")
+      .withArgs(ROLE.Treasurer);
+
+    await time.increase(await gachaContract.timelockDelay());
+    await expect(gachaContract.executeChange(changeId))
+      .to.emit(gachaContract, "StrategySet")
+      .withArgs(ethers.ZeroAddress);
+    expect(await gachaContract.strategy()).to.eq(ethers.ZeroAddress);
+  });
+
+  it("should invest idle funds into the vault", async function () {
+    await expect(
+      gachaContract.connect(signers.alice).investIdleFunds(),
+    ).to.be.revertedWithCustomError(gachaContract, "MissingRole");
+
+    await expect(gachaContract.investIdleFunds())
+      .to.emit(gachaContract, "FundsInvested")
+      .withArgs(PULL_PRICE * 2n);
+    expect(await balanceOf(gachaContractAddress)).to.eq(0);
+    expect(await strategy.totalAssets()).to.eq(PULL_PRICE * 2n);
+    expect(await vault.totalAssets()).to.eq(PULL_PRICE * 2n);
+
+    await expect(gachaContract.investIdleFunds()).to.be.revertedWithCustomError(
+      gachaContract,
+      "NothingToInvest",
+    );
+    await swapStrategy(gachaContract, ethers.ZeroAddress);
+    await expect(gachaContract.investIdleFunds()).to.be.revertedWithCustomError(
+      gachaContract,
+      "StrategyNotSet",
+    );
+  });
+
+  it("should grow the invested pool with vault yield", async function () {
+    await gachaContract.investIdleFunds();
+    const yieldAmount = PULL_PRICE / 2n;
+    await accrueYield(yieldAmount);
+
+    // The vault rounds redemptions down by at most a wei
+    expect(await strategy.totalAssets()).to.be.closeTo(
+      PULL_PRICE * 2n + yieldAmount,
+      1n,
+    );
+  });
+
+  it("should withdraw from the vault to pay a claim", async function () {
+    await gachaContract.closeBatch(0);
+    await gachaContract.requestBatchDecryption(0);
+    await fhevm.awaitDecryptionOracle();
+    await gachaContract.connect(signers.alice).revealPull(1);
+    await fhevm.awaitDecryptionOracle();
+    await gachaContract.investIdleFunds();
+
+    // Alice and Bob both won, so Alice's share is half the pool
+    const share = PULL_PRICE;
+    expect(await gachaContract.claimableWinnings(signers.alice.address)).to.eq(
+      share,
+    );
+    await expect(
+      gachaContract.connect(signers.alice).claim(),
+    ).to.changeEtherBalances([signers.alice, gachaContract], [share, 0n]);
+    expect(await strategy.totalAssets()).to.eq(PULL_PRICE * 2n - share);
+
+    const events = await gachaContract.queryFilter(
+      gachaContract.filters.FundsDivested(),
+    );
+    expect(events.map((e) => e.args.amount)).to.deep.eq([share]);
+  });
+
+  it("should hand vault yield to the banner's next batch", async function () {
+    await gachaContract.investIdleFunds();
+    await expect(gachaContract.harvestYield(0)).to.be.revertedWithCustomError(
+      gachaContract,
+      "NothingToClaim",
+    );
+    await accrueYield(PULL_PRICE);
+    await expect(
+      gachaContract.connect(signers.alice).harvestYield(0),
+    ).to.be.revertedWithCustomError(gachaContract, "MissingRole");
+
+    await expect(gachaContract.harvestYield(0)).to.emit(
+      gachaContract,
+      "YieldHarvested",
+    );
+    const harvested = await gachaContract.bannerCarry(0);
+    expect(harvested).to.be.closeTo(PULL_PRICE, 1n);
+    expect(await gachaContract.reservedFunds()).to.eq(
+      PULL_PRICE * 2n + harvested,
+    );
+
+    await gachaContract.closeBatch(0);
+    await gachaContract.requestBatchDecryption(0);
+    await fhevm.awaitDecryptionOracle();
+    await gachaContract.openBatch(0);
+    expect(await gachaContract.batchCarry(2)).to.eq(harvested);
+  });
+
+  it("should bring invested funds back when the strategy is replaced", async function () {
+    await gachaContract.investIdleFunds();
+    await accrueYield(PULL_PRICE);
+    const invested = await strategy.totalAssets();
+
+    await expect(swapStrategy(gachaContract, ethers.ZeroAddress))
+      .to.emit(gachaContract, "StrategySet")
+      .withArgs(ethers.ZeroAddress);
+    expect(await balanceOf(gachaContractAddress)).to.eq(invested);
+    expect(await vault.balanceOf(await strategy.getAddress())).to.be.lte(1);
+
+    // Plain transfers are refused, so the contract only holds deposits and strategy returns
+    await expect(
+      signers.alice.sendTransaction({
+        to: gachaContractAddress,
+        value: PULL_PRICE,
+      }),
+    ).to.be.revertedWithCustomError(gachaContract, "InvalidParameter");
+  });
+});
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC4626 } from "./ERC4626";
+export type { IERC20Metadata } from "./IERC20Metadata";
@@ -0,0 +1,2840 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace GachaFiFHE {
+  export type BatchResultStruct = {
+    finalized: boolean;
+    prizePool: BigNumberish;
+    drawCount: BigNumberish;
+    accrued: BigNumberish;
+    settledAt: BigNumberish;
+    requestId: BigNumberish;
+    rolledOver: BigNumberish;
+  };
+
+  export type BatchResultStructOutput = [
+    finalized: boolean,
+    prizePool: bigint,
+    drawCount: bigint,
+    accrued: bigint,
+    settledAt: bigint,
+    requestId: bigint,
+    rolledOver: bigint
+  ] & {
+    finalized: boolean;
+    prizePool: bigint;
+    drawCount: bigint;
+    accrued: bigint;
+    settledAt: bigint;
+    requestId: bigint;
+    rolledOver: bigint;
+  };
+
+  export type PendingChangeStruct = {
+    id: BigNumberish;
+    param: BigNumberish;
+    bannerId: BigNumberish;
+    value: BigNumberish;
+    executableAt: BigNumberish;
+  };
+
+  export type PendingChangeStructOutput = [
+    id: bigint,
+    param: bigint,
+    bannerId: bigint,
+    value: bigint,
+    executableAt: bigint
+  ] & {
+    id: bigint;
+    param: bigint;
+    bannerId: bigint;
+    value: bigint;
+    executableAt: bigint;
+  };
+}
+
+export interface GachaFiFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "BPS"
+      | "MAX_DRAWS_PER_SUBMISSION"
+      | "REVEAL_WINDOW"
+      | "ROLL_RANGE"
+      | "acceptOwnership"
+      | "bannerCarry"
+      | "bannerCount"
+      | "banners"
+      | "batchBanner"
+      | "batchCarry"
+      | "batchCount"
+      | "batchDrawCap"
+      | "batchPullPrice"
+      | "batchResults"
+      | "batchSettlements"
+      | "batchTierWinners"
+      | "cancelChange"
+      | "changeCount"
+      | "claim"
+      | "claimReward"
+      | "claimableWinnings"
+      | "claimedWinnings"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "createBanner"
+      | "decryptionContexts"
+      | "decryptionDeadlineSeconds"
+      | "economyVersion"
+      | "enableRefunds"
+      | "encryptedDrawCount"
+      | "encryptedPityCounters"
+      | "encryptedPlayerDrawCounts"
+      | "encryptedPullRarity"
+      | "encryptedTierWinners"
+      | "encryptedTotalPrizePool"
+      | "executeChange"
+      | "getBannerRollBounds"
+      | "getBatchResult"
+      | "getBatchResults"
+      | "getPendingChanges"
+      | "getTierPayoutBps"
+      | "grantRole"
+      | "harvestYield"
+      | "hasRole"
+      | "investIdleFunds"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "paused"
+      | "pendingOwner"
+      | "pityThreshold"
+      | "pityTier"
+      | "protocolId"
+      | "pullBatch"
+      | "pullCount"
+      | "pullPayment"
+      | "pullPlayer"
+      | "pullRefunded"
+      | "pullReveals"
+      | "queueChange"
+      | "refundPull"
+      | "renounceRole"
+      | "requestBatchDecryption"
+      | "reservedFunds"
+      | "revealCallback"
+      | "revealPull"
+      | "revealRequestPull"
+      | "revokeRole"
+      | "rewardCallback"
+      | "rewardClaims"
+      | "rewardRequestPull"
+      | "rewardTier"
+      | "rewards"
+      | "rolloverRemainder"
+      | "setDecryptionDeadline"
+      | "setPaused"
+      | "setRewards"
+      | "strategy"
+      | "submitGachaDraw"
+      | "tierCount"
+      | "timelockDelay"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BannerCreated"
+      | "BannerDrawCapSet"
+      | "BannerPullPriceSet"
+      | "BatchClosed"
+      | "BatchOpened"
+      | "ChangeCancelled"
+      | "ChangeExecuted"
+      | "ChangeQueued"
+      | "CooldownSecondsSet"
+      | "DecryptionCompleted"
+      | "DecryptionDeadlineSet"
+      | "DecryptionDropped"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DecryptionSuperseded"
+      | "EconomyConfigured"
+      | "FundsDivested"
+      | "FundsInvested"
+      | "GachaSubmitted"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "PausedSet"
+      | "PullRefunded"
+      | "PullRevealRequested"
+      | "PullRevealed"
+      | "RefundsEnabled"
+      | "RemainderRolledOver"
+      | "RewardClaimRequested"
+      | "RewardClaimSettled"
+      | "RewardsSet"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "StrategySet"
+      | "TimelockDelaySet"
+      | "WinningsAccrued"
+      | "WinningsClaimed"
+      | "YieldHarvested"
+  ): EventFragment;
+
+  encodeFunctionData(functionFragment: "BPS", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_DRAWS_PER_SUBMISSION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REVEAL_WINDOW",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ROLL_RANGE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bannerCarry",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bannerCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "banners",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchBanner",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchCarry",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchDrawCap",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchPullPrice",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchResults",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchSettlements",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchTierWinners",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelChange",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "changeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "claim", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "claimReward",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimableWinnings",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimedWinnings",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createBanner",
+    values: [BigNumberish[], BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionDeadlineSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "economyVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "enableRefunds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedDrawCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedPityCounters",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedPlayerDrawCounts",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedPullRarity",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedTierWinners",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedTotalPrizePool",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeChange",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBannerRollBounds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchResult",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchResults",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingChanges",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTierPayoutBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "harvestYield",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "investIdleFunds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pityThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "pityTier", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pullBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "pullCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pullPayment",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pullPlayer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pullRefunded",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pullReveals",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queueChange",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundPull",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reservedFunds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealPull",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealRequestPull",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardClaims",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardRequestPull",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardTier",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "rewards", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "rolloverRemainder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDecryptionDeadline",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "setRewards",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "strategy", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "submitGachaDraw",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "tierCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "timelockDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "BPS", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_DRAWS_PER_SUBMISSION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REVEAL_WINDOW",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "ROLL_RANGE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "bannerCarry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "bannerCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "banners", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchBanner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchCarry", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "batchCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchDrawCap",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchPullPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchSettlements",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchTierWinners",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "changeCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claim", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimReward",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimableWinnings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimedWinnings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createBanner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionDeadlineSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "economyVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "enableRefunds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedDrawCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedPityCounters",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedPlayerDrawCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedPullRarity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedTierWinners",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedTotalPrizePool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBannerRollBounds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingChanges",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTierPayoutBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "harvestYield",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "investIdleFunds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pityThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pityTier", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pullBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pullCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pullPayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pullPlayer", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pullRefunded",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pullReveals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "queueChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "refundPull", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reservedFunds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revealPull", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "revealRequestPull",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardClaims",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardRequestPull",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "rewardTier", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "rewards", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rolloverRemainder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDecryptionDeadline",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setRewards", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "strategy", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitGachaDraw",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tierCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "timelockDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BannerCreatedEvent {
+  export type InputTuple = [
+    bannerId: BigNumberish,
+    pullPrice: BigNumberish,
+    drawCap: BigNumberish,
+    tierRollBounds: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    bannerId: bigint,
+    pullPrice: bigint,
+    drawCap: bigint,
+    tierRollBounds: bigint[]
+  ];
+  export interface OutputObject {
+    bannerId: bigint;
+    pullPrice: bigint;
+    drawCap: bigint;
+    tierRollBounds: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BannerDrawCapSetEvent {
+  export type InputTuple = [bannerId: BigNumberish, drawCap: BigNumberish];
+  export type OutputTuple = [bannerId: bigint, drawCap: bigint];
+  export interface OutputObject {
+    bannerId: bigint;
+    drawCap: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BannerPullPriceSetEvent {
+  export type InputTuple = [bannerId: BigNumberish, pullPrice: BigNumberish];
+  export type OutputTuple = [bannerId: bigint, pullPrice: bigint];
+  export interface OutputObject {
+    bannerId: bigint;
+    pullPrice: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [bannerId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [bannerId: bigint, batchId: bigint];
+  export interface OutputObject {
+    bannerId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [bannerId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [bannerId: bigint, batchId: bigint];
+  export interface OutputObject {
+    bannerId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChangeCancelledEvent {
+  export type InputTuple = [changeId: BigNumberish];
+  export type OutputTuple = [changeId: bigint];
+  export interface OutputObject {
+    changeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChangeExecutedEvent {
+  export type InputTuple = [changeId: BigNumberish];
+  export type OutputTuple = [changeId: bigint];
+  export interface OutputObject {
+    changeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChangeQueuedEvent {
+  export type InputTuple = [
+    changeId: BigNumberish,
+    param: BigNumberish,
+    bannerId: BigNumberish,
+    value: BigNumberish,
+    executableAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    changeId: bigint,
+    param: bigint,
+    bannerId: bigint,
+    value: bigint,
+    executableAt: bigint
+  ];
+  export interface OutputObject {
+    changeId: bigint;
+    param: bigint;
+    bannerId: bigint;
+    value: bigint;
+    executableAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [cooldownSeconds: BigNumberish];
+  export type OutputTuple = [cooldownSeconds: bigint];
+  export interface OutputObject {
+    cooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    totalPrizePool: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    totalPrizePool: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    totalPrizePool: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionDeadlineSetEvent {
+  export type InputTuple = [decryptionDeadlineSeconds: BigNumberish];
+  export type OutputTuple = [decryptionDeadlineSeconds: bigint];
+  export interface OutputObject {
+    decryptionDeadlineSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionDroppedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionSupersededEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EconomyConfiguredEvent {
+  export type InputTuple = [
+    version: BigNumberish,
+    tierPayoutBps: BigNumberish[],
+    pityThreshold: BigNumberish,
+    pityTier: BigNumberish
+  ];
+  export type OutputTuple = [
+    version: bigint,
+    tierPayoutBps: bigint[],
+    pityThreshold: bigint,
+    pityTier: bigint
+  ];
+  export interface OutputObject {
+    version: bigint;
+    tierPayoutBps: bigint[];
+    pityThreshold: bigint;
+    pityTier: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundsDivestedEvent {
+  export type InputTuple = [amount: BigNumberish];
+  export type OutputTuple = [amount: bigint];
+  export interface OutputObject {
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundsInvestedEvent {
+  export type InputTuple = [amount: BigNumberish];
+  export type OutputTuple = [amount: bigint];
+  export interface OutputObject {
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GachaSubmittedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    batchId: BigNumberish,
+    pullId: BigNumberish,
+    rarityHandle: BytesLike
+  ];
+  export type OutputTuple = [
+    player: string,
+    batchId: bigint,
+    pullId: bigint,
+    rarityHandle: string
+  ];
+  export interface OutputObject {
+    player: string;
+    batchId: bigint;
+    pullId: bigint;
+    rarityHandle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedSetEvent {
+  export type InputTuple = [paused: boolean];
+  export type OutputTuple = [paused: boolean];
+  export interface OutputObject {
+    paused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PullRefundedEvent {
+  export type InputTuple = [
+    pullId: BigNumberish,
+    player: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [pullId: bigint, player: string, amount: bigint];
+  export interface OutputObject {
+    pullId: bigint;
+    player: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PullRevealRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, pullId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, pullId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    pullId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PullRevealedEvent {
+  export type InputTuple = [
+    pullId: BigNumberish,
+    player: AddressLike,
+    batchId: BigNumberish,
+    rarity: BigNumberish
+  ];
+  export type OutputTuple = [
+    pullId: bigint,
+    player: string,
+    batchId: bigint,
+    rarity: bigint
+  ];
+  export interface OutputObject {
+    pullId: bigint;
+    player: string;
+    batchId: bigint;
+    rarity: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundsEnabledEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RemainderRolledOverEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    bannerId: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, bannerId: bigint, amount: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    bannerId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardClaimRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, pullId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, pullId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    pullId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardClaimSettledEvent {
+  export type InputTuple = [
+    pullId: BigNumberish,
+    player: AddressLike,
+    won: boolean,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [
+    pullId: bigint,
+    player: string,
+    won: boolean,
+    tokenId: bigint
+  ];
+  export interface OutputObject {
+    pullId: bigint;
+    player: string;
+    won: boolean;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardsSetEvent {
+  export type InputTuple = [rewards: AddressLike];
+  export type OutputTuple = [rewards: string];
+  export interface OutputObject {
+    rewards: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BigNumberish,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: bigint, account: string, sender: string];
+  export interface OutputObject {
+    role: bigint;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BigNumberish,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: bigint, account: string, sender: string];
+  export interface OutputObject {
+    role: bigint;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StrategySetEvent {
+  export type InputTuple = [strategy: AddressLike];
+  export type OutputTuple = [strategy: string];
+  export interface OutputObject {
+    strategy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimelockDelaySetEvent {
+  export type InputTuple = [timelockDelay: BigNumberish];
+  export type OutputTuple = [timelockDelay: bigint];
+  export interface OutputObject {
+    timelockDelay: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinningsAccruedEvent {
+  export type InputTuple = [
+    pullId: BigNumberish,
+    player: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [pullId: bigint, player: string, amount: bigint];
+  export interface OutputObject {
+    pullId: bigint;
+    player: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinningsClaimedEvent {
+  export type InputTuple = [player: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [player: string, amount: bigint];
+  export interface OutputObject {
+    player: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace YieldHarvestedEvent {
+  export type InputTuple = [bannerId: BigNumberish, amount: BigNumberish];
+  export type OutputTuple = [bannerId: bigint, amount: bigint];
+  export interface OutputObject {
+    bannerId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface GachaFiFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): GachaFiFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: GachaFiFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_DRAWS_PER_SUBMISSION: TypedContractMethod<[], [bigint], "view">;
+
+  REVEAL_WINDOW: TypedContractMethod<[], [bigint], "view">;
+
+  ROLL_RANGE: TypedContractMethod<[], [bigint], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  bannerCarry: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  bannerCount: TypedContractMethod<[], [bigint], "view">;
+
+  banners: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint, bigint, bigint] & {
+        exists: boolean;
+        batchOpen: boolean;
+        currentBatchId: bigint;
+        pullPrice: bigint;
+        drawCap: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  batchBanner: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  batchCarry: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  batchCount: TypedContractMethod<[], [bigint], "view">;
+
+  batchDrawCap: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  batchPullPrice: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  batchResults: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, bigint, bigint, bigint, bigint, bigint, bigint] & {
+        finalized: boolean;
+        prizePool: bigint;
+        drawCount: bigint;
+        accrued: bigint;
+        settledAt: bigint;
+        requestId: bigint;
+        rolledOver: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  batchSettlements: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, bigint, bigint, boolean] & {
+        pending: boolean;
+        requestId: bigint;
+        requestedAt: bigint;
+        refunding: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  batchTierWinners: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  cancelChange: TypedContractMethod<
+    [_changeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  changeCount: TypedContractMethod<[], [bigint], "view">;
+
+  claim: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimReward: TypedContractMethod<
+    [pullId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimableWinnings: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  claimedWinnings: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  closeBatch: TypedContractMethod<
+    [_bannerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createBanner: TypedContractMethod<
+    [
+      _tierRollBounds: BigNumberish[],
+      _pullPrice: BigNumberish,
+      _drawCap: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        superseded: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  decryptionDeadlineSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  economyVersion: TypedContractMethod<[], [bigint], "view">;
+
+  enableRefunds: TypedContractMethod<
+    [_batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedDrawCount: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedPityCounters: TypedContractMethod<
+    [arg0: AddressLike],
+    [string],
+    "view"
+  >;
+
+  encryptedPlayerDrawCounts: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  encryptedPullRarity: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedTierWinners: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedTotalPrizePool: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  executeChange: TypedContractMethod<
+    [_changeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getBannerRollBounds: TypedContractMethod<
+    [_bannerId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getBatchResult: TypedContractMethod<
+    [_batchId: BigNumberish],
+    [GachaFiFHE.BatchResultStructOutput],
+    "view"
+  >;
+
+  getBatchResults: TypedContractMethod<
+    [_fromBatchId: BigNumberish, _limit: BigNumberish],
+    [GachaFiFHE.BatchResultStructOutput[]],
+    "view"
+  >;
+
+  getPendingChanges: TypedContractMethod<
+    [],
+    [GachaFiFHE.PendingChangeStructOutput[]],
+    "view"
+  >;
+
+  getTierPayoutBps: TypedContractMethod<[], [bigint[]], "view">;
+
+  grantRole: TypedContractMethod<
+    [_role: BigNumberish, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  harvestYield: TypedContractMethod<
+    [_bannerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  investIdleFunds: TypedContractMethod<[], [void], "nonpayable">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<
+    [_bannerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  pityThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  pityTier: TypedContractMethod<[], [bigint], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  pullBatch: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  pullCount: TypedContractMethod<[], [bigint], "view">;
+
+  pullPayment: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  pullPlayer: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  pullRefunded: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  pullReveals: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint] & {
+        requested: boolean;
+        revealed: boolean;
+        rarity: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  queueChange: TypedContractMethod<
+    [_param: BigNumberish, _bannerId: BigNumberish, _value: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  refundPull: TypedContractMethod<[pullId: BigNumberish], [void], "nonpayable">;
+
+  renounceRole: TypedContractMethod<
+    [_role: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchDecryption: TypedContractMethod<
+    [_bannerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reservedFunds: TypedContractMethod<[], [bigint], "view">;
+
+  revealCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revealPull: TypedContractMethod<[pullId: BigNumberish], [void], "nonpayable">;
+
+  revealRequestPull: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [_role: BigNumberish, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  rewardCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  rewardClaims: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, boolean, bigint] & {
+        requested: boolean;
+        settled: boolean;
+        won: boolean;
+        tokenId: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  rewardRequestPull: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  rewardTier: TypedContractMethod<[], [bigint], "view">;
+
+  rewards: TypedContractMethod<[], [string], "view">;
+
+  rolloverRemainder: TypedContractMethod<
+    [_batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDecryptionDeadline: TypedContractMethod<
+    [_decryptionDeadlineSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  setRewards: TypedContractMethod<
+    [_rewards: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  strategy: TypedContractMethod<[], [string], "view">;
+
+  submitGachaDraw: TypedContractMethod<
+    [_bannerId: BigNumberish, _drawCount: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+
+  tierCount: TypedContractMethod<[], [bigint], "view">;
+
+  timelockDelay: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [_newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_DRAWS_PER_SUBMISSION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REVEAL_WINDOW"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ROLL_RANGE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "bannerCarry"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "bannerCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "banners"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint, bigint, bigint] & {
+        exists: boolean;
+        batchOpen: boolean;
+        currentBatchId: bigint;
+        pullPrice: bigint;
+        drawCap: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchBanner"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchCarry"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchDrawCap"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchPullPrice"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchResults"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, bigint, bigint, bigint, bigint, bigint, bigint] & {
+        finalized: boolean;
+        prizePool: bigint;
+        drawCount: bigint;
+        accrued: bigint;
+        settledAt: bigint;
+        requestId: bigint;
+        rolledOver: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchSettlements"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, bigint, bigint, boolean] & {
+        pending: boolean;
+        requestId: bigint;
+        requestedAt: bigint;
+        refunding: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchTierWinners"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelChange"
+  ): TypedContractMethod<[_changeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "changeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claim"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimReward"
+  ): TypedContractMethod<[pullId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimableWinnings"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claimedWinnings"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[_bannerId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createBanner"
+  ): TypedContractMethod<
+    [
+      _tierRollBounds: BigNumberish[],
+      _pullPrice: BigNumberish,
+      _drawCap: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        superseded: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionDeadlineSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "economyVersion"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "enableRefunds"
+  ): TypedContractMethod<[_batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "encryptedDrawCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedPityCounters"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedPlayerDrawCounts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedPullRarity"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedTierWinners"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedTotalPrizePool"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "executeChange"
+  ): TypedContractMethod<[_changeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getBannerRollBounds"
+  ): TypedContractMethod<[_bannerId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getBatchResult"
+  ): TypedContractMethod<
+    [_batchId: BigNumberish],
+    [GachaFiFHE.BatchResultStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchResults"
+  ): TypedContractMethod<
+    [_fromBatchId: BigNumberish, _limit: BigNumberish],
+    [GachaFiFHE.BatchResultStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPendingChanges"
+  ): TypedContractMethod<[], [GachaFiFHE.PendingChangeStructOutput[]], "view">;
+  getFunction(
+    nameOrSignature: "getTierPayoutBps"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [_role: BigNumberish, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "harvestYield"
+  ): TypedContractMethod<[_bannerId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "investIdleFunds"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[_bannerId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pityThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pityTier"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pullBatch"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pullCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pullPayment"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pullPlayer"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "pullRefunded"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pullReveals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint] & {
+        requested: boolean;
+        revealed: boolean;
+        rarity: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "queueChange"
+  ): TypedContractMethod<
+    [_param: BigNumberish, _bannerId: BigNumberish, _value: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "refundPull"
+  ): TypedContractMethod<[pullId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<[_role: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchDecryption"
+  ): TypedContractMethod<[_bannerId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reservedFunds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revealCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealPull"
+  ): TypedContractMethod<[pullId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealRequestPull"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [_role: BigNumberish, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rewardCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rewardClaims"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, boolean, bigint] & {
+        requested: boolean;
+        settled: boolean;
+        won: boolean;
+        tokenId: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "rewardRequestPull"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rewardTier"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rewards"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "rolloverRemainder"
+  ): TypedContractMethod<[_batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDecryptionDeadline"
+  ): TypedContractMethod<
+    [_decryptionDeadlineSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setRewards"
+  ): TypedContractMethod<[_rewards: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "strategy"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "submitGachaDraw"
+  ): TypedContractMethod<
+    [_bannerId: BigNumberish, _drawCount: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "tierCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "timelockDelay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[_newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "BannerCreated"
+  ): TypedContractEvent<
+    BannerCreatedEvent.InputTuple,
+    BannerCreatedEvent.OutputTuple,
+    BannerCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BannerDrawCapSet"
+  ): TypedContractEvent<
+    BannerDrawCapSetEvent.InputTuple,
+    BannerDrawCapSetEvent.OutputTuple,
+    BannerDrawCapSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "BannerPullPriceSet"
+  ): TypedContractEvent<
+    BannerPullPriceSetEvent.InputTuple,
+    BannerPullPriceSetEvent.OutputTuple,
+    BannerPullPriceSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChangeCancelled"
+  ): TypedContractEvent<
+    ChangeCancelledEvent.InputTuple,
+    ChangeCancelledEvent.OutputTuple,
+    ChangeCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChangeExecuted"
+  ): TypedContractEvent<
+    ChangeExecutedEvent.InputTuple,
+    ChangeExecutedEvent.OutputTuple,
+    ChangeExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChangeQueued"
+  ): TypedContractEvent<
+    ChangeQueuedEvent.InputTuple,
+    ChangeQueuedEvent.OutputTuple,
+    ChangeQueuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionDeadlineSet"
+  ): TypedContractEvent<
+    DecryptionDeadlineSetEvent.InputTuple,
+    DecryptionDeadlineSetEvent.OutputTuple,
+    DecryptionDeadlineSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionDropped"
+  ): TypedContractEvent<
+    DecryptionDroppedEvent.InputTuple,
+    DecryptionDroppedEvent.OutputTuple,
+    DecryptionDroppedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionSuperseded"
+  ): TypedContractEvent<
+    DecryptionSupersededEvent.InputTuple,
+    DecryptionSupersededEvent.OutputTuple,
+    DecryptionSupersededEvent.OutputObject
+  >;
+  getEvent(
+    key: "EconomyConfigured"
+  ): TypedContractEvent<
+    EconomyConfiguredEvent.InputTuple,
+    EconomyConfiguredEvent.OutputTuple,
+    EconomyConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundsDivested"
+  ): TypedContractEvent<
+    FundsDivestedEvent.InputTuple,
+    FundsDivestedEvent.OutputTuple,
+    FundsDivestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundsInvested"
+  ): TypedContractEvent<
+    FundsInvestedEvent.InputTuple,
+    FundsInvestedEvent.OutputTuple,
+    FundsInvestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GachaSubmitted"
+  ): TypedContractEvent<
+    GachaSubmittedEvent.InputTuple,
+    GachaSubmittedEvent.OutputTuple,
+    GachaSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PausedSet"
+  ): TypedContractEvent<
+    PausedSetEvent.InputTuple,
+    PausedSetEvent.OutputTuple,
+    PausedSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "PullRefunded"
+  ): TypedContractEvent<
+    PullRefundedEvent.InputTuple,
+    PullRefundedEvent.OutputTuple,
+    PullRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PullRevealRequested"
+  ): TypedContractEvent<
+    PullRevealRequestedEvent.InputTuple,
+    PullRevealRequestedEvent.OutputTuple,
+    PullRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PullRevealed"
+  ): TypedContractEvent<
+    PullRevealedEvent.InputTuple,
+    PullRevealedEvent.OutputTuple,
+    PullRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundsEnabled"
+  ): TypedContractEvent<
+    RefundsEnabledEvent.InputTuple,
+    RefundsEnabledEvent.OutputTuple,
+    RefundsEnabledEvent.OutputObject
+  >;
+  getEvent(
+    key: "RemainderRolledOver"
+  ): TypedContractEvent<
+    RemainderRolledOverEvent.InputTuple,
+    RemainderRolledOverEvent.OutputTuple,
+    RemainderRolledOverEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardClaimRequested"
+  ): TypedContractEvent<
+    RewardClaimRequestedEvent.InputTuple,
+    RewardClaimRequestedEvent.OutputTuple,
+    RewardClaimRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardClaimSettled"
+  ): TypedContractEvent<
+    RewardClaimSettledEvent.InputTuple,
+    RewardClaimSettledEvent.OutputTuple,
+    RewardClaimSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardsSet"
+  ): TypedContractEvent<
+    RewardsSetEvent.InputTuple,
+    RewardsSetEvent.OutputTuple,
+    RewardsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StrategySet"
+  ): TypedContractEvent<
+    StrategySetEvent.InputTuple,
+    StrategySetEvent.OutputTuple,
+    StrategySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimelockDelaySet"
+  ): TypedContractEvent<
+    TimelockDelaySetEvent.InputTuple,
+    TimelockDelaySetEvent.OutputTuple,
+    TimelockDelaySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinningsAccrued"
+  ): TypedContractEvent<
+    WinningsAccruedEvent.InputTuple,
+    WinningsAccruedEvent.OutputTuple,
+    WinningsAccruedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinningsClaimed"
+  ): TypedContractEvent<
+    WinningsClaimedEvent.InputTuple,
+    WinningsClaimedEvent.OutputTuple,
+    WinningsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "YieldHarvested"
+  ): TypedContractEvent<
+    YieldHarvestedEvent.InputTuple,
+    YieldHarvestedEvent.OutputTuple,
+    YieldHarvestedEvent.OutputObject
+  >;
+
+  filters: {
+    "BannerCreated(uint256,uint256,uint32,uint16[])": TypedContractEvent<
+      BannerCreatedEvent.InputTuple,
+      BannerCreatedEvent.OutputTuple,
+      BannerCreatedEvent.OutputObject
+    >;
+    BannerCreated: TypedContractEvent<
+      BannerCreatedEvent.InputTuple,
+      BannerCreatedEvent.OutputTuple,
+      BannerCreatedEvent.OutputObject
+    >;
+
+    "BannerDrawCapSet(uint256,uint32)": TypedContractEvent<
+      BannerDrawCapSetEvent.InputTuple,
+      BannerDrawCapSetEvent.OutputTuple,
+      BannerDrawCapSetEvent.OutputObject
+    >;
+    BannerDrawCapSet: TypedContractEvent<
+      BannerDrawCapSetEvent.InputTuple,
+      BannerDrawCapSetEvent.OutputTuple,
+      BannerDrawCapSetEvent.OutputObject
+    >;
+
+    "BannerPullPriceSet(uint256,uint256)": TypedContractEvent<
+      BannerPullPriceSetEvent.InputTuple,
+      BannerPullPriceSetEvent.OutputTuple,
+      BannerPullPriceSetEvent.OutputObject
+    >;
+    BannerPullPriceSet: TypedContractEvent<
+      BannerPullPriceSetEvent.InputTuple,
+      BannerPullPriceSetEvent.OutputTuple,
+      BannerPullPriceSetEvent.OutputObject
+    >;
+
+    "BatchClosed(uint256,uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "ChangeCancelled(uint256)": TypedContractEvent<
+      ChangeCancelledEvent.InputTuple,
+      ChangeCancelledEvent.OutputTuple,
+      ChangeCancelledEvent.OutputObject
+    >;
+    ChangeCancelled: TypedContractEvent<
+      ChangeCancelledEvent.InputTuple,
+      ChangeCancelledEvent.OutputTuple,
+      ChangeCancelledEvent.OutputObject
+    >;
+
+    "ChangeExecuted(uint256)": TypedContractEvent<
+      ChangeExecutedEvent.InputTuple,
+      ChangeExecutedEvent.OutputTuple,
+      ChangeExecutedEvent.OutputObject
+    >;
+    ChangeExecuted: TypedContractEvent<
+      ChangeExecutedEvent.InputTuple,
+      ChangeExecutedEvent.OutputTuple,
+      ChangeExecutedEvent.OutputObject
+    >;
+
+    "ChangeQueued(uint256,uint8,uint256,uint256,uint64)": TypedContractEvent<
+      ChangeQueuedEvent.InputTuple,
+      ChangeQueuedEvent.OutputTuple,
+      ChangeQueuedEvent.OutputObject
+    >;
+    ChangeQueued: TypedContractEvent<
+      ChangeQueuedEvent.InputTuple,
+      ChangeQueuedEvent.OutputTuple,
+      ChangeQueuedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint128)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionDeadlineSet(uint256)": TypedContractEvent<
+      DecryptionDeadlineSetEvent.InputTuple,
+      DecryptionDeadlineSetEvent.OutputTuple,
+      DecryptionDeadlineSetEvent.OutputObject
+    >;
+    DecryptionDeadlineSet: TypedContractEvent<
+      DecryptionDeadlineSetEvent.InputTuple,
+      DecryptionDeadlineSetEvent.OutputTuple,
+      DecryptionDeadlineSetEvent.OutputObject
+    >;
+
+    "DecryptionDropped(uint256,uint256)": TypedContractEvent<
+      DecryptionDroppedEvent.InputTuple,
+      DecryptionDroppedEvent.OutputTuple,
+      DecryptionDroppedEvent.OutputObject
+    >;
+    DecryptionDropped: TypedContractEvent<
+      DecryptionDroppedEvent.InputTuple,
+      DecryptionDroppedEvent.OutputTuple,
+      DecryptionDroppedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DecryptionSuperseded(uint256,uint256)": TypedContractEvent<
+      DecryptionSupersededEvent.InputTuple,
+      DecryptionSupersededEvent.OutputTuple,
+      DecryptionSupersededEvent.OutputObject
+    >;
+    DecryptionSuperseded: TypedContractEvent<
+      DecryptionSupersededEvent.InputTuple,
+      DecryptionSupersededEvent.OutputTuple,
+      DecryptionSupersededEvent.OutputObject
+    >;
+
+    "EconomyConfigured(uint32,uint16[],uint32,uint8)": TypedContractEvent<
+      EconomyConfiguredEvent.InputTuple,
+      EconomyConfiguredEvent.OutputTuple,
+      EconomyConfiguredEvent.OutputObject
+    >;
+    EconomyConfigured: TypedContractEvent<
+      EconomyConfiguredEvent.InputTuple,
+      EconomyConfiguredEvent.OutputTuple,
+      EconomyConfiguredEvent.OutputObject
+    >;
+
+    "FundsDivested(uint256)": TypedContractEvent<
+      FundsDivestedEvent.InputTuple,
+      FundsDivestedEvent.OutputTuple,
+      FundsDivestedEvent.OutputObject
+    >;
+    FundsDivested: TypedContractEvent<
+      FundsDivestedEvent.InputTuple,
+      FundsDivestedEvent.OutputTuple,
+      FundsDivestedEvent.OutputObject
+    >;
+
+    "FundsInvested(uint256)": TypedContractEvent<
+      FundsInvestedEvent.InputTuple,
+      FundsInvestedEvent.OutputTuple,
+      FundsInvestedEvent.OutputObject
+    >;
+    FundsInvested: TypedContractEvent<
+      FundsInvestedEvent.InputTuple,
+      FundsInvestedEvent.OutputTuple,
+      FundsInvestedEvent.OutputObject
+    >;
+
+    "GachaSubmitted(address,uint256,uint256,bytes32)": TypedContractEvent<
+      GachaSubmittedEvent.InputTuple,
+      GachaSubmittedEvent.OutputTuple,
+      GachaSubmittedEvent.OutputObject
+    >;
+    GachaSubmitted: TypedContractEvent<
+      GachaSubmittedEvent.InputTuple,
+      GachaSubmittedEvent.OutputTuple,
+      GachaSubmittedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PausedSet(bool)": TypedContractEvent<
+      PausedSetEvent.InputTuple,
+      PausedSetEvent.OutputTuple,
+      PausedSetEvent.OutputObject
+    >;
+    PausedSet: TypedContractEvent<
+      PausedSetEvent.InputTuple,
+      PausedSetEvent.OutputTuple,
+      PausedSetEvent.OutputObject
+    >;
+
+    "PullRefunded(uint256,address,uint256)": TypedContractEvent<
+      PullRefundedEvent.InputTuple,
+      PullRefundedEvent.OutputTuple,
+      PullRefundedEvent.OutputObject
+    >;
+    PullRefunded: TypedContractEvent<
+      PullRefundedEvent.InputTuple,
+      PullRefundedEvent.OutputTuple,
+      PullRefundedEvent.OutputObject
+    >;
+
+    "PullRevealRequested(uint256,uint256)": TypedContractEvent<
+      PullRevealRequestedEvent.InputTuple,
+      PullRevealRequestedEvent.OutputTuple,
+      PullRevealRequestedEvent.OutputObject
+    >;
+    PullRevealRequested: TypedContractEvent<
+      PullRevealRequestedEvent.InputTuple,
+      PullRevealRequestedEvent.OutputTuple,
+      PullRevealRequestedEvent.OutputObject
+    >;
+
+    "PullRevealed(uint256,address,uint256,uint8)": TypedContractEvent<
+      PullRevealedEvent.InputTuple,
+      PullRevealedEvent.OutputTuple,
+      PullRevealedEvent.OutputObject
+    >;
+    PullRevealed: TypedContractEvent<
+      PullRevealedEvent.InputTuple,
+      PullRevealedEvent.OutputTuple,
+      PullRevealedEvent.OutputObject
+    >;
+
+    "RefundsEnabled(uint256)": TypedContractEvent<
+      RefundsEnabledEvent.InputTuple,
+      RefundsEnabledEvent.OutputTuple,
+      RefundsEnabledEvent.OutputObject
+    >;
+    RefundsEnabled: TypedContractEvent<
+      RefundsEnabledEvent.InputTuple,
+      RefundsEnabledEvent.OutputTuple,
+      RefundsEnabledEvent.OutputObject
+    >;
+
+    "RemainderRolledOver(uint256,uint256,uint256)": TypedContractEvent<
+      RemainderRolledOverEvent.InputTuple,
+      RemainderRolledOverEvent.OutputTuple,
+      RemainderRolledOverEvent.OutputObject
+    >;
+    RemainderRolledOver: TypedContractEvent<
+      RemainderRolledOverEvent.InputTuple,
+      RemainderRolledOverEvent.OutputTuple,
+      RemainderRolledOverEvent.OutputObject
+    >;
+
+    "RewardClaimRequested(uint256,uint256)": TypedContractEvent<
+      RewardClaimRequestedEvent.InputTuple,
+      RewardClaimRequestedEvent.OutputTuple,
+      RewardClaimRequestedEvent.OutputObject
+    >;
+    RewardClaimRequested: TypedContractEvent<
+      RewardClaimRequestedEvent.InputTuple,
+      RewardClaimRequestedEvent.OutputTuple,
+      RewardClaimRequestedEvent.OutputObject
+    >;
+
+    "RewardClaimSettled(uint256,address,bool,uint256)": TypedContractEvent<
+      RewardClaimSettledEvent.InputTuple,
+      RewardClaimSettledEvent.OutputTuple,
+      RewardClaimSettledEvent.OutputObject
+    >;
+    RewardClaimSettled: TypedContractEvent<
+      RewardClaimSettledEvent.InputTuple,
+      RewardClaimSettledEvent.OutputTuple,
+      RewardClaimSettledEvent.OutputObject
+    >;
+
+    "RewardsSet(address)": TypedContractEvent<
+      RewardsSetEvent.InputTuple,
+      RewardsSetEvent.OutputTuple,
+      RewardsSetEvent.OutputObject
+    >;
+    RewardsSet: TypedContractEvent<
+      RewardsSetEvent.InputTuple,
+      RewardsSetEvent.OutputTuple,
+      RewardsSetEvent.OutputObject
+    >;
+
+    "RoleGranted(uint8,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(uint8,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "StrategySet(address)": TypedContractEvent<
+      StrategySetEvent.InputTuple,
+      StrategySetEvent.OutputTuple,
+      StrategySetEvent.OutputObject
+    >;
+    StrategySet: TypedContractEvent<
+      StrategySetEvent.InputTuple,
+      StrategySetEvent.OutputTuple,
+      StrategySetEvent.OutputObject
+    >;
+
+    "TimelockDelaySet(uint256)": TypedContractEvent<
+      TimelockDelaySetEvent.InputTuple,
+      TimelockDelaySetEvent.OutputTuple,
+      TimelockDelaySetEvent.OutputObject
+    >;
+    TimelockDelaySet: TypedContractEvent<
+      TimelockDelaySetEvent.InputTuple,
+      TimelockDelaySetEvent.OutputTuple,
+      TimelockDelaySetEvent.OutputObject
+    >;
+
+    "WinningsAccrued(uint256,address,uint256)": TypedContractEvent<
+      WinningsAccruedEvent.InputTuple,
+      WinningsAccruedEvent.OutputTuple,
+      WinningsAccruedEvent.OutputObject
+    >;
+    WinningsAccrued: TypedContractEvent<
+      WinningsAccruedEvent.InputTuple,
+      WinningsAccruedEvent.OutputTuple,
+      WinningsAccruedEvent.OutputObject
+    >;
+
+    "WinningsClaimed(address,uint256)": TypedContractEvent<
+      WinningsClaimedEvent.InputTuple,
+      WinningsClaimedEvent.OutputTuple,
+      WinningsClaimedEvent.OutputObject
+    >;
+    WinningsClaimed: TypedContractEvent<
+      WinningsClaimedEvent.InputTuple,
+      WinningsClaimedEvent.OutputTuple,
+      WinningsClaimedEvent.OutputObject
+    >;
+
+    "YieldHarvested(uint256,uint256)": TypedContractEvent<
+      YieldHarvestedEvent.InputTuple,
+      YieldHarvestedEvent.OutputTuple,
+      YieldHarvestedEvent.OutputObject
+    >;
+    YieldHarvested: TypedContractEvent<
+      YieldHarvestedEvent.InputTuple,
+      YieldHarvestedEvent.OutputTuple,
+      YieldHarvestedEvent.OutputObject
+    >;
+  };
+}
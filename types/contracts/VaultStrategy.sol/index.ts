@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IWETH } from "./IWETH";
+export type { VaultStrategy } from "./VaultStrategy";
@@ -1,4 +1,11 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as gachaFiSol from "./Gacha_Fi.sol";
+export type { gachaFiSol };
+import type * as vaultStrategySol from "./VaultStrategy.sol";
+export type { vaultStrategySol };
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { GachaRewards } from "./GachaRewards";
+export type { IPrizeStrategy } from "./IPrizeStrategy";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { MockPrizeVault } from "./MockPrizeVault";
+export type { MockWETH } from "./MockWETH";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC4626__factory } from "./ERC4626__factory";
+export { IERC20Metadata__factory } from "./IERC20Metadata__factory";
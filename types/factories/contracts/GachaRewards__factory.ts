@@ -0,0 +1,744 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  GachaRewards,
+  GachaRewardsInterface,
+} from "../../contracts/GachaRewards";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_game",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ERC721EnumerableForbiddenBatchMint",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721OutOfBoundsIndex",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotGame",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "rarityHandle",
+        type: "bytes32",
+      },
+    ],
+    name: "RewardMinted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedTokenRarity",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "game",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_pullId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint8",
+        name: "_rarity",
+        type: "bytes32",
+      },
+    ],
+    name: "mint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "tokenCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenOfOwnerByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "tokenPull",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a03462000489576001600160401b0390601f1990601f62001704388190038281018516840186811185821017620003ab57849282916040528339602093849181010312620004895751936001600160a01b03851693848603620004895762000067620004ad565b92600e84526d11d858da18519a4814995dd85c9960921b858501526200008c620004ad565b6005815264474143484160d81b868201528451848111620003ab575f546001968782811c921680156200047e575b898310146200038c5781858493116200042b575b508890858311600114620003cb575f92620003bf575b50505f19600383901b1c191690861b175f555b8051938411620003ab578454928584811c94168015620003a0575b878510146200038c57838386951162000335575b5086928411600114620002d457505f92620002c8575b50505f19600383901b1c191690821b1790555b5f60606200015c6200048d565b828152828482015282604082015201526060620001786200048d565b73687820221192c5b662b25367f70076a37bc79b6c9283825273848b0066793bcc60346da1f49049357399b8d595809183015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905515620002b6576080526040516112369081620004ce82396080518181816101e5015261064d0152f35b604051630309cb8760e51b8152600490fd5b015190505f806200013c565b85949291921691845f52865f20925f5b888282106200031e575050841162000305575b505050811b0190556200014f565b01515f1960f88460031b161c191690555f8080620002f7565b8385015186558897909501949384019301620002e4565b9091929350855f52865f208480870160051c82019289881062000382575b9187968992969594930160051c01915b8281106200037357505062000126565b5f815587965088910162000363565b9250819262000353565b634e487b7160e01b5f52602260045260245ffd5b93607f169362000112565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620000e4565b9086899416915f80528a5f20925f5b8c828210620004145750508411620003fb575b505050811b015f55620000f7565b01515f1960f88460031b161c191690555f8080620003ed565b8385015186558c97909501949384019301620003da565b9091505f8052885f208580850160051c8201928b861062000474575b918a91869594930160051c01915b82811062000465575050620000ce565b5f81558594508a910162000455565b9250819262000447565b91607f1691620000ba565b5f80fd5b60405190608082016001600160401b03811183821017620003ab57604052565b60408051919082016001600160401b03811183821017620003ab5760405256fe6080604090808252600480361015610015575f80fd5b5f3560e01c91826301ffc9a714610b705750816306fdde0314610aaa578163081812fc14610a72578163095ea7b31461099757816318160ddd146109795781631e458bee1461061d57816323b872dd146106065781632f745c591461058857816333883eb01461056157816335f585cd1461053a57816342842e0e146105125781634f6ccce7146104bd5781636352211e1461048e57816370a082311461046257816395d89b41146103535781639f181b5e14610335578163a22cb4651461029a578163b88d4fde14610214578163c3fe3e28146101d1578163c87b56dd1461017f57508063da1f12ab146101635763e985e9c514610112575f80fd5b3461015f578060031936011261015f5760209061012d610c32565b610135610c48565b9060018060a01b038091165f5260058452825f2091165f52825260ff815f20541690519015158152f35b5f80fd5b503461015f575f36600319011261015f57602090516127118152f35b823461015f57602036600319011261015f5761019e6101cd92356111ef565b505f81516101ab81610cbb565b528051906101b882610cbb565b5f825251918291602083526020830190610bf4565b0390f35b823461015f575f36600319011261015f57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b823461015f57608036600319011261015f5761022e610c32565b610236610c48565b6064359367ffffffffffffffff851161015f573660238601121561015f5784013561026c61026382610cf9565b94519485610cd7565b808452366024828701011161015f576020815f92602461029898018388013785010152604435916110a1565b005b823461015f578060031936011261015f576102b3610c32565b906024359182151580930361015f576001600160a01b03169283156103205750335f526005602052805f20835f52602052805f2060ff1981541660ff8416179055519081527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160203392a3005b836024925191630b61174360e31b8352820152fd5b823461015f575f36600319011261015f57602090600a549051908152f35b823461015f575f36600319011261015f578051905f90600191600154928360011c9060018516948515610458575b6020958684108114610445578388528794939291879082156104235750506001146103c8575b50506101cd92916103b9910385610cd7565b51928284938452830190610bf4565b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b82841061040b57505050820101816103b96103a7565b8054848a0186015288955087949093019281016103f5565b60ff19168682015292151560051b850190920192508391506103b990506103a7565b602289634e487b7160e01b5f525260245ffd5b91607f1691610381565b823461015f57602036600319011261015f57602090610487610482610c32565b61106b565b9051908152f35b823461015f57602036600319011261015f576104ac602092356111ef565b90516001600160a01b039091168152f35b90503461015f57602036600319011261015f578035906008548210156104f7576020836104e984611022565b91905490519160031b1c8152f35b905f604493519263295f44f760e21b84528301526024820152fd5b823461015f576102989061052536610c5e565b9192519261053284610cbb565b5f84526110a1565b823461015f57602036600319011261015f57602091355f52600b8252805f20549051908152f35b823461015f57602036600319011261015f57602091355f52600c8252805f20549051908152f35b823461015f578060031936011261015f576105a1610c32565b91602435906105af8461106b565b8210156105db575060209260018060a01b03165f5260068352815f20905f528252805f20549051908152f35b915163295f44f760e21b81526001600160a01b03909316918301918252602082015281906040010390fd5b3461015f5761029861061736610c5e565b91610d15565b823461015f57606036600319011261015f57610637610c32565b6001600160a01b039190602480359190604435907f00000000000000000000000000000000000000000000000000000000000000008616330361096957600a545f199790888114610957576001019687600a55875f52602098600b8a5284885f2055600c8a5286885f205581861695861561094157908892918a5f5260028c52878c8c85875f20541691821580159889610911575b855f5260038352805f2060018154019055835f52600283525f20856001600160601b0360a01b8254161790558285857fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a41561089c57600991929350600854925f5252808c5f2055600160401b81101561088a57906107708d6107588460018e9601600855611022565b90919082549060031b91821b915f19901b1916179055565b0361083f575b5050885f52600b8a52875f2054907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700541690813b1561015f575f91604483928b519485938492635ca4b5b160e11b8452898401528b8a8401525af1801561083557610826575b506108135750507fab77498eb91554da11eabde96bb7baeba498dcc288670e9e137cddb909a36c5a8686928651908152a451908152f35b5f8651916339e3563760e11b8352820152fd5b61082f90610c93565b896107dc565b88513d5f823e3d90fd5b6108489061106b565b90810190811161087857865f5260068b52885f20815f528b5289895f2055895f5260078b52885f20558a80610776565b84601185634e487b7160e01b5f52525ffd5b87604188634e487b7160e01b5f52525ffd5b8383036108ab575b5050610770565b8d5f6108b68561106b565b9184825260078452808220549486835260068552818320958481036108ef575b508252600784528120555f52525f8c8120558c8e6108a4565b848452868652828420548185528084862055845260078652828420555f6108d6565b5f84815260046020526040902080546001600160a01b0319169055845f5260038352805f208881540190556106cc565b5050505f865191633250574960e11b8352820152fd5b50601190634e487b7160e01b5f52525ffd5b845163ba160f4360e01b81528790fd5b823461015f575f36600319011261015f576020906008549051908152f35b823461015f578060031936011261015f576109b0610c32565b916024356109bd816111ef565b33151580610a5f575b80610a38575b610a22576001600160a01b039485169482918691167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9255f80a45f526020525f20906001600160601b0360a01b8254161790555f80f35b835163a9fbf51f60e01b81523381850152602490fd5b5060018060a01b0381165f526005602052835f20335f5260205260ff845f205416156109cc565b506001600160a01b0381163314156109c6565b823461015f57602036600319011261015f578160209235610a92816111ef565b505f52825260018060a01b03815f2054169051908152f35b823461015f575f36600319011261015f578051905f905f549160018360011c9060018516948515610b66575b602095868410811461044557838852879493929187908215610423575050600114610b0d5750506101cd92916103b9910385610cd7565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b828410610b4e57505050820101816103b96103a7565b8054848a018601528895508794909301928101610b38565b91607f1691610ad6565b903461015f57602036600319011261015f57359063ffffffff60e01b821680920361015f5760209163780e9d6360e01b8114908115610bb1575b5015158152f35b6380ac58cd60e01b811491508115610be3575b8115610bd2575b5083610baa565b6301ffc9a760e01b14905083610bcb565b635b5e139f60e01b81149150610bc4565b91908251928382525f5b848110610c1e575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610bfe565b600435906001600160a01b038216820361015f57565b602435906001600160a01b038216820361015f57565b606090600319011261015f576001600160a01b0390600435828116810361015f5791602435908116810361015f579060443590565b67ffffffffffffffff8111610ca757604052565b634e487b7160e01b5f52604160045260245ffd5b6020810190811067ffffffffffffffff821117610ca757604052565b90601f8019910116810190811067ffffffffffffffff821117610ca757604052565b67ffffffffffffffff8111610ca757601f01601f191660200190565b6001600160a01b038281169391841561100a57825f526020946002865260409583875f2054169533151580610f7c575b5086158015610f4b575b835f5260038352885f2060018154019055865f5260028352885f20846001600160601b0360a01b8254161790558684897fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a415610edf57600854865f526009835280895f2055600160401b811015610ca75786610758826001610dd79401600855611022565b828703610e8e575b50600b90855f5252855f2054837f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700541691823b1561015f5760445f92838a519586948593635ca4b5b160e11b8552600485015260248401525af18015610e8457610e75575b501692838303610e545750505050565b6064945051926364283d7b60e01b8452600484015260248301526044820152fd5b610e7e90610c93565b5f610e44565b86513d5f823e3d90fd5b610e979061106b565b5f19810191908211610ecb57600b91835f5260068252885f20815f52825286895f2055865f5260078252885f205590610ddf565b634e487b7160e01b5f52601160045260245ffd5b868314610dd757610eef8761106b565b865f5260078352885f205490885f5260068452895f2091818103610f29575b50875f52600784525f8a8120555f5282525f88812055610dd7565b815f528285528a5f2054815f52808c5f20555f52600785528a5f20555f610f0e565b5f87815260046020526040812080546001600160a01b03191690558881526003845289902080545f19019055610d4f565b80610fc9575b15610f8d575f610d45565b878688610faa576024915190637e27328960e01b82526004820152fd5b905163177e802f60e01b81523360048201526024810191909152604490fd5b503387148015610fee575b80610f825750855f52600482523385895f20541614610f82565b50865f5260058252875f20335f52825260ff885f205416610fd4565b604051633250574960e11b81525f6004820152602490fd5b6008548110156110575760085f527ff3f7a9fe364faab93b216da50a3214154f22a0a2b415b23a84c8169e8b636ee301905f90565b634e487b7160e01b5f52603260045260245ffd5b6001600160a01b03168015611089575f52600360205260405f205490565b6040516322718ad960e21b81525f6004820152602490fd5b91926110ae848385610d15565b813b6110bb575b50505050565b604051630a85bd0160e11b8082523360048301526001600160a01b0394851660248301526044820195909552608060648201526020959390921693919085908290819061110c906084830190610bf4565b03815f885af15f91816111af575b50611179575050503d5f14611171573d9161113483610cf9565b926111426040519485610cd7565b83523d5f8285013e5b8251928361116c57604051633250574960e11b815260048101849052602490fd5b019050fd5b60609161114b565b9193506001600160e01b03199091160361119757505f8080806110b5565b60249060405190633250574960e11b82526004820152fd5b9091508581813d83116111e8575b6111c78183610cd7565b8101031261015f57516001600160e01b03198116810361015f57905f61111a565b503d6111bd565b5f818152600260205260409020546001600160a01b0316908115611211575090565b60249060405190637e27328960e01b82526004820152fdfea164736f6c6343000818000a";
+
+type GachaRewardsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: GachaRewardsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class GachaRewards__factory extends ContractFactory {
+  constructor(...args: GachaRewardsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _game: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_game, overrides || {});
+  }
+  override deploy(
+    _game: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_game, overrides || {}) as Promise<
+      GachaRewards & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): GachaRewards__factory {
+    return super.connect(runner) as GachaRewards__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): GachaRewardsInterface {
+    return new Interface(_abi) as GachaRewardsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): GachaRewards {
+    return new Contract(address, _abi, runner) as unknown as GachaRewards;
+  }
+}
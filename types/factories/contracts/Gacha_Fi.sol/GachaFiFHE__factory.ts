@@ -0,0 +1,2607 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  GachaFiFHE,
+  GachaFiFHEInterface,
+} from "../../../contracts/Gacha_Fi.sol/GachaFiFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "_economyVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "uint16[]",
+        name: "_tierPayoutBps",
+        type: "uint16[]",
+      },
+      {
+        internalType: "uint32",
+        name: "_pityThreshold",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "_pityTier",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyFinalized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotFinalized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchRefunding",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ChangeNotReady",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "IncorrectPayment",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum GachaFiFHE.Role",
+        name: "role",
+        type: "uint8",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPlayer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotRefundable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToClaim",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToInvest",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RevealWindowOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RewardsNotSet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StrategyNotSet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownBanner",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "bannerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pullPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "drawCap",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint16[]",
+        name: "tierRollBounds",
+        type: "uint16[]",
+      },
+    ],
+    name: "BannerCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "bannerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "drawCap",
+        type: "uint32",
+      },
+    ],
+    name: "BannerDrawCapSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "bannerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pullPrice",
+        type: "uint256",
+      },
+    ],
+    name: "BannerPullPriceSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "bannerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "bannerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "changeId",
+        type: "uint256",
+      },
+    ],
+    name: "ChangeCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "changeId",
+        type: "uint256",
+      },
+    ],
+    name: "ChangeExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "changeId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum GachaFiFHE.Param",
+        name: "param",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bannerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "executableAt",
+        type: "uint64",
+      },
+    ],
+    name: "ChangeQueued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint128",
+        name: "totalPrizePool",
+        type: "uint128",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "decryptionDeadlineSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionDeadlineSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionDropped",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionSuperseded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "version",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint16[]",
+        name: "tierPayoutBps",
+        type: "uint16[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "pityThreshold",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "pityTier",
+        type: "uint8",
+      },
+    ],
+    name: "EconomyConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "FundsDivested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "FundsInvested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "rarityHandle",
+        type: "bytes32",
+      },
+    ],
+    name: "GachaSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "PausedSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PullRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+    ],
+    name: "PullRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "rarity",
+        type: "uint8",
+      },
+    ],
+    name: "PullRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "RefundsEnabled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "bannerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RemainderRolledOver",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+    ],
+    name: "RewardClaimRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "won",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "RewardClaimSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "rewards",
+        type: "address",
+      },
+    ],
+    name: "RewardsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "enum GachaFiFHE.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "enum GachaFiFHE.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "strategy",
+        type: "address",
+      },
+    ],
+    name: "StrategySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timelockDelay",
+        type: "uint256",
+      },
+    ],
+    name: "TimelockDelaySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "WinningsAccrued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "WinningsClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "bannerId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "YieldHarvested",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "BPS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_DRAWS_PER_SUBMISSION",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "REVEAL_WINDOW",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ROLL_RANGE",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "bannerCarry",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "bannerCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "banners",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "exists",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "batchOpen",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "currentBatchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pullPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "drawCap",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchBanner",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchCarry",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchDrawCap",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchPullPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchResults",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "finalized",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "prizePool",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "drawCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "accrued",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "settledAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "rolledOver",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchSettlements",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "pending",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "requestedAt",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "refunding",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    name: "batchTierWinners",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_changeId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelChange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "changeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "claim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+    ],
+    name: "claimReward",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "claimableWinnings",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "claimedWinnings",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_bannerId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint16[]",
+        name: "_tierRollBounds",
+        type: "uint16[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_pullPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "_drawCap",
+        type: "uint32",
+      },
+    ],
+    name: "createBanner",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "bannerId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "superseded",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decryptionDeadlineSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "economyVersion",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "enableRefunds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedDrawCount",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "encryptedPityCounters",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "encryptedPlayerDrawCounts",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedPullRarity",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    name: "encryptedTierWinners",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedTotalPrizePool",
+    outputs: [
+      {
+        internalType: "euint128",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_changeId",
+        type: "uint256",
+      },
+    ],
+    name: "executeChange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_bannerId",
+        type: "uint256",
+      },
+    ],
+    name: "getBannerRollBounds",
+    outputs: [
+      {
+        internalType: "uint16[]",
+        name: "",
+        type: "uint16[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchResult",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "finalized",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "prizePool",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "drawCount",
+            type: "uint32",
+          },
+          {
+            internalType: "uint256",
+            name: "accrued",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "settledAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "rolledOver",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct GachaFiFHE.BatchResult",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_fromBatchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchResults",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "finalized",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "prizePool",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "drawCount",
+            type: "uint32",
+          },
+          {
+            internalType: "uint256",
+            name: "accrued",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "settledAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "rolledOver",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct GachaFiFHE.BatchResult[]",
+        name: "results",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPendingChanges",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "enum GachaFiFHE.Param",
+            name: "param",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "bannerId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "executableAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct GachaFiFHE.PendingChange[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getTierPayoutBps",
+    outputs: [
+      {
+        internalType: "uint16[]",
+        name: "",
+        type: "uint16[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum GachaFiFHE.Role",
+        name: "_role",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_bannerId",
+        type: "uint256",
+      },
+    ],
+    name: "harvestYield",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum GachaFiFHE.Role",
+        name: "",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "investIdleFunds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_bannerId",
+        type: "uint256",
+      },
+    ],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pityThreshold",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pityTier",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pullBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pullCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pullPayment",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pullPlayer",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pullRefunded",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pullReveals",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "requested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint8",
+        name: "rarity",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum GachaFiFHE.Param",
+        name: "_param",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_bannerId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+    ],
+    name: "queueChange",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "changeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+    ],
+    name: "refundPull",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum GachaFiFHE.Role",
+        name: "_role",
+        type: "uint8",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_bannerId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reservedFunds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "revealCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pullId",
+        type: "uint256",
+      },
+    ],
+    name: "revealPull",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "revealRequestPull",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum GachaFiFHE.Role",
+        name: "_role",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "rewardCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "rewardClaims",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "requested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "settled",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "won",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "rewardRequestPull",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "rewardTier",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "rewards",
+    outputs: [
+      {
+        internalType: "contract GachaRewards",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "rolloverRemainder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_decryptionDeadlineSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setDecryptionDeadline",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract GachaRewards",
+        name: "_rewards",
+        type: "address",
+      },
+    ],
+    name: "setRewards",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "strategy",
+    outputs: [
+      {
+        internalType: "contract IPrizeStrategy",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_bannerId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "_drawCount",
+        type: "uint32",
+      },
+    ],
+    name: "submitGachaDraw",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "firstPullId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "tierCount",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timelockDelay",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620005fb576200639b90813803806200001f816200063b565b9384398201608083820312620005fb576200003a8362000661565b6020848101519092916001600160401b0391828111620005fb5786019583601f88011215620005fb57865193838511620004f0578460051b978662000081818b016200063b565b80978152019087829a820101928311620005fb578701905b828210620005ff575050506060620000b387830162000661565b9101519460ff861693848703620005fb575f6060620000d16200061b565b8281528285820152828b8201520152620000ea6200061b565b96606073687820221192c5b662b25367f70076a37bc79b6c9889815273848b0066793bcc60346da1f49049357399b8d595808683015273a02cda4ca3a71d7c46997716f4283aa851c2881291828d820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b03199a7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700908c8254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701908b8254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702908a8254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908982541617905586519463ffffffff8091169485158015620005f0575b8015620005e5575b6200050457169485158015620005dc575b8015620005d1575b620005c05780925f805b8381106200051f57506127101062000504578315801562000515575b62000504576009548664ff000000008094881b169164ffffffffff191617176009558851908111620004f057680100000000000000008111620004f057600a5481600a5580821062000491575b508b90600a5f52855f208160041c915f5b8381106200044e5750600f198116900380620003f7575b5050505065ff000000000090600b9594955492861b169260281b169065ffffffffffff191617841717600b55865194608086019186526080838701525180915260a0850197915f5b828110620003de5788887f1be138684529a693b147cc9b1dfdb6eb4dfafc413d1f09c329d81130376a7a4389808e8b8b8784015260608301520390a133905f5416175f55335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a362000391336200069c565b6200039c3362000707565b620003a73362000772565b620003b233620007dd565b60ff1960035416600355600a60045562015180806008556005555f60135551615ab29081620008498239f35b835161ffff168a5298810198928101926001016200031c565b925f935f5b898282106200041b5750505050015565ff00000000005f8080620002d4565b62000443849761ffff600194959651169085851b60031b9161ffff809116831b921b19161790565b9601929101620003fc565b5f805b8a601082106200046a57505083820155600101620002bd565b875191979260019261ffff60048b901b81811b19909316911690911b179201960162000451565b600a5f52855f20600f80840160041c8201920160041c01600191601e8460011b1680620004d6575b505b818110620004cb575050620002ac565b5f81558201620004bb565b5f1990818301918254918b0360031b1c1690555f620004b9565b634e487b7160e01b5f52604160045260245ffd5b8a51630309cb8760e51b8152600490fd5b508184146200025f565b61ffff806200052f838e62000673565b51168301809311620005ac578062000548838e62000673565b5116151580620005a2575b62000598575b62000565828d62000673565b511615806200058e575b6200057d5760010162000243565b8c51630309cb8760e51b8152600490fd5b508386106200056f565b9550809562000559565b5084871462000553565b634e487b7160e01b5f52601160045260245ffd5b8951630309cb8760e51b8152600490fd5b508087101562000239565b50861562000231565b5060ff871162000220565b506002871062000218565b5f80fd5b815161ffff81168103620005fb57815290870190870162000099565b60405190608082016001600160401b03811183821017620004f057604052565b6040519190601f01601f191682016001600160401b03811183821017620004f057604052565b519063ffffffff82168203620005fb57565b8051821015620006885760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b6001600160a01b03165f8181525f805160206200633b833981519152602052604090205460ff1662000704575f8181525f805160206200633b83398151915260205260408120805460ff191660011790553391905f80516020620062fb8339815191528180a4565b50565b6001600160a01b03165f8181525f805160206200635b833981519152602052604090205460ff1662000704575f8181525f805160206200635b83398151915260205260408120805460ff191660019081179091553392915f80516020620062fb8339815191529080a4565b6001600160a01b03165f8181525f805160206200637b833981519152602052604090205460ff1662000704575f8181525f805160206200637b83398151915260205260408120805460ff191660011790553391906002905f80516020620062fb8339815191529080a4565b6001600160a01b03165f8181525f805160206200631b833981519152602052604090205460ff1662000704575f8181525f805160206200631b83398151915260205260408120805460ff191660011790553391906003905f80516020620062fb8339815191529080a456fe6080604052600436101561003e575b3615610018575f80fd5b600c546001600160a01b0316330361002c57005b604051630309cb8760e51b8152600490fd5b5f60e05f35811c908163057c9cb81461449657816306f13056146144795781630954ae96146143805781630b4600b414614356578163124bd04b1461433f57816314f4b0461461432457816316c38b3c1461427b57816317e931cf1461425e578163185302fa14614234578163196fe7b114613f5b5781631b22883a14613f3f5781631c75800614613f07578163236b39f814613bd0578163249d39e914613bb457816324b4cee0146139cc5781632c8022e11461391d5781632fa05411146138f35781632fc58c50146136c757816346be71781461369d57816348b5926b146135b357816349181424146135815781634cbb87d3146135595781634e71d92d146134cb578163509c5df6146134ae5781635107a1081461347657816352ad37ba1461345357816352b23809146133285781635a94a079146132f05781635b57a2ed1461328f5781635c63ac59146131835781635c975abb146131615781635d5664e1146131305781635e0338b2146131065781636e0e243c14612f5257816373e75d4314612f30578163765eeeea14612c8757816376dd463d14612c4f57816379ba509714612b51578163871a280b14612b0a57816387e7e4a214611e0057816388da2b2d14611d835781638d754d5214611cb55781638da5cb5b14611c8e5781638f7695ef14611c2957816396b55f7d14611c0657816399f5c7ee14611be25781639d0c5bee14611bb25781639e97b8f614611b775781639ec5a89414611b4a5781639f0d549714611af5578163a436547614611abc578163a85d704714611a92578163a8c62e7614611a69578163ae169a5014611740578163b3dd896614611728578163b65e8941146116d4578163b68b3d2f146116aa578163b8221bc41461168c578163b9b268fe14611662578163ba55690614611605578163be089fa7146115e7578163c177f60f146115c9578163c36b3aa914611574578163c7777bad1461123257508063cac3e8ef14611216578063d020e6a2146111ec578063d2c411d314611149578063da1f12ab1461112c578063e30c397814611103578063e436fd89146110d4578063e5860eba14610d6b578063e7a0c4c314610d41578063ea22a58f14610d0e578063ec38a86214610c00578063ee12ccff14610ae0578063ee14cb3914610a95578063eef09bad14610a77578063f0fc45801461098c578063f2fde38b14610908578063f340464e146108cf578063f35f6447146108b1578063f590b6f214610438578063f77689461461040e5763f845aee9146103e8575061000e565b3461040b578060031936011261040b57602063ffffffff600b5416604051908152f35b80fd5b503461040b57602036600319011261040b5760406020916004358152601483522054604051908152f35b503461040b576020806003193601126107b557600435610456615099565b60ff90816003541661089f5780845260118352816040852054161561088d578352601182526040832081815460081c1661087b5760018091015492338552600f81526104a9604086205460045490614a41565b421061086957338552600f8152426040862055838552601981528260408620541661085757838552601a81526040852090600282019284845460401c1661084557848354166107db575b6104fc86614d5d565b9261050684614e95565b5f967f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080549860018060a01b03805f80516020615a868339815191525416803b156107d7575f8a610575928b83604051809681958294637d6e912360e11b845260048401526024830190614e62565b03925af180156107cc576107b9575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156107b55781896105e0928d83604051809681958294633263b83b60e01b84526004840152606060248401526064830190614e62565b63124bd04b60e01b604483015203925af180156107aa57908291610796575b508a90525f80516020615a468339815191528088526040822054610784578a82528752604081208851916001600160401b03998a841161077057600160401b84116107705789908354858555808610610746575b500191815287898220915b84811061073457505050505061067481546149de565b90556040519460808601868110888211176107205789968c946002926040528c8252838201908152604080830196808852602c60608501968288528c8352522091518255518782015501925115159161ff0084549251151560081b1692169061ffff1916171790558160ff19825416178155015542166001600160401b03198254161790557f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c8380a380f35b634e487b7160e01b5f52604160045260245ffd5b8a84519401938184015501889061065e565b8484528a8684862092830192015b828110610762575050610653565b5f81558d94508c9101610754565b634e487b7160e01b82526041600452602482fd5b604051633f06d22b60e01b8152600490fd5b61079f90614501565b61040b57805f6105ff565b6040513d84823e3d90fd5b5080fd5b6107c4919250614501565b5f905f610584565b6040513d5f823e3d90fd5b5f80fd5b6107e4836153fb565b15610833578581840180548952602c8452600260408a200161010061ff0019825416179055547ff7579724bc3046c5c230bfe8fec3c8aa47509eea674ab7ee8864cd523189fa348980a36104f3565b6040516346aa15df60e11b8152600490fd5b604051636fe43dcb60e11b8152600490fd5b60405163475a253560e01b8152600490fd5b60405163aa9a98df60e01b8152600490fd5b6040516319417b1d60e21b8152600490fd5b604051636c6c171760e11b8152600490fd5b6040516313d0ff5960e31b8152600490fd5b503461040b578060031936011261040b576020600654604051908152f35b503461040b5760ff60406108e2366146a1565b93908152601f6020522091165f52602052602063ffffffff60405f205416604051908152f35b503461040b57602036600319011261040b576109226145fa565b81546001600160a01b03908116913383900361097a571690816bffffffffffffffffffffffff60a01b60015416176001557f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227008380a380f35b6040516330cd747160e01b8152600490fd5b503461040b5761099b366145b1565b9180845260209160278352604085205491821561002c5782865260268452604086209460ff865460081c16610a6557826109d492614ecc565b8281805181010312610a61578201519160ff831690818403610a5d5784610100610a5a965462ff00008760101b169062ffff0019161717905582865260228152827f469d826bf0b39b9b0a412a3724d68614f3fe9d516985585eb5d45786b4f29fb560018060a01b036040892054169260238152604089205494604051908152a461548f565b80f35b8580fd5b8480fd5b60405163faf8ed4f60e01b8152600490fd5b503461040b578060031936011261040b576020600554604051908152f35b503461040b57604036600319011261040b576024356001600160a01b03811691908290036107d7576040906004358152601c60205220905f52602052602060405f2054604051908152f35b503461040b57602036600319011261040b576004358082526019602052604082209060ff82541615610bee576001600160401b0360048301541662278d008101809111610bda574210610bc8576006610b426001840154600385015490614ab3565b9201610b5081548094614ab3565b928315610bb65783610b6191614a41565b905580835260146020527f3373ce2a6028f8c4b73d8e143fc6530cd0baddcc22b7c683991bfa23079a6cb460206040852054938486526012825260408620610baa828254614a41565b9055604051908152a380f35b6040516312d37ee560e31b8152600490fd5b6040516365f368e360e11b8152600490fd5b634e487b7160e01b84526011600452602484fd5b604051635565870f60e01b8152600490fd5b503461040b57602036600319011261040b576001600160a01b0360043581811691828203610d0a57610c3061513b565b8215908115610c9d575b5061002c57600b80546601000000000000600160d01b03191660309290921b6601000000000000600160d01b03169190911790556040519081527fa813bb039574268cc3b11fac10a33e85255d82b2c8af7db3de366bccf0c6628490602090a180f35b60405163187fc7c560e31b81529150602082600481875afa918215610cff578592610cce575b50163014155f610c3a565b610cf191925060203d602011610cf8575b610ce9818361452f565b810190614a22565b905f610cc3565b503d610cdf565b6040513d87823e3d90fd5b8380fd5b503461040b57602036600319011261040b57602090600435815260228252604060018060a01b0391205416604051908152f35b503461040b57602036600319011261040b5760406020916004358152602183522054604051908152f35b503461040b57606036600319011261040b576001600160401b03600435818111610f295736602382011215610f29578060040135918211610f29576024810190602436918460051b010111610f2957602435906044359163ffffffff83168093036107d757610dd861513b565b5f1993600954958560ff602098891c160160ff81116110c05760ff1682148015906110b8575b61002c578060655b83821061105957505060109260105496610e1f886149de565b60105587835260118952604083209460046001968760ff19825416178155846002820155600381018a63ffffffff198254161790550191600160401b8611611045578254868455808710610feb575b505090849291879185528a85208460041c91865b838110610f8b575050600f198516850380610f2d575b505050509287969594929360405196606088019188528a8801526060604088015252608085019392805b828210610efa578988807ff902f60be9faa664567cac6dee6e6499e0d718a24f7fda485a1db801a612f1ab8a8a038ba2604051908152f35b919380969750949092943561ffff8116809103610f295789828192889452019601920187969594929391610ec2565b8280fd5b869390848a8f5b838310610f4b57505050505001555f808080610e98565b919397985091939495610f7990610f6189614cd7565b9085851b60031b9161ffff809116831b921b19161790565b96019101918896959493928a8f610f34565b89919293949596508d889089905b858210610fb3575050818501550190879594939291610e82565b9097929391610fdd90610fc585614cd7565b908a851b60031b9161ffff809116831b921b19161790565b92019601908a92918f610f99565b8386528b8620600f80890160041c8201920160041c01918c601e898b1b16918261102e575b50505087905b8281106110235750610e6e565b5f8155018790611016565b808401928354920360031b1c1690555f8c81611010565b634e487b7160e01b85526041600452602485fd5b61ffff908161107161106c85888b614cc7565b614cd7565b1615918215611099575b505061002c57600161109161106c838689614cc7565b910190610e06565b809192506110ab61106c85888b614cc7565b9216911610155f8061107b565b508215610dfe565b634e487b7160e01b5f52601160045260245ffd5b503461040b57602036600319011261040b5760ff60406020926004358152602584522054166040519015158152f35b503461040b578060031936011261040b576001546040516001600160a01b039091168152602090f35b503461040b578060031936011261040b5760206040516127118152f35b503461040b57602036600319011261040b57600435611166615099565b60ff6003541661089f57808252601160205260ff6040832054161561088d5780825260116020526040822080549060ff8260081c16156111da5760016020917fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe9361ff00191681550154604051908152a280f35b60405163f84b8daf60e01b8152600490fd5b503461040b57602036600319011261040b5760406020916004358152601583522054604051908152f35b503461040b578060031936011261040b576020604051600a8152f35b9050346107b557816003193601126107b5576040518091600a5490818352602080930191600a86527fc65a7bb8d6351c1cf70c95a316cc6a92839c986682d98bc35f958f4883f9d2a85b81600f8801106114ae579185939161132c978661132097955493838310611498575b83831061147f575b838310611467575b83831061144e575b838310611435575b83831061141c575b838310611403575b8383106113ea575b8383106113d1575b8383106113b8575b83831061139f575b838310611386575b83831061136d575b838310611354575b83831061133d575b505010611330575b509050038261452f565b60405191829182614610565b0390f35b60f01c815201805f611316565b9461ffff85600194971c168152019301845f61130e565b91948160019161ffff8760d01c16815201950191611306565b91948160019161ffff8760c01c168152019501916112fe565b91948160019161ffff8760b01c168152019501916112f6565b91948160019161ffff8760a01c168152019501916112ee565b91948160019161ffff8760901c168152019501916112e6565b91948160019161ffff8760801c168152019501916112de565b91948160019161ffff8760701c168152019501916112d6565b91948160019161ffff8760601c168152019501916112ce565b91948160019161ffff8760501c168152019501916112c6565b91948160019161ffff8760401c168152019501916112be565b91948160019161ffff8760301c168152019501916112b6565b91948160019161ffff87831c168152019501916112ae565b91948160019161ffff8760101c168152019501916112a6565b91948160019161ffff871681520195019161129e565b926001610200601092865461ffff80821683528082871c168a84015280828b1c16604084015280828082818c8282606092828260301c16848d01526080908c82858560401c169101528c60a095858560501c16878301528560c09a8b921c16910152838360701c16908d01521c166101008a0152828260901c166101208a01521c16610140870152828260b01c166101608701521c16610180840152808260d01c166101a084015281881c166101c083015260f01c6101e082015201940196019561127c565b823461040b57602036600319011261040b5760406080916004358152602a602052206001815491015460ff6040519281811615158452818160081c161515602085015260101c16151560408301526060820152f35b823461040b578060031936011261040b576020601054604051908152f35b823461040b578060031936011261040b576020600854604051908152f35b823461040b57602036600319011261040b5760406080916004358152601a6020522060ff80825416916002600182015491015490604051931515845260208401526001600160401b038116604084015260401c1615156060820152f35b823461040b57602036600319011261040b5760406020916004358152602483522054604051908152f35b823461040b578060031936011261040b576020600454604051908152f35b823461040b57602036600319011261040b5760406020916004358152601283522054604051908152f35b823461040b57602036600319011261040b5760406080916004358152602c6020522060ff815491600260018201549101549060405193845260208401528181161515604084015260081c1615156060820152f35b823461040b57610a5a61173a366145b1565b91614b0c565b823461040b576020806003193601126107b5576004359060ff6003541661089f578183526022815260408320546001600160a01b03919082163303611a575781600b5460301c1615611a4557828452602381526117a060408520546153bd565b8284526023815260408420548452601a815260ff600260408620015460401c1661084557828452602a81526040842080549060ff8216611a33576001809260ff191617905583855260218252611809604086205460ff600b5460281c16908015611a2557615994565b9061181430836158b8565b6040519161182183614514565b60018352838301908436833761183684614ac0565b525f927f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0093845496805f80516020615a868339815191525416803b156107d7575f6040518092637d6e912360e11b82528a600483015281838161189c602482018b614e62565b03925af180156107cc57611a12575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156107b557816040518092633263b83b60e01b82528a600483015260606024830152818381611903606482018a614e62565b6359eec4b360e11b604483015203925af180156107aa579082916119fe575b508790525f80516020615a468339815191528087526040822054610784578782528652604081209151926001600160401b03841161077057600160401b84116107705782548484558085106119d7575b50918152858120905b8381106119c657898989602b8a8a61199381546149de565b9055828552528160408420557fb99e1d3fb58405bbf055b348a2f5a9a21fa20a42fa5788b1769b2721c21410508380a380f35b82518282015591860191840161197b565b838352858589852092830192015b8281106119f3575050611972565b5f81550186906119e5565b611a0790614501565b61040b57808a611922565b611a1d919250614501565b5f908a6118ab565b50611a2e615865565b615994565b604051630c8d9eab60e31b8152600490fd5b60405163132fb52160e11b8152600490fd5b6040516329c5f7f360e21b8152600490fd5b823461040b578060031936011261040b57600c546040516001600160a01b039091168152602090f35b823461040b57602036600319011261040b5760406020916004358152602383522054604051908152f35b823461040b57602036600319011261040b576020906040906001600160a01b03611ae46145fa565b168152600e83522054604051908152f35b823461040b57602036600319011261040b57600435611b1261513b565b801561002c576020817fa7f30b376b9717dc68b0311893bc714a9339e44a7227d4c88f997f5fef08117892600855604051908152a180f35b823461040b578060031936011261040b57600b5460405160309190911c6001600160a01b03168152602090f35b823461040b57611b90611b89366146c1565b91906146f0565b9060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b823461040b57602036600319011261040b5763ffffffff6040602092600435815260168452205416604051908152f35b823461040b578060031936011261040b57602063ffffffff60095416604051908152f35b823461040b578060031936011261040b57602060095460ff60405191831c168152f35b823461040b57602036600319011261040b57604060a091600435815260116020522080549060018101549063ffffffff60036002830154920154169160ff604051948181161515865260081c1615156020850152604084015260608301526080820152f35b823461040b578060031936011261040b57546040516001600160a01b039091168152602090f35b82346107d7575f3660031901126107d757611cce6150ea565b60ff6003541661089f57600c546001600160a01b03168015611d715747908115611d5f57803b156107d7575f8291600460405180948193630d0e30db60e41b83525af180156107cc57611d4b575b5060207f13a6b60e1baaf5c7ab3253113820bba7a9f6231303d6c0b650e60a033aae685a91604051908152a180f35b611d56919250614501565b5f906020611d1c565b604051633c652dfd60e01b8152600490fd5b604051630fb1a74560e41b8152600490fd5b346107d75760203660031901126107d7576004355f52601960205260405f2060ff8154169060018101549063ffffffff60028201541660038201546001600160401b036004840154169160066005850154940154946040519615158752602087015260408601526060850152608084015260a083015260c0820152f35b60403660031901126107d75760243560043563ffffffff821682036107d75760ff6003541661089f57805f52601160205260ff60405f2054161561088d575f52601160205260405f209060ff825460081c16156111da57600182015490815f52601660205263ffffffff60405f2054169263ffffffff8216158015612afa575b8015612ae1575b61002c57825f52601560205260405f2054611ea863ffffffff841682614ae1565b3403612acf57335f52600e602052611ec760405f205460045490614a41565b421061086957335f52600e6020524260405f2055835f52601b60205260405f2054601c60205260405f20335f5260205260405f20548115612abf575b8015612ab1575b611f1963ffffffff8616615770565b968061292857505f80516020615a6683398151915254604051639cd07acb60e01b8152600160048201525f60248201819052909391602091859160449183916001600160a01b03165af19283156107cc575f936128f2575b50611f94611f8d611fc494995b611f8661571e565b908b6159f3565b8093615917565b611f9e30826158b8565b611fa833826158b8565b875f52601c60205260405f20335f5260205260405f2055615917565b611fce30826158b8565b845f52601b60205260405f2055601860205261200d60405f2054611ffa6001600160801b03341661569c565b9080156128e4575b81156128da57615940565b61201730826158b8565b845f52601860205260405f205561203034600d54614a41565b600d55602054936001850185116110c0575f959395935b63ffffffff871663ffffffff86161061206857602086600160405191018152f35b5f80516020615a6683398151915254604051636baeb74560e11b815260036004820152959690602090879060249082905f906001600160a01b03165af180156107cc575f906128a8575b5f96508015612896575b5f80516020615a66833981519152546040516367a68c5560e11b81526004810192909252606460248301819052600160f81b604484015291976020928992909183916001600160a01b03165af19586156107cc575f96612862575b50612120615865565b905f915b60048701548310156122b257600487015f5261ffff6020805f208560041c01548a8b156122a0575b6064905f60018060a01b035f80516020615a6683398151915254166040519687958694637210768160e01b8652600486015260f08c60041b161c166024840152600160f81b60448401525af19081156107cc575f9161226d575b505f80516020615a66833981519152546040516307227b9160e21b8152600481019290925260026024830152602090829060449082905f906001600160a01b03165af19081156107cc575f9161223a575b50806001926122129291811561222a575b1561221a57615940565b920191612124565b9050612224615865565b90615940565b9050612234615865565b90612208565b90506020813d602011612265575b816122556020938361452f565b810103126107d7575160016121f7565b3d9150612248565b90506020813d602011612298575b816122886020938361452f565b810103126107d7575160206121a6565b3d915061227b565b5060646122ab615812565b905061214c565b965091929694979050335f52601d60205260405f205495861561284f575b600b545f80516020615a6683398151915254604051639cd07acb60e01b8152602092831c60ff16600482015260026024820152929190839060449082905f906001600160a01b03165af19182156107cc575f9261281b575b5061234163ffffffff600b5416898a1561281257615994565b8190838215612802575b84156127f0575b602090606460018060a01b035f80516020615a668339815191525416945f6040519687948593630d8c635960e21b8552600485015260248401528160448401525af19182156107cc575f926127b8575b50916123b1916123c0936159f3565b6123b9615865565b90866159f3565b9681889289156127a8575b15612796575b602090606460018060a01b035f80516020615a668339815191525416945f6040519687948593631391547f60e01b8552600485015260248401528160448401525af19182156107cc575f92612762575b505f61242b61571e565b92828315612750575b5f80516020615a668339815191525460405163022f65e760e31b8152600481019290925260016024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af19182156107cc575f9261271a575b50906124a49361249e926159f3565b856159f3565b6124ae30826158b8565b6124b833826158b8565b335f52601d60205260405f20556124cf30876158b8565b6124d933876158b8565b6124e46020546149de565b9788602055885f5260216020528660405f2055602260205260405f20336bffffffffffffffffffffffff60a01b82541617905560236020528760405f205560246020528460405f205560ff600b5460281c165b60ff60095460201c1660ff821610156126d1575f90898252601e6020526040822060ff821683526020526040822054898a156126bf575b5f80516020615a668339815191525460405163f77f3f1d60e01b8152600481019290925260ff84166024830152600160f81b6044830152909360209185916064918391906001600160a01b03165af19283156107cc575f9361268a575b5060205f93604460018060a01b035f80516020615a6683398151915254169160405196879384926307227b9160e21b84526004840152600460248401525af19283156107cc575f93612652575b509061262860ff93600193615917565b61263230826158b8565b8b5f52601e60205260405f208483165f5260205260405f20550116612537565b9250906020833d602011612682575b8161266e6020938361452f565b810103126107d75791519190612628612618565b3d9150612661565b92506020833d6020116126b7575b816126a56020938361452f565b810103126107d75791519160206125cb565b3d9150612698565b5060206126ca615865565b905061256e565b509460019088949963ffffffff94998594996040519081527f994cec70a50e5b0c1282ae5305df4fdcdc0ccfbe367018f7889c0219aec4fd5660203392a4011694969050612047565b91506020823d602011612748575b816127356020938361452f565b810103126107d7579051906124a461248f565b3d9150612728565b50602061275b61571e565b9050612434565b9091506020813d60201161278e575b8161277e6020938361452f565b810103126107d75751908a612421565b3d9150612771565b5060206127a1615865565b90506123d1565b92506127b2615865565b926123cb565b9150916020823d6020116127e8575b816127d46020938361452f565b810103126107d757905190916123c06123a2565b3d91506127c7565b5060206127fb615865565b9050612352565b915061280c615865565b9161234b565b50611a2e61571e565b9091506020813d602011612847575b816128376020938361452f565b810103126107d75751908a612328565b3d915061282a565b95505f61285a61571e565b9690506122d0565b9095506020813d60201161288e575b8161287e6020938361452f565b810103126107d757519488612117565b3d9150612871565b5060206128a1615812565b90506120bc565b506020863d6020116128d2575b816128c26020938361452f565b810103126107d7575f95516120b2565b3d91506128b5565b90506122246157bf565b506128ed6157bf565b612002565b92506020833d602011612920575b8161290d6020938361452f565b810103126107d757915191611f94611f71565b3d9150612900565b61293190615770565b91818315612aa1575b8215612a8f575b602090606460018060a01b035f80516020615a668339815191525416955f60405197889485936303056db360e31b8552600485015260248401528160448401525af19283156107cc575f93612a5b575b508288938915612a4b575b15612a39575b602090606460018060a01b035f80516020615a668339815191525416955f6040519788948593631d44e90160e21b8552600485015260248401528160448401525af19283156107cc575f93612a03575b50611f94611f8d611fc49499611f7e565b92506020833d602011612a31575b81612a1e6020938361452f565b810103126107d757915191611f946129f2565b3d9150612a11565b506020612a4461571e565b90506129a2565b9350612a5561571e565b9361299c565b9092506020813d602011612a87575b81612a776020938361452f565b810103126107d757519188612991565b3d9150612a6a565b506020612a9a61571e565b9050612941565b9250612aab61571e565b9261293a565b50612aba61571e565b611f0a565b9050612ac961571e565b90611f03565b60405163569e8c1160e01b8152600490fd5b508315158015611e8757508363ffffffff831611611e87565b50600a63ffffffff831611611e80565b346107d75760203660031901126107d7576004355f526026602052606060405f205460ff6040519181811615158352818160081c161515602084015260101c166040820152f35b346107d7575f3660031901126107d757600180546001600160a01b03908181163303612c3d5782915f549081169133837f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a36001600160a01b031991821633175f9081559116600155915b612bc457005b60ff8083169060038211612c3b576004821015612c2757612be4826146f0565b835f5260205260405f205416612c0c575b5060ff8092169182146110c0578280920191612bbe565b80612c1a83612c2193614ce6565b339061541a565b83612bf5565b634e487b7160e01b5f52602160045260245ffd5b005b604051630614e5c760e21b8152600490fd5b346107d75760203660031901126107d7576001600160a01b03612c706145fa565b165f526028602052602060405f2054604051908152f35b346107d7576020806003193601126107d75760043560ff6003541661089f575f8181526022835260409020546001600160a01b039081163303611a5757815f526023835260405f20545f526019835260ff60405f20541615610bee57815f526026835260405f209283549360ff8516612f1e576001809560ff1916179055604051612d1181614514565b6001815281810182368237845f526021835260405f2054612d3183614ac0565b525f917f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0092835495805f80516020615a868339815191525416803b156107d7575f6040518092637d6e912360e11b8252896004830152818381612d97602482018b614e62565b03925af180156107cc57612f0b575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156107b557816040518092633263b83b60e01b825289600483015260606024830152818381612dfe606482018a614e62565b6301e1f88b60e71b604483015203925af180156107aa57908291612ef7575b508690525f80516020615a468339815191528086526040822054610784578682528552604081209151926001600160401b03841161077057600160401b8411610770578254848455808510612ed0575b50918152848120905b838110612ebf57878760278888612e8d81546149de565b9055825f52528160405f20557f09a70b9f7c57bf8067fffb37a31cafe7de9c6c310bc9d972e09e34b7ac6bcbbe5f80a3005b825182820155918501918801612e76565b838352898588852092830192015b828110612eec575050612e6d565b5f8155018a90612ede565b612f0090614501565b61040b578089612e1d565b612f16919250614501565b5f9089612da6565b60405163a89ac15160e01b8152600490fd5b346107d7575f3660031901126107d7576020600b5460ff60405191831c168152f35b346107d75760403660031901126107d7576004359060243590821580156130fe575b61002c5760135483818111156130e45750505f915b8083116130dc575b509190612f9d81614707565b90612fab604051928361452f565b808252612fb781614707565b60209390601f19015f5b8181106130bf5750505f5b8281106130265750505060405192828493840190808552835180925280604086019401925f905b8382106130005786860387f35b918496508286613016600194969884985161464f565b0196019201869594929391612ff3565b806130376001928498969798614a41565b5f526019875260405f20600660405191613050836144cb565b60ff81541615158352848101548a84015263ffffffff6002820154166040840152600381015460608401526001600160401b036004820154166080840152600581015460a0840152015460c08201526130a98288614acd565b526130b48187614acd565b500194939294612fcc565b94809694956130cc6149ec565b8282890101520195949395612fc1565b915083612f91565b6130ed91614ab3565b600181018091116110c05791612f89565b508115612f74565b346107d75760203660031901126107d7576004355f52601b602052602060405f2054604051908152f35b346107d75761313e366146c1565b5f546001600160a01b03908116330361097a5781161561002c57612c3b9161541a565b346107d7575f3660031901126107d757602060ff600354166040519015158152f35b346107d7576020806003193601126107d757600435906131a16150ea565b815f526011815260ff60405f2054161561088d57600c544791906001600160a01b031680613227575b50600d549182811115610bb6576132027f3fb12fb590bb295327f3bfc48158ada0b1147f8f823e0c7a09b98b301d1867749382614ab3565b90600d55835f526012825260405f2061321c828254614a41565b9055604051908152a2005b918160049293604051938480926278744560e21b82525afa9081156107cc575f9161325e575b6132579250614a41565b90836131ca565b90508282813d8311613288575b613275818361452f565b810103126107d75761325791519061324d565b503d61326b565b346107d75760203660031901126107d75760043560206132ae826151ca565b01516005811015612c27576132c56132ca91615309565b61518b565b7f5edd520c0103960fbe1e1fc55ae80c123b61704fa2429473cef253e3c90ae27e5f80a2005b346107d75760203660031901126107d7576001600160a01b036133116145fa565b165f52600f602052602060405f2054604051908152f35b346107d7576020806003193601126107d7576004359081158015613448575b61002c57613354826153bd565b815f526019815260ff60405f20541661085757815f52601a815260405f20600281019081549060ff8260401c16610845575f80526002845260405f20335f52845260ff60405f205416159081613423575b5061341157600160401b9068ff00000000000000001916179055815f5260178152601260405f2054916014815260405f20545f52526133e960405f20918254614a41565b90557f01fd9d9d9f159bbb346cbe96d08df5b61108b672fa79a2d53fb9c67b9717d2735f80a2005b604051631ba168fb60e11b8152600490fd5b805460ff16915081613438575b5015856133a5565b61344291506153fb565b85613430565b506013548211613347565b346107d7575f3660031901126107d757602060ff600b5460281c16604051908152f35b346107d75760203660031901126107d7576001600160a01b036134976145fa565b165f52601d602052602060405f2054604051908152f35b346107d7575f3660031901126107d7576020600d54604051908152f35b346107d7575f3660031901126107d757335f52602860205260405f20548015610bb657335f5260286020525f6040812055602960205260405f20613510828254614a41565b905561351e81600d54614ab3565b600d5561352b8133615322565b6040519081527f1a31e733a172afcf46074b3106c17f0c298e226442682a03c1e99ce256139ec260203392a2005b346107d757613567366146c1565b5f546001600160a01b0316330361097a57612c3b91614ce6565b346107d75761358f366146a1565b905f52601e60205260ff60405f2091165f52602052602060405f2054604051908152f35b346107d7576020806003193601126107d7576004355f8181526022835260409020546001600160a01b03163303611a5757805f526023825260405f20545f52601a825260ff600260405f20015460401c161561341157805f526025825260ff60405f2054168015613688575b611a3357805f526025825260405f20600160ff19825416179055602482527fa7868dee460b45ad4caaa3baca222ae2f42be8a240d0e6f13b1fa44d7864163260405f20549261367084600d54614ab3565b600d5561367d8433615322565b6040519384523393a3005b50602a825260ff60405f205460101c1661361f565b346107d75760203660031901126107d7576004355f526017602052602060405f2054604051908152f35b346107d75760603660031901126107d75760043560058110156107d75760243590604435906136f86132c582615309565b60048103613894576001600160a01b0380831161002c578215159081613840575b5061002c575b61372a6006546149de565b91826006556001600160401b03938461374560055442614a41565b169260405193613754856144e6565b8585526020850193613766838661471e565b604086019380855260608701958287526080880190848252600754600160401b8110156107205780600161379d9201600755614a4e565b99909961382d57518955519960058b1015612c27576004897f348461b60bc53c303012aa5f5ee6b183bf4b4aa4464b0f9e7fab0b9cde071026996080996137ea60209f8f9e600101614a9b565b516002830155516003820155019151166001600160401b031982541617905561381660405180956144be565b8884015260408301526060820152a2604051908152f35b634e487b7160e01b5f525f60045260245ffd5b60405163187fc7c560e31b815291506020826004818785165afa9182156107cc575f92613873575b501630141584613719565b61388d91925060203d602011610cf857610ce9818361452f565b9085613868565b600181145f8180156138e7575b156138e0576010548510155b61002c57612c2757156138d45781155b1561371f57604051630309cb8760e51b8152600490fd5b63ffffffff82116138bd565b83156138ad565b50505f600383146138a1565b346107d75760203660031901126107d7576004355f526027602052602060405f2054604051908152f35b346107d75760203660031901126107d7576004356139396149ec565b50801580156139c1575b61002c575f52601960205260405f20600660405191613961836144cb565b60ff815416151583526001810154602084015263ffffffff6002820154166040840152600381015460608401526001600160401b036004820154166080840152600581015460a0840152015460c08201526139bf604051809261464f565bf35b506013548111613943565b346107d7576020806003193601126107d7576004356139e9615099565b60ff91826003541661089f57815f52601181528260405f2054161561088d57815f526011815260405f2083815460081c1661087b5760018082019182548015159081613b9d575b81613b81575b50610bee57600363ffffffff91613a4e6013546149de565b8095816013555561010061ff0019825416178155845f52601486528660405f205560028101546015875260405f20550154166016845260405f209063ffffffff19825416179055835f5260128352613ac36001600160801b0360405f205f81549155845f52601786528060405f20551661569c565b613acd30826158b8565b825f526018845260405f2055613ae161571e565b613aeb30826158b8565b825f52601b845260405f20558085600b5460281c16905b613b34575b847f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf8585604051908152a2005b85600954851c1686821690811015613b7b578280928892613b5361571e565b90613b5e30836158b8565b875f52601e895260405f20905f52885260405f2055011690613b02565b50613b07565b90505f52601a845285600260405f20015460401c161587613a36565b8091505f52601985528660405f2054161590613a30565b346107d7575f3660031901126107d75760206040516127108152f35b346107d757602090816003193601126107d757600435805f526011835260ff60405f2054161561088d575f5260118252600460405f2001916040519283928282549586815201915f52825f20945f955b81600f880110613e41579185939161132c978661132097955493838310613e2b575b838310613e12575b838310613dfa575b838310613de1575b838310613dc8575b838310613daf575b838310613d96575b838310613d7d575b838310613d64575b838310613d4b575b838310613d32575b838310613d19575b838310613d00575b838310613ce7575b838310613cd0575b505010613cc357509050038261452f565b60f01c8152018086611316565b9461ffff85600194971c168152019301848a613cb2565b91948160019161ffff8760d01c16815201950191613caa565b91948160019161ffff8760c01c16815201950191613ca2565b91948160019161ffff8760b01c16815201950191613c9a565b91948160019161ffff8760a01c16815201950191613c92565b91948160019161ffff8760901c16815201950191613c8a565b91948160019161ffff8760801c16815201950191613c82565b91948160019161ffff8760701c16815201950191613c7a565b91948160019161ffff8760601c16815201950191613c72565b91948160019161ffff8760501c16815201950191613c6a565b91948160019161ffff8760401c16815201950191613c62565b91948160019161ffff8760301c16815201950191613c5a565b91948160019161ffff87831c16815201950191613c52565b91948160019161ffff8760101c16815201950191613c4a565b91948160019161ffff8716815201950191613c42565b926001610200601092865461ffff80821683528082871c168a84015280828b1c16604084015280828082818c8282606092828260301c16848d01526080908c82858560401c169101528c60a095858560501c16878301528560c09a8b921c16910152838360701c16908d01521c166101008a0152828260901c166101208a01521c16610140870152828260b01c166101608701521c16610180840152808260d01c166101a084015281881c166101c083015260f01c6101e0820152019401960195613c20565b346107d75760203660031901126107d7576001600160a01b03613f286145fa565b165f526029602052602060405f2054604051908152f35b346107d7575f3660031901126107d75760208054604051908152f35b346107d7576020806003193601126107d75760043590613f7a826151ca565b906001600160401b0360808301511642106142225780820180516005811015612c2757613ffa575060607f2967452b6fa59c796540b86ef0133ef8ac87abdfd7c008759f7134d6abbe83c492015180600455604051908152a15b7f917059c1f4e69f15a941c78efb433b9957e94aceae99b068787c32e18c4a9b8d5f80a2005b80516005811015612c275760010361405957507efc4adc1f03f0e4e58813837be0ace2514be24bd389615e8a75510d6618cdbc9060608301926040845191019081515f5260118352600260405f200155519251604051908152a2613fd4565b80516005811015612c27576002036140a2575060607fccbd249a1d0f1e2e065e09f062524aaa559476c9ec2e6c4783937ea8a16ee4dc92015180600555604051908152a1613fd4565b516005811015612c2757600303614115577fe4c693ea85b56fcc079987c8b6d6682d7b8da108f810066599ecc41ca4df925f90606083019263ffffffff9060408286511691019081515f5260118452600360405f20019063ffffffff1982541617905551935116604051908152a2613fd4565b60609190910151600c546001600160a01b0390811692911682614174575b600c80546001600160a01b031916821790556040519081527fe70d79dad95c835bdd87e9cf4665651c9e5abb3b756e4fd2bf45f29c95c3aa409250a1613fd4565b81600493604051948580926278744560e21b82525afa80156107cc575f906141d5575b7fe70d79dad95c835bdd87e9cf4665651c9e5abb3b756e4fd2bf45f29c95c3aa409350806141c6575b50614133565b6141cf90615620565b846141c0565b508183813d831161421b575b6141eb818361452f565b810103126107d7577fe70d79dad95c835bdd87e9cf4665651c9e5abb3b756e4fd2bf45f29c95c3aa409251614197565b503d6141e1565b6040516301b3782160e21b8152600490fd5b346107d75760203660031901126107d7576004355f52602b602052602060405f2054604051908152f35b346107d7575f3660031901126107d757602060405162278d008152f35b346107d75760203660031901126107d7576004358015158091036107d757335f9081527f88601476d11616a71c5be67555bd1dff4b1cbf21533d2669b768b61518cfe1c3602052604090205460ff161561430b5760207f40db37ff5c0bdc2c427fbb2078c8f24afea940abac0e3c23bb4ea3bf2da2b2129160ff196003541660ff821617600355604051908152a1005b604051636c13e33b60e11b815260036004820152602490fd5b346107d7575f3660031901126107d757602060405160648152f35b346107d757612c3b614350366145b1565b9161479e565b346107d75760203660031901126107d7576004355f526018602052602060405f2054604051908152f35b346107d7575f3660031901126107d75760075461439c81614707565b6143a9604051918261452f565b818152602090818101928360075f527fa66cc928b5edb82af9bd49922954155ab7b0942694bea4ce44661d9a8736c6885f915b83831061445c576040805187815286518189018190528992820190895f5b8281106144075784840385f35b9091928260a060019288518051825261442684820151858401906144be565b60408101516040830152606080820151908301526001600160401b036080809201511690820152019601910194929190946143fa565b60058660019261446b8561472a565b8152019201920191906143dc565b346107d7575f3660031901126107d7576020601354604051908152f35b346107d75760203660031901126107d75760043560048110156107d757612c3b903390614ce6565b906005821015612c275752565b60e081019081106001600160401b0382111761072057604052565b60a081019081106001600160401b0382111761072057604052565b6001600160401b03811161072057604052565b604081019081106001600160401b0382111761072057604052565b90601f801991011681019081106001600160401b0382111761072057604052565b6001600160401b03811161072057601f01601f191660200190565b81601f820112156107d75780359061458282614550565b92614590604051948561452f565b828452602083830101116107d757815f926020809301838601378301015290565b60606003198201126107d757600435916001600160401b036024358181116107d757836145e09160040161456b565b926044359182116107d7576145f79160040161456b565b90565b600435906001600160a01b03821682036107d757565b60209060206040818301928281528551809452019301915f5b828110614637575050505090565b835161ffff1685529381019392810192600101614629565b60c080918051151584526020810151602085015263ffffffff6040820151166040850152606081015160608501526001600160401b03608082015116608085015260a081015160a08501520151910152565b60409060031901126107d7576004359060243560ff811681036107d75790565b60409060031901126107d75760043560048110156107d757906024356001600160a01b03811681036107d75790565b6004811015612c27575f52600260205260405f2090565b6001600160401b0381116107205760051b60200190565b6005821015612c275752565b90604051614737816144e6565b60806001600160401b03600483958054855261475d60ff6001830154166020870161471e565b6002810154604086015260038101546060860152015416910152565b60ff166002019060ff82116110c057565b9060ff8091169116039060ff82116110c057565b9091815f52602c60205260405f20936002850191825460ff8116610a655760ff8160081c1680156149c1575b61498b57506147e16147dc8754614d5d565b614e95565b600187015403614979576147f6908585614ecc565b6040848051810103126107d7576020840151916001600160801b03831683036107d757604085015163ffffffff81168091036107d757849160059160ff199160018382541617905588545f52601a60205260405f2082815416905588545f526019602052600160405f20928354161782556001600160801b0386166001830155600282019063ffffffff19825416179055600481016001600160401b0342166001600160401b03198254161790550155600b90600b549260ff60289460281c165b60ff60095460201c1660ff8216101561493a5760ff811660030160ff81116110c0576148ea9060ff8654881c169061478a565b60051b611fe0811660e08216036110c05760ff9163ffffffff60e0600193168a0151168a545f52601f60205260405f208483165f5260205260405f209063ffffffff1982541617905501166148b7565b509450947f2ef8c6bc7b5f39df8001e671e264e46cff8dab36087259ad53da3fd3acdd5e9292506020915054936001600160801b0360405191168152a3565b6040516313b304fb60e21b8152600490fd5b60ff1916600117909255935492507f34726e1d28c664b17dcefc04d53f8e24948936f05fa7216913c3968dfd52234490505f80a3565b5086545f52601a60205260ff600260405f20015460401c166147ca565b5f1981146110c05760010190565b604051906149f9826144cb565b5f60c0838281528260208201528260408201528260608201528260808201528260a08201520152565b908160209103126107d757516001600160a01b03811681036107d75790565b919082018092116110c057565b600754811015614a875760059060075f52027fa66cc928b5edb82af9bd49922954155ab7b0942694bea4ce44661d9a8736c68801905f90565b634e487b7160e01b5f52603260045260245ffd5b906005811015612c275760ff80198354169116179055565b919082039182116110c057565b805115614a875760200190565b8051821015614a875760209160051b010190565b818102929181159184041417156110c057565b908160209103126107d7575180151581036107d75790565b805f52602092602b8452604090815f2054938415614cb657845f52602a8652825f2093845460ff8160081c16614ca55761ff0019166101001785555f868152602588528490205460ff16614c9c57614b769282614b6892614ecc565b858082518301019101614af4565b9384151590835462ff00008360101b169062ff00001916178455845f526022815260018060a01b0380845f20541696614bdd575b5060017f6f6c0d53be67cc30fcd92c6b37042314f3565ee1166b257053af45ced95f7afd940154908351928352820152a3565b815f916021825260648684205491614bfc81600b5460301c16846158b8565b600b5460301c169187519485938492630f22c5f760e11b84528d60048501528c602485015260448401525af1908115614c92575f91614c45575b50600180860191909155614baa565b90508181813d8311614c8b575b614c5c818361452f565b810103126107d757517f6f6c0d53be67cc30fcd92c6b37042314f3565ee1166b257053af45ced95f7afd614c36565b503d614c52565b84513d5f823e3d90fd5b50505050505050565b845163faf8ed4f60e01b8152600490fd5b8251630309cb8760e51b8152600490fd5b9190811015614a875760051b0190565b3561ffff811681036107d75790565b90614cf0826146f0565b9060018060a01b031690815f5260205260ff60405f20541615614d5957614d16826146f0565b815f5260205260405f2060ff1981541690556004821015612c275733917f5a8379f4a3380f87fd5924475f76a3471ac8d775668601653e3f9ef69a3dd2715f80a4565b5050565b90815f52602060188152604092835f205493601b8352805f205490614d81866155c1565b614d8a826155c1565b60ff9384600954821c1691614d9e83614779565b9286614db281600b5460281c16809661478a565b1692614dbd84614707565b93614dca8451958661452f565b808552614dd9601f1991614707565b0136828601378399614dea85614ac0565b5283519660019760011015614a875787968486015285965b614e12575b505050505050505050565b8887169683881015614e5c57888a918199845f52601e8652875f20905f528552865f2054614e5384614e4c8c614e4786614779565b61478a565b168a614acd565b52011696614e02565b50614e07565b9081518082526020808093019301915f5b828110614e81575050505090565b835185529381019392810192600101614e73565b604051614ec681614eb26020820194604086526060830190614e62565b30604083015203601f19810183528261452f565b51902090565b9190825f525f80516020615a4683398151915291602091838352604093845f20541561508857855f528352835f209084518083868295549384815201905f52865f20925f5b8882821061507257505050614f289250038361452f565b8051808501908186116110c05786018091116110c057614fc95f8694614f7789614fdc9681519681614f6389935180928d80870191016155da565b8201908a820152038881018752018561452f565b614feb60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b8752606060048801526064870190614e62565b60031993848783030160248801526155fb565b918483030160448501526155fb565b03925af1918215615068575f9261503b575b50501561502b57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b61505a9250803d10615061575b615052818361452f565b810190614af4565b5f80614ffd565b503d615048565b83513d5f823e3d90fd5b8554845260019586019588955093019201614f11565b845163d66ca67560e01b8152600490fd5b335f9081527fe90b7bceb6e7df5418fb78d8ee546e97c83a08bbccc01a0644d599ccd2a7c2e0602052604090205460ff16156150d157565b604051636c13e33b60e11b815260016004820152602490fd5b335f9081527f679795a0195a1b76cdebb7c51d74e058aee92919b8c3389af86ef24535e8a28c602052604090205460ff161561512257565b604051636c13e33b60e11b815260026004820152602490fd5b335f9081527fac33ff75c19e70fe83507db0d683fd3465c996598dc972688b7ace676c89077b602052604090205460ff161561517357565b604051636c13e33b60e11b81525f6004820152602490fd5b615194816146f0565b335f5260205260ff60405f205416156151aa5750565b604051636c13e33b60e11b81526004821015612c27576024916004820152fd5b5f60806040516151d9816144e6565b8281528260208201528260408201528260608201520152600780545f5b81811061520f57604051630309cb8760e51b8152600490fd5b8361521982614a4e565b505414615228576001016151f6565b925061523c61523684614a4e565b5061472a565b925f19918083019081116110c05761525661525d91614a4e565b5091614a4e565b61382d578181036152b5575b5050815480156152a157019061527e82614a4e565b61382d576004815f80935582600182015582600282015582600382015501555590565b634e487b7160e01b5f52603160045260245ffd5b6001600160401b0390825481556152d6600160ff8186015416908301614a9b565b60028084015490820155600380840154908201556004809101920154166001600160401b03198254161790555f80615269565b6005811015612c275760040361531e57600290565b5f90565b904791818310615388575b5f9250829182918291906001600160a01b03165af13d15615383573d61535281614550565b90615360604051928361452f565b81525f60203d92013e5b1561537157565b6040516312171d8360e31b8152600490fd5b61536a565b600c546001600160a01b031615615371575f828194926153b36153ae8496958596614ab3565b615620565b925092505061532d565b805f52601460205260405f20545f52601160205260405f209060ff825460081c1691826153ed575b505061087b57565b600101541490505f806153e5565b60020154600854615414916001600160401b0316614a41565b42101590565b90615424826146f0565b9060018060a01b031690815f5260205260ff60405f205416614d5957615449826146f0565b815f5260205260405f20600160ff198254161790556004821015612c275733917f570d3756e5b890fbf84c01fc2daf898fa7e95ae3ca9f1ed5edf012eacb5c6ce65f80a4565b805f52602060238152604090815f205491825f52601f8252805f2060ff86165f52825263ffffffff815f2054169283156155b1575f5260198252805f2092600184015495600a54811015614a875761552161ffff61271092600a5f5260f08160041c7fc65a7bb8d6351c1cf70c95a316cc6a92839c986682d98bc35f958f4883f9d2a801549160041b161c1688614ae1565b0404906155436003850194600661553a8754809a614ab3565b91015490614ab3565b8083116155b9575b5081156155b1577f271b7dd70ceba29bfd7a731529bd60a809b9661439b5a77e52d1e546a109a5ac93855f52602284526155918360018060a01b03845f20541698614a41565b9055855f5260288352805f206155a8838254614a41565b905551908152a3565b505050505050565b91505f61554b565b156155c857565b6040516321c4e35760e21b8152600490fd5b5f5b8381106155eb5750505f910152565b81810151838201526020016155dc565b90602091615614815180928185528580860191016155da565b601f01601f1916010190565b600c546001600160a01b031690813b156107d7575f8092602460405180958193632e1a7d4d60e01b83528660048401525af19081156107cc577fb94683dd7c2038206d38c89453c34b47b46bbcd56a3597ac83f1be49b0d9f1c79260209261568d575b50604051908152a1565b61569690614501565b5f615683565b5f80516020615a6683398151915254604051639cd07acb60e01b8152600481019290925260066024830152602090829060449082905f906001600160a01b03165af19081156107cc575f916156ef575090565b90506020813d602011615716575b8161570a6020938361452f565b810103126107d7575190565b3d91506156fd565b5f80516020615a6683398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156107cc575f916156ef575090565b60205f91604460018060a01b035f80516020615a668339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af19081156107cc575f916156ef575090565b5f80516020615a6683398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af19081156107cc575f916156ef575090565b5f80516020615a6683398151915254604051639cd07acb60e01b81525f60048201819052600360248301529091602091839160449183916001600160a01b03165af19081156107cc575f916156ef575090565b5f80516020615a6683398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af19081156107cc575f916156ef575090565b5f80516020615a86833981519152546001600160a01b0392908316803b156107d7575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af180156107cc5761590c5750565b61591590614501565b565b906145f7918015615932575b8161594057905061222461571e565b5061593b61571e565b615923565b90602090606460018060a01b035f80516020615a668339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156107cc575f916156ef575090565b5f80516020615a6683398151915254604051631391547f60e01b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af19081156107cc575f916156ef575090565b9060646020925f60018060a01b035f80516020615a6683398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156107cc575f916156ef57509056fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a570d3756e5b890fbf84c01fc2daf898fa7e95ae3ca9f1ed5edf012eacb5c6ce688601476d11616a71c5be67555bd1dff4b1cbf21533d2669b768b61518cfe1c3ac33ff75c19e70fe83507db0d683fd3465c996598dc972688b7ace676c89077be90b7bceb6e7df5418fb78d8ee546e97c83a08bbccc01a0644d599ccd2a7c2e0679795a0195a1b76cdebb7c51d74e058aee92919b8c3389af86ef24535e8a28c";
+
+type GachaFiFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: GachaFiFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class GachaFiFHE__factory extends ContractFactory {
+  constructor(...args: GachaFiFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _economyVersion: BigNumberish,
+    _tierPayoutBps: BigNumberish[],
+    _pityThreshold: BigNumberish,
+    _pityTier: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      _economyVersion,
+      _tierPayoutBps,
+      _pityThreshold,
+      _pityTier,
+      overrides || {}
+    );
+  }
+  override deploy(
+    _economyVersion: BigNumberish,
+    _tierPayoutBps: BigNumberish[],
+    _pityThreshold: BigNumberish,
+    _pityTier: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      _economyVersion,
+      _tierPayoutBps,
+      _pityThreshold,
+      _pityTier,
+      overrides || {}
+    ) as Promise<
+      GachaFiFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): GachaFiFHE__factory {
+    return super.connect(runner) as GachaFiFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): GachaFiFHEInterface {
+    return new Interface(_abi) as GachaFiFHEInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): GachaFiFHE {
+    return new Contract(address, _abi, runner) as unknown as GachaFiFHE;
+  }
+}
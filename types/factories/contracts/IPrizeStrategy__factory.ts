@@ -0,0 +1,71 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IPrizeStrategy,
+  IPrizeStrategyInterface,
+} from "../../contracts/IPrizeStrategy";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "game",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalAssets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IPrizeStrategy__factory {
+  static readonly abi = _abi;
+  static createInterface(): IPrizeStrategyInterface {
+    return new Interface(_abi) as IPrizeStrategyInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IPrizeStrategy {
+    return new Contract(address, _abi, runner) as unknown as IPrizeStrategy;
+  }
+}
@@ -0,0 +1,196 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  VaultStrategy,
+  VaultStrategyInterface,
+} from "../../../contracts/VaultStrategy.sol/VaultStrategy";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_game",
+        type: "address",
+      },
+      {
+        internalType: "contract IERC4626",
+        name: "_vault",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotGame",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "game",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalAssets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "vault",
+    outputs: [
+      {
+        internalType: "contract IERC4626",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "weth",
+    outputs: [
+      {
+        internalType: "contract IWETH",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x60e06040908082523461011e5781816108d08038038091610020828561014d565b83398101031261011e57602061003582610184565b9101516001600160a01b0391828216919082820361011e57838116158015610145575b6101345760805260a05282516338d52e0f60e01b815290602090829060049082905afa90811561012a575f916100ec575b501660c0525161073790816101998239608051818181610106015281816103030152610397015260a05181818160ba01528181610187015281816103ed0152610577015260c051818181601f015281816101390152818161034701526104210152f35b90506020813d602011610122575b816101076020938361014d565b8101031261011e5761011890610184565b5f610089565b5f80fd5b3d91506100fa565b83513d5f823e3d90fd5b8451630309cb8760e51b8152600490fd5b508215610058565b601f909101601f19168101906001600160401b0382119082101761017057604052565b634e487b7160e01b5f52604160045260245ffd5b51906001600160a01b038216820361011e5756fe608060408181526004918236101561005c575b50361561001d575f80fd5b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316330361004f57005b51630309cb8760e51b8152fd5b5f905f3560e01c90816301e1d11414610550575080632e1a7d4d146103765780633fc8cef314610332578063c3fe3e28146102ee578063d0e30db0146100ed5763fbfa77cf036100125790346100e957816003193601126100e957517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5080fd5b509190826003193601126102ea576001600160a01b03917f0000000000000000000000000000000000000000000000000000000000000000831633036102dc5734156102ce57908391837f00000000000000000000000000000000000000000000000000000000000000001693843b156102c0578251630d0e30db60e41b815284818481348a5af180156102c4579085916102ac575b50507f0000000000000000000000000000000000000000000000000000000000000000166044835192602096848880960191868963095ea7b360e01b9485815288602486015234888601528785526101da85610687565b84519082855af189513d82610290575b505015610258575b50505084519586938492636e553f6560e01b845234908401523060248401525af190811561024f5750610223578280f35b813d8311610248575b61023681836106a3565b81010312610244575f808280f35b5f80fd5b503d61022c565b513d85823e3d90fd5b61028361028893895190898201528760248201528a8782015286815261027d81610687565b826106c5565b6106c5565b5f80806101f2565b9091506102a45750803b15155b5f806101ea565b60011461029d565b6102b59061065f565b6102c057835f610183565b8380fd5b84513d87823e3d90fd5b9051630309cb8760e51b8152fd5b905163ba160f4360e01b8152fd5b8280fd5b5090346100e957816003193601126100e957517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5090346100e957816003193601126100e957517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50919034610244576020806003193601126102445782356001600160a01b037f000000000000000000000000000000000000000000000000000000000000000081169033829003610540578215610530578451632d182be560e21b8152838782015230602482015230604482015284816064815f867f0000000000000000000000000000000000000000000000000000000000000000165af18015610526579085916104fd575b50507f000000000000000000000000000000000000000000000000000000000000000016803b15610244575f80916024875180948193632e1a7d4d60e01b8352888c8401525af180156104f3576104de575b508580809381935af1903d156104d8573d9067ffffffffffffffff82116104c55785908451926104a882601f19601f84011601856106a3565b83523d92013e5b156104b8578280f35b516312171d8360e31b8152fd5b634e487b7160e01b865260418552602486fd5b506104af565b6104ea9192965061065f565b5f94905f61046f565b85513d5f823e3d90fd5b813d831161051f575b61051081836106a3565b8101031261024457835f61041d565b503d610506565b86513d5f823e3d90fd5b8451630309cb8760e51b81528690fd5b845163ba160f4360e01b81528690fd5b84908434610244575f366003190112610244576370a0823160e01b825230838301526020927f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031692908482602481875afa91821561065557908592915f92610623575b506024908451958693849263266d6a8360e11b84528301525afa918215610619575f926105ea575b5051908152f35b9091508281813d8311610612575b61060281836106a3565b81010312610244575190836105e3565b503d6105f8565b50513d5f823e3d90fd5b8381949293503d831161064e575b61063b81836106a3565b81010312610244579051849160246105bb565b503d610631565b83513d5f823e3d90fd5b67ffffffffffffffff811161067357604052565b634e487b7160e01b5f52604160045260245ffd5b6080810190811067ffffffffffffffff82111761067357604052565b90601f8019910116810190811067ffffffffffffffff82111761067357604052565b905f602091828151910182855af11561071f575f513d61071657506001600160a01b0381163b155b6106f45750565b604051635274afe760e01b81526001600160a01b039091166004820152602490fd5b600114156106ed565b6040513d5f823e3d90fdfea164736f6c6343000818000a";
+
+type VaultStrategyConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: VaultStrategyConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class VaultStrategy__factory extends ContractFactory {
+  constructor(...args: VaultStrategyConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _game: AddressLike,
+    _vault: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_game, _vault, overrides || {});
+  }
+  override deploy(
+    _game: AddressLike,
+    _vault: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_game, _vault, overrides || {}) as Promise<
+      VaultStrategy & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): VaultStrategy__factory {
+    return super.connect(runner) as VaultStrategy__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): VaultStrategyInterface {
+    return new Interface(_abi) as VaultStrategyInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): VaultStrategy {
+    return new Contract(address, _abi, runner) as unknown as VaultStrategy;
+  }
+}
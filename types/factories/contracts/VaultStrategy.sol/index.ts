@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IWETH__factory } from "./IWETH__factory";
+export { VaultStrategy__factory } from "./VaultStrategy__factory";
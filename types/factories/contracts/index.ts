@@ -1,4 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as gachaFiSol from "./Gacha_Fi.sol";
+export * as vaultStrategySol from "./VaultStrategy.sol";
+export * as mocks from "./mocks";
+export { GachaRewards__factory } from "./GachaRewards__factory";
+export { IPrizeStrategy__factory } from "./IPrizeStrategy__factory";
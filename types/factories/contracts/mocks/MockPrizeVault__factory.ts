@@ -0,0 +1,906 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockPrizeVault,
+  MockPrizeVaultInterface,
+} from "../../../contracts/mocks/MockPrizeVault";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract IERC20",
+        name: "_asset",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "allowance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientAllowance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSpender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "assets",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "ERC4626ExceededMaxDeposit",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "ERC4626ExceededMaxMint",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "ERC4626ExceededMaxRedeem",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "assets",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "ERC4626ExceededMaxWithdraw",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "assets",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "Deposit",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "assets",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "Withdraw",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "YieldAccrued",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "accrueYield",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "asset",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "convertToAssets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "assets",
+        type: "uint256",
+      },
+    ],
+    name: "convertToShares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "assets",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "deposit",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "maxDeposit",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "maxMint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "maxRedeem",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "maxWithdraw",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "mint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "assets",
+        type: "uint256",
+      },
+    ],
+    name: "previewDeposit",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "previewMint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "previewRedeem",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "assets",
+        type: "uint256",
+      },
+    ],
+    name: "previewWithdraw",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "redeem",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalAssets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "assets",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "withdraw",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c080604052346200038f5780620014c48038038091620000218285620003af565b83396020928391810103126200038f5751906001600160a01b03821682036200038f57604051620000528162000393565b601381527f47616368614669205072697a65205661756c740000000000000000000000000082820152604051620000898162000393565b60068152650ceecae8aa8960d31b8382015281516001600160401b0391908281116200029a576003918254916001958684811c9416801562000384575b8885101462000370578190601f948581116200031d575b508890858311600114620002ba575f92620002ae575b50505f1982861b1c191690861b1783555b80519384116200029a5760049586548681811c911680156200028f575b828210146200027c5783811162000234575b5080928511600114620001ca57509383949184925f95620001be575b50501b925f19911b1c19161790555b6200016981620003d3565b9015620001b5575b60a05260805260405161102f908162000495823960805181818161050c015281816106f60152818161099c01528181610cf80152610e86015260a051816105500152f35b50601262000171565b015193505f806200014f565b92919084601f198116885f52855f20955f905b89838310620002195750505010620001ff575b50505050811b0190556200015e565b01519060f8845f19921b161c191690555f808080620001f0565b858701518955909701969485019488935090810190620001dd565b875f52815f208480880160051c82019284891062000272575b0160051c019087905b8281106200026657505062000133565b5f815501879062000256565b925081926200024d565b602288634e487b7160e01b5f525260245ffd5b90607f169062000121565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620000f3565b90889350601f19831691875f528a5f20925f5b8c828210620003065750508411620002ee575b505050811b01835562000104565b01515f1983881b60f8161c191690555f8080620002e0565b8385015186558c97909501949384019301620002cd565b909150855f52885f208580850160051c8201928b861062000366575b918a91869594930160051c01915b82811062000357575050620000dd565b5f81558594508a910162000347565b9250819262000339565b634e487b7160e01b5f52602260045260245ffd5b93607f1693620000c6565b5f80fd5b604081019081106001600160401b038211176200029a57604052565b601f909101601f19168101906001600160401b038211908210176200029a57604052565b5f80604051926020938481019063313ce56760e01b825260048152620003f98162000393565b51916001600160a01b03165afa3d156200048b573d906001600160401b0382116200029a576040519162000437601f8201601f1916850184620003af565b82523d5f8484013e5b806200047f575b62000455575b50505f905f90565b81818051810103126200038f57015160ff8111156200047557806200044d565b9060ff6001921690565b50818151101562000447565b6060906200044056fe60406080815260049081361015610014575f80fd5b5f3560e01c91826301e1d1141461081e57826306fdde031461072a57826307a2d13a146104f357826308b0b0c8146106b6578263095ea7b31461060e5782630a28a477146105f057826318160ddd146105d257826323b872dd14610596578263313ce5671461053b57826338d52e0f146104f8578263402d267d146102045782634cdad506146104f35782636e553f65146104c057826370a08231146104a057826394bf804d1461046d57826395d89b411461036b578263a9059cbb1461033b578263b3d7f6b91461031d578263b460af9414610292578263ba0876521461020957508163c63d75b614610204578163c6e6f5921461013d578163ce96cb77146101ce578163d905777e1461018e578163dd62ed3e14610142575063ef8b30f71461013d575f80fd5b61092d565b3461018a578060031936011261018a5760209061015d6108a7565b6101656108bd565b9060018060a01b038091165f5260018452825f2091165f528252805f20549051908152f35b5f80fd5b3461018a57602036600319011261018a576020906101c76101ad6108a7565b6001600160a01b03165f9081526020819052604090205490565b9051908152f35b3461018a57602036600319011261018a576020906001600160a01b036101f26108a7565b165f525f82526101c7815f2054610a60565b6108d3565b903461018a57610218366108f8565b9291936102358460018060a01b03165f525f60205260405f205490565b80861161025d575050836102579161024e602096610a60565b94859133610da4565b51908152f35b9251632e52afbb60e21b81526001600160a01b0390941690840190815260208101949094525060408301529081906060010390fd5b903461018a576102a1366108f8565b9291936102c66102c18560018060a01b03165f525f60205260405f205490565b610a60565b8086116102e857505061025790846102df602096610ae6565b94859233610da4565b9251633fa733bb60e21b81526001600160a01b0390941690840190815260208101949094525060408301529081906060010390fd5b903461018a57602036600319011261018a576101c760209235610a32565b503461018a578060031936011261018a5760209061036461035a6108a7565b6024359033610c09565b5160018152f35b903461018a575f36600319011261018a578051905f9280549060018260011c9160018416938415610463575b60209485851081146104505784885290811561042e57506001146103d5575b6103d186866103c7828b038361094b565b519182918261083a565b0390f35b5f9081529295507f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b5b82841061041b57505050826103d1946103c79282010194866103b6565b80548685018801529286019281016103fe565b60ff191687860152505050151560051b83010192506103c7826103d1866103b6565b602283634e487b7160e01b5f525260245ffd5b92607f1692610397565b903461018a578060031936011261018a57602091359061025761048e6108bd565b9261049881610a32565b809433610ce3565b503461018a57602036600319011261018a576020906101c76101ad6108a7565b903461018a578060031936011261018a5760209135906102576104e16108bd565b6104ea84610b11565b93849133610ce3565b610881565b503461018a575f36600319011261018a57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b903461018a575f36600319011261018a5760ff7f0000000000000000000000000000000000000000000000000000000000000000169060ff8211610583576020925051908152f35b601183634e487b7160e01b5f525260245ffd5b503461018a57606036600319011261018a576020906103646105b66108a7565b6105be6108bd565b604435916105cd833383610b3c565b610c09565b503461018a575f36600319011261018a576020906002549051908152f35b903461018a57602036600319011261018a576101c760209235610ae6565b903461018a578060031936011261018a576106276108a7565b6024359033156106a0576001600160a01b031690811561068a5760209350335f5260018452825f20825f52845280835f205582519081527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925843392a35160018152f35b8251634a1406b160e11b81525f81860152602490fd5b825163e602df0560e01b81525f81860152602490fd5b3461018a57602036600319011261018a577f3b6bc0ba304eaa17cdca1b053baac859e721c7a775cddefc825f6286641311fc9160209135906107238230337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316610a8b565b51908152a1005b903461018a575f36600319011261018a578051905f9260035460018160011c91600181168015610814575b602094858510821461080157508387529081156107e15750600114610787575b5050506103c7826103d194038361094b565b60035f9081529295507fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b5b8284106107ce57505050826103d1946103c79282010194610775565b80548685018801529286019281016107b2565b60ff1916868501525050151560051b83010192506103c7826103d1610775565b602290634e487b7160e01b5f525260245ffd5b92607f1692610755565b503461018a575f36600319011261018a576020906101c7610981565b602080825282518183018190529093925f5b82811061086d57505060409293505f838284010152601f8019910116010190565b81810186015184820160400152850161084c565b3461018a57602036600319011261018a57602061089f600435610a60565b604051908152f35b600435906001600160a01b038216820361018a57565b602435906001600160a01b038216820361018a57565b3461018a57602036600319011261018a576108ec6108a7565b5060206040515f198152f35b606090600319011261018a57600435906001600160a01b0390602435828116810361018a5791604435908116810361018a5790565b3461018a57602036600319011261018a57602061089f600435610b11565b90601f8019910116810190811067ffffffffffffffff82111761096d57604052565b634e487b7160e01b5f52604160045260245ffd5b6040516370a0823160e01b81523060048201526020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610a06575f916109d7575090565b90506020813d6020116109fe575b816109f26020938361094b565b8101031261018a575190565b3d91506109e5565b6040513d5f823e3d90fd5b91908201809211610a1e57565b634e487b7160e01b5f52601160045260245ffd5b610a3a610981565b60018101809111610a1e576002549060018201809211610a1e57610a5d92610efa565b90565b610a68610981565b60018101809111610a1e576002549060018201809211610a1e57610a5d92610f88565b6040516323b872dd60e01b60208201526001600160a01b03928316602482015292909116604483015260648083019390935291815260a081019181831067ffffffffffffffff84111761096d57610ae492604052610f2e565b565b60025460018101809111610a1e57610afc610981565b9060018201809211610a1e57610a5d92610efa565b60025460018101809111610a1e57610b27610981565b9060018201809211610a1e57610a5d92610f88565b919060018060a01b0380931692835f526001602052604093845f2091831691825f52602052845f2054925f198410610b77575b505050505050565b848410610bd957508015610bc2578115610bab575f526001602052835f20905f5260205203905f20555f8080808080610b6f565b8451634a1406b160e11b81525f6004820152602490fd5b845163e602df0560e01b81525f6004820152602490fd5b8551637dc7a0d960e11b81526001600160a01b039190911660048201526024810184905260448101859052606490fd5b916001600160a01b03808416928315610ccb5716928315610cb357825f525f60205260405f205490828210610c815750817fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92602092855f525f84520360405f2055845f5260405f20818154019055604051908152a3565b60405163391434e360e21b81526001600160a01b03919091166004820152602481019190915260448101829052606490fd5b60405163ec442f0560e01b81525f6004820152602490fd5b604051634b637e8f60e11b81525f6004820152602490fd5b6001600160a01b039390918490610d1e8530867f00000000000000000000000000000000000000000000000000000000000000008616610a8b565b16938415610cb3577fdcbc1c05240f31ff3ad067ef1ee35ce4997762752e3a095284754544f4c709d79282610d57604094600254610a11565b600255865f525f602052835f20818154019055865f7fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60208751858152a3835195865260208601521692a3565b9192909260018060a01b0391828216958385169481888703610ee9575b50508615610ccb57865f525f602052604092835f205490828210610eb857508190885f525f60205203835f205580600254036002555f877fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60208651858152a38383519663a9059cbb60e01b6020890152169586602482015282604482015260448152608081019080821067ffffffffffffffff83111761096d577ffbde797d201c681b91056529119e0b02407c7bb96a4a2c75c01fc9667232c8db95610eab9286527f000000000000000000000000000000000000000000000000000000000000000016610f2e565b82519182526020820152a4565b845163391434e360e21b81526001600160a01b03919091166004820152602481019190915260448101829052606490fd5b610ef39185610b3c565b5f81610dc1565b91610f06818385610f88565b918115610f1a57610a5d9309151590610a11565b634e487b7160e01b5f52601260045260245ffd5b905f602091828151910182855af115610a06575f513d610f7f57506001600160a01b0381163b155b610f5d5750565b604051635274afe760e01b81526001600160a01b039091166004820152602490fd5b60011415610f56565b90915f1983830992808302928380861095039480860395146110145784831115610ffc5790829109815f038216809204600280826003021880830282030280830282030280830282030280830282030280830282030280920290030293600183805f03040190848311900302920304170290565b82634e487b715f52156003026011186020526024601cfd5b505080925015610f1a57049056fea164736f6c6343000818000a";
+
+type MockPrizeVaultConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockPrizeVaultConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockPrizeVault__factory extends ContractFactory {
+  constructor(...args: MockPrizeVaultConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _asset: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_asset, overrides || {});
+  }
+  override deploy(
+    _asset: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_asset, overrides || {}) as Promise<
+      MockPrizeVault & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockPrizeVault__factory {
+    return super.connect(runner) as MockPrizeVault__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockPrizeVaultInterface {
+    return new Interface(_abi) as MockPrizeVaultInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockPrizeVault {
+    return new Contract(address, _abi, runner) as unknown as MockPrizeVault;
+  }
+}
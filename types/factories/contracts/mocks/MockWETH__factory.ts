@@ -0,0 +1,406 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockWETH,
+  MockWETHInterface,
+} from "../../../contracts/mocks/MockWETH";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "allowance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientAllowance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSpender",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x60803462000321576040906001600160401b0390808301828111828210176200030d578352600d81526020916c2bb930b83832b21022ba3432b960991b83830152835192848401848110838211176200030d578552600493848152630ae8aa8960e31b82820152835190838211620002fa576003928354926001968785811c95168015620002ef575b83861014620002dc578190601f9586811162000289575b50839086831160011462000226575f926200021a575b50505f1982871b1c191690871b1784555b8151948511620002075786548681811c91168015620001fc575b82821014620001e957838111620001a1575b50809285116001146200013757509383949184925f956200012b575b50501b925f19911b1c19161790555b5161084f9081620003268239f35b015193505f806200010e565b92919084601f198116885f52855f20955f905b898383106200018657505050106200016c575b50505050811b0190556200011d565b01519060f8845f19921b161c191690555f8080806200015d565b8587015189559097019694850194889350908101906200014a565b875f52815f208480880160051c820192848910620001df575b0160051c019087905b828110620001d3575050620000f2565b5f8155018790620001c3565b92508192620001ba565b602288634e487b7160e01b5f525260245ffd5b90607f1690620000e0565b604187634e487b7160e01b5f525260245ffd5b015190505f80620000b5565b90899350601f19831691885f52855f20925f5b878282106200027257505084116200025a575b505050811b018455620000c6565b01515f1983891b60f8161c191690555f80806200024c565b8385015186558d9790950194938401930162000239565b909150865f52835f208680850160051c820192868610620002d2575b918b91869594930160051c01915b828110620002c35750506200009f565b5f81558594508b9101620002b3565b92508192620002a5565b602289634e487b7160e01b5f525260245ffd5b94607f169462000088565b604186634e487b7160e01b5f525260245ffd5b634e487b7160e01b5f52604160045260245ffd5b5f80fdfe6080604090808252600480361015610029575b505050361561001f575f80fd5b6100276106fe565b005b5f3560e01c91826306fdde031461056457508163095ea7b3146104bc57816318160ddd1461049e57816323b872dd146103ac5781632e1a7d4d14610292578163313ce5671461027757816370a082311461024157816395d89b411461013f57508063a9059cbb1461010f578063d0e30db0146100fc5763dd62ed3e146100b0578080610012565b346100f857806003193601126100f8576020906100cb61069c565b6100d36106b2565b9060018060a01b038091165f5260018452825f2091165f528252805f20549051908152f35b5f80fd5b5f3660031901126100f8576100276106fe565b50346100f857806003193601126100f85760209061013861012e61069c565b6024359033610780565b5160018152f35b82346100f8575f3660031901126100f8578051905f9280549060018260011c9160018416938415610237575b60209485851081146102245784885290811561020257506001146101a9575b6101a5868661019b828b03836106c8565b5191829182610655565b0390f35b5f9081529295507f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b5b8284106101ef57505050826101a59461019b92820101948661018a565b80548685018801529286019281016101d2565b60ff191687860152505050151560051b830101925061019b826101a58661018a565b602283634e487b7160e01b5f525260245ffd5b92607f169261016b565b82346100f85760203660031901126100f8576020906001600160a01b0361026661069c565b165f525f8252805f20549051908152f35b82346100f8575f3660031901126100f8576020905160128152f35b82346100f8576020806003193601126100f8578235331561039657335f525f8252825f205481811061036a575f808381948294338452838852038783205580600254036002558187518281527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef883392a3335af1903d15610364573d9067ffffffffffffffff8211610351575f9084519261033682601f19601f84011601856106c8565b83523d92013e5b1561034457005b516312171d8360e31b8152fd5b604185634e487b7160e01b5f525260245ffd5b5061033d565b835163391434e360e21b8152338187019081526020810192909252604082018390529081906060010390fd5b8251634b637e8f60e11b81525f81860152602490fd5b9050346100f85760603660031901126100f8576103c761069c565b6103cf6106b2565b906044359260018060a01b038216805f526001602052855f20335f52602052855f2054915f19831061040a575b602087610138888888610780565b85831061047257811561045c57331561044657505f908152600160209081528682203383528152908690209185900390915582906101386103fc565b6024905f885191634a1406b160e11b8352820152fd5b6024905f88519163e602df0560e01b8352820152fd5b8651637dc7a0d960e11b8152339181019182526020820193909352604081018690528291506060010390fd5b82346100f8575f3660031901126100f8576020906002549051908152f35b82346100f857806003193601126100f8576104d561069c565b60243590331561054e576001600160a01b03169081156105385760209350335f5260018452825f20825f52845280835f205582519081527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925843392a35160018152f35b8251634a1406b160e11b81525f81860152602490fd5b825163e602df0560e01b81525f81860152602490fd5b83346100f8575f3660031901126100f8575f9260035460018160011c9160018116801561064b575b6020948585108214610638575083875290811561061857506001146105be575b50505061019b826101a59403836106c8565b60035f9081529295507fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b5b82841061060557505050826101a59461019b92820101946105ac565b80548685018801529286019281016105e9565b60ff1916868501525050151560051b830101925061019b826101a56105ac565b602290634e487b7160e01b5f525260245ffd5b92607f169261058c565b602080825282518183018190529093925f5b82811061068857505060409293505f838284010152601f8019910116010190565b818101860151848201604001528501610667565b600435906001600160a01b03821682036100f857565b602435906001600160a01b03821682036100f857565b90601f8019910116810190811067ffffffffffffffff8211176106ea57604052565b634e487b7160e01b5f52604160045260245ffd5b33156107685760025434810180911161075457600255335f525f60205260405f203481540190556040513481525f7fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60203393a3565b634e487b7160e01b5f52601160045260245ffd5b60405163ec442f0560e01b81525f6004820152602490fd5b916001600160a01b0380841692831561082a571692831561076857825f525f60205260405f2054908282106107f85750817fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92602092855f525f84520360405f2055845f5260405f20818154019055604051908152a3565b60405163391434e360e21b81526001600160a01b03919091166004820152602481019190915260448101829052606490fd5b604051634b637e8f60e11b81525f6004820152602490fdfea164736f6c6343000818000a";
+
+type MockWETHConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockWETHConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockWETH__factory extends ContractFactory {
+  constructor(...args: MockWETHConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockWETH & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockWETH__factory {
+    return super.connect(runner) as MockWETH__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockWETHInterface {
+    return new Interface(_abi) as MockWETHInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): MockWETH {
+    return new Contract(address, _abi, runner) as unknown as MockWETH;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { MockPrizeVault__factory } from "./MockPrizeVault__factory";
+export { MockWETH__factory } from "./MockWETH__factory";